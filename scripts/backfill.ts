@@ -0,0 +1,154 @@
+#!/usr/bin/env ts-node
+/* eslint-disable no-console */
+
+/**
+ * Backfill Script for Tassie Reddit Bot
+ * Forwards a feed's posts from a past time range to its Discord destination
+ *
+ * Usage: npm run backfill -- --from <time> [--to <time>] [--feed <name>] [--delay <ms>]
+ *        npm run backfill -- --resume [--delay <ms>]
+ *
+ * Times are ISO 8601 dates, Unix timestamps in milliseconds, or relative
+ * times such as "7d" or "12h"
+ */
+
+import dotenv from "dotenv";
+import { loadConfig } from "../src/config/config";
+import { RedditDiscordBot } from "../src/bot";
+import {
+  BackfillRequest,
+  parseBackfillDelay,
+  parseBackfillRequest,
+} from "../src/utils/backfill";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Parse "--name value" and "--flag" command line arguments
+ *
+ * @param args - Command line arguments
+ * @returns Argument values keyed by name
+ */
+function parseArgs(args: string[]): Record<string, string | true> {
+  const parsed: Record<string, string | true> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--")) {
+      continue;
+    }
+
+    const name = args[i].slice(2);
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith("--")) {
+      parsed[name] = true;
+    } else {
+      parsed[name] = value;
+      i++;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Run the backfill and print its report
+ *
+ * @param bot - Bot to backfill with
+ * @param args - Parsed command line arguments
+ * @param defaultFeed - Feed backfilled when --feed isn't given
+ * @returns Process exit code
+ */
+async function runBackfill(
+  bot: RedditDiscordBot,
+  args: Record<string, string | true>,
+  defaultFeed: string,
+): Promise<number> {
+  const value = (name: string): string | undefined =>
+    typeof args[name] === "string" ? (args[name] as string) : undefined;
+
+  let result;
+  if (args.resume) {
+    // Checked like a new backfill's delay, so "--delay abc" can't turn off throttling
+    const delayMs = parseBackfillDelay(value("delay"));
+    if (delayMs === undefined) {
+      console.error(`❌ Invalid delay: ${value("delay")}`);
+      console.error("   Usage: npm run backfill -- --resume [--delay <ms>]");
+      return 1;
+    }
+
+    result = await bot.resumeBackfill(delayMs);
+  } else {
+    const request: BackfillRequest = {
+      feed: value("feed"),
+      from: value("from"),
+      to: value("to"),
+      delayMs: value("delay"),
+    };
+    const options = parseBackfillRequest(request, defaultFeed);
+    if (!options.success) {
+      console.error("❌", options.error.message);
+      console.error(
+        "   Usage: npm run backfill -- --from <time> [--to <time>] [--feed <name>] [--delay <ms>]",
+      );
+      return 1;
+    }
+
+    console.log(`   Feed: ${options.data.feed}`);
+    console.log(`   From: ${new Date(options.data.from).toISOString()}`);
+    console.log(`   To:   ${new Date(options.data.to).toISOString()}`);
+    console.log();
+
+    result = await bot.backfill(options.data);
+  }
+
+  if (!result.success) {
+    console.error("❌ Backfill failed:", result.error.message);
+    if (result.error.originalError) {
+      console.error(`   ${result.error.originalError.message}`);
+    }
+    return 1;
+  }
+
+  const progress = result.data;
+  console.log();
+  console.log(`✅ Backfilled ${progress.feed}`);
+  console.log(`   Found:   ${progress.found}`);
+  console.log(`   Sent:    ${progress.sent}`);
+  console.log(`   Skipped: ${progress.skipped}`);
+  if (progress.failed > 0) {
+    console.log(`   Failed:  ${progress.failed} (left in the outbox to retry)`);
+  }
+
+  return 0;
+}
+
+/**
+ * Run the backfill, releasing the storage lock however it ends
+ */
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  console.log("⏪ Tassie Reddit Bot - Backfill");
+  console.log("=".repeat(50));
+
+  const config = await loadConfig();
+  const bot = new RedditDiscordBot(config);
+
+  let exitCode = 1;
+  try {
+    exitCode = await runBackfill(bot, args, config.feeds[0].name);
+  } finally {
+    await bot.close();
+  }
+
+  process.exit(exitCode);
+}
+
+main().catch((error) => {
+  console.error(
+    "❌ Backfill failed:",
+    error instanceof Error ? error.message : String(error),
+  );
+  process.exit(1);
+});
@@ -0,0 +1,172 @@
+#!/usr/bin/env ts-node
+/* eslint-disable no-console */
+
+/**
+ * Tag Discovery Script for Tassie Reddit Bot
+ * Reads a feed's Discord forum tags, matches them to the subreddit's link
+ * flairs by name and proposes a tag mapping
+ *
+ * Usage: npm run discover:tags -- [--feed <name>] [--write <file>]
+ *
+ * Needs DISCORD_BOT_TOKEN (or the feed's botToken) for a bot that can see
+ * the forum channel
+ */
+
+import dotenv from "dotenv";
+import { promises as fs } from "fs";
+import path from "path";
+import { loadConfig } from "../src/config/config";
+import { RedditService } from "../src/services/reddit.service";
+import { DiscordService } from "../src/services/discord.service";
+import {
+  findMissingTagIds,
+  proposeTagMapping,
+} from "../src/utils/tag-discovery";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Parse "--name value" command line arguments
+ *
+ * @param args - Command line arguments
+ * @returns Argument values keyed by name
+ */
+function parseArgs(args: string[]): Record<string, string> {
+  const parsed: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--") && args[i + 1] !== undefined) {
+      parsed[args[i].slice(2)] = args[i + 1];
+      i++;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Discover the forum tags and print or write the proposed mapping
+ */
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  console.log("🏷️  Tassie Reddit Bot - Tag Discovery");
+  console.log("=".repeat(50));
+
+  const config = await loadConfig();
+  const feed = args.feed
+    ? config.feeds.find((candidate) => candidate.name === args.feed)
+    : config.feeds[0];
+  if (!feed) {
+    console.error(`❌ Unknown feed: ${args.feed}`);
+    console.error(
+      `   Feeds: ${config.feeds.map((candidate) => candidate.name).join(", ")}`,
+    );
+    process.exit(1);
+  }
+  if (!feed.discord.botToken) {
+    console.error("❌ Reading forum tags requires DISCORD_BOT_TOKEN");
+    process.exit(1);
+  }
+
+  console.log(`   Feed:      ${feed.name}`);
+  console.log(`   Subreddit: r/${feed.subreddit}`);
+  console.log();
+
+  const tagsResult = await new DiscordService(feed.discord).fetchForumTags();
+  if (!tagsResult.success) {
+    console.error(
+      "❌ Could not read the forum tags:",
+      tagsResult.error.message,
+    );
+    if (tagsResult.error.originalError) {
+      console.error(`   ${tagsResult.error.originalError.message}`);
+    }
+    process.exit(1);
+  }
+
+  const flairsResult = await new RedditService(config.reddit).fetchLinkFlairs(
+    feed.subreddit,
+  );
+  if (!flairsResult.success) {
+    console.error(
+      "❌ Could not read the link flairs:",
+      flairsResult.error.message,
+    );
+    if (flairsResult.error.originalError) {
+      console.error(`   ${flairsResult.error.originalError.message}`);
+    }
+    process.exit(1);
+  }
+
+  const tags = tagsResult.data;
+  const proposal = proposeTagMapping(flairsResult.data, tags);
+
+  console.log(`Forum tags (${tags.length}):`);
+  for (const tag of tags) {
+    console.log(`   ${tag.id}  ${tag.name}`);
+  }
+  console.log();
+
+  console.log(`Matched flairs (${Object.keys(proposal.mapping).length}):`);
+  for (const [flair, tagId] of Object.entries(proposal.mapping)) {
+    const tag = tags.find((candidate) => candidate.id === tagId);
+    console.log(`   ${flair} → ${tag?.name} (${tagId})`);
+  }
+  if (proposal.unmatchedFlairs.length > 0) {
+    console.log(`   No tag for: ${proposal.unmatchedFlairs.join(", ")}`);
+  }
+  if (proposal.unusedTags.length > 0) {
+    console.log(
+      `   No flair for: ${proposal.unusedTags.map((tag) => tag.name).join(", ")}`,
+    );
+  }
+  console.log();
+
+  const missingTagIds = findMissingTagIds(feed.discord, tags);
+  if (missingTagIds.length > 0) {
+    console.log(
+      `⚠️  Configured tags missing from the channel: ${missingTagIds.join(", ")}`,
+    );
+    console.log();
+  }
+
+  if (args.write) {
+    const filePath = path.resolve(args.write);
+    await fs.writeFile(
+      filePath,
+      `${JSON.stringify(proposal.mapping, null, 2)}\n`,
+      "utf-8",
+    );
+    console.log(`✅ Wrote the proposed mapping to ${filePath}`);
+    console.log("   Use it as the feed's tagMapping in FEEDS_FILE.");
+    process.exit(0);
+  }
+
+  // The environment variable format can't hold flairs with its separators
+  const envFlairs = Object.keys(proposal.mapping).filter(
+    (flair) => !/[,:]/.test(flair),
+  );
+  console.log("Proposed mapping:");
+  console.log(
+    `DISCORD_TAG_MAPPING=${envFlairs
+      .map((flair) => `${flair}:${proposal.mapping[flair]}`)
+      .join(",")}`,
+  );
+  if (envFlairs.length < Object.keys(proposal.mapping).length) {
+    console.log(
+      "   Flairs containing , or : were left out; use --write for the full mapping.",
+    );
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(
+    "❌ Tag discovery failed:",
+    error instanceof Error ? error.message : String(error),
+  );
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+#!/usr/bin/env ts-node
+/* eslint-disable no-console */
+
+/**
+ * Storage Migration Script for Tassie Reddit Bot
+ * Imports an existing posted-ids.json file into the SQLite storage backend
+ *
+ * Usage: npm run migrate:storage -- [json file] [sqlite file]
+ */
+
+import dotenv from "dotenv";
+import { importJsonStorage } from "../src/utils/storage";
+import { SqlitePostStore } from "../src/utils/sqlite-storage";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Run the migration from the JSON file to the SQLite database
+ */
+async function main(): Promise<void> {
+  const jsonFilePath = process.argv[2] || "data/posted-ids.json";
+  const sqliteFilePath =
+    process.argv[3] ||
+    (process.env.STORAGE_BACKEND === "sqlite" && process.env.STORAGE_FILE_PATH
+      ? process.env.STORAGE_FILE_PATH
+      : "data/posted-ids.db");
+
+  console.log("🗄️  Tassie Reddit Bot - Storage Migration");
+  console.log("=".repeat(50));
+  console.log(`   From: ${jsonFilePath}`);
+  console.log(`   To:   ${sqliteFilePath}`);
+  console.log();
+
+  const store = new SqlitePostStore(sqliteFilePath);
+
+  try {
+    const result = await importJsonStorage(jsonFilePath, store);
+
+    if (!result.success) {
+      console.error("❌ Migration failed:", result.error.message);
+      if (result.error.originalError) {
+        console.error(`   ${result.error.originalError.message}`);
+      }
+      process.exit(1);
+    }
+
+    console.log(
+      `✅ Imported ${result.data.imported} of ${result.data.total} post IDs`,
+    );
+    if (result.data.imported < result.data.total) {
+      console.log(
+        `   ${result.data.total - result.data.imported} were already in the database`,
+      );
+    }
+    console.log();
+    console.log("Set STORAGE_BACKEND=sqlite to use the new database.");
+  } finally {
+    await store.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(
+    "❌ Migration failed:",
+    error instanceof Error ? error.message : String(error),
+  );
+  process.exit(1);
+});
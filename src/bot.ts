@@ -4,11 +4,62 @@
  */
 
 import * as cron from "node-cron";
-import { Config, RedditPost, Result, BotError, StorageData } from "./types";
+import {
+  Config,
+  FeedConfig,
+  RedditPost,
+  Result,
+  BotError,
+  StorageData,
+  OutboxItem,
+  DiscordMessageRef,
+  PostRecord,
+  PostStore,
+  BackfillOptions,
+  BackfillProgress,
+  ListingTime,
+} from "./types";
 import { RedditService } from "./services/reddit.service";
 import { DiscordService } from "./services/discord.service";
-import { RedditStorage } from "./utils/storage";
+import { createPostStore } from "./utils/storage";
+import { PostOutbox, getOutboxFilePath } from "./utils/outbox";
+import {
+  PendingQueue,
+  getPendingQueueFilePath,
+  hasTraction,
+} from "./utils/pending-queue";
+import { DiscordRateLimiter } from "./utils/rate-limiter";
+import { createPostSnapshot, hasPostChanged } from "./utils/post-snapshot";
+import { getRemovalReason } from "./utils/post-removal";
+import { getPostContent, isSameContent } from "./utils/post-dedupe";
+import {
+  getSensitiveLabel,
+  getSensitivePostPolicy,
+} from "./utils/sensitive-posts";
+import { PostFilter } from "./utils/post-filter";
+import { getListingCursor, getNewerCursor } from "./utils/listing-cursor";
+import { findMissingTagIds, getConfiguredTagIds } from "./utils/tag-discovery";
+import {
+  DEFAULT_BACKFILL_DELAY_MS,
+  canResumeBackfill,
+  getBackfillCheckpointFilePath,
+  loadBackfillCheckpoint,
+  saveBackfillCheckpoint,
+} from "./utils/backfill";
 import { logger } from "./utils/logger";
+import { DEFAULT_FEED_NAME } from "./config/config";
+
+/**
+ * Days of posts each listing time range reaches back
+ */
+const LISTING_TIME_DAYS: Record<ListingTime, number> = {
+  hour: 1 / 24,
+  day: 1,
+  week: 7,
+  month: 31,
+  year: 366,
+  all: Infinity,
+};
 
 /**
  * Health check status interface
@@ -34,6 +85,75 @@ interface HealthStatus {
   totalSyncs: number;
   /** Total errors encountered */
   totalErrors: number;
+  /** Per-feed breakdown keyed by feed name */
+  feeds: Record<string, FeedHealth>;
+  /** Posts waiting in the outbox */
+  outbox: {
+    pending: number;
+    deadLetters: number;
+  };
+  /** Posts waiting to reach their feed's traction thresholds */
+  pending: PendingPostStatus[];
+}
+
+/**
+ * Summary of a post waiting in the pending queue
+ */
+interface PendingPostStatus {
+  /** Name of the feed the post belongs to */
+  feed: string;
+  /** Reddit post ID */
+  postId: string;
+  /** Post title */
+  title: string;
+  /** Score when last checked */
+  score: number;
+  /** Number of comments when last checked */
+  numComments: number;
+  /** Timestamp when the post was queued */
+  queuedAt: number;
+  /** Timestamp of the most recent check */
+  lastCheckedAt: number;
+}
+
+/**
+ * Current or most recent backfill
+ */
+interface BackfillStatus {
+  /** Whether a backfill is running */
+  running: boolean;
+  /** Progress of the running or most recent backfill, if any */
+  progress?: BackfillProgress;
+}
+
+/**
+ * Per-feed health and statistics
+ */
+interface FeedHealth {
+  /** Subreddit monitored by the feed */
+  subreddit: string;
+  /** Last successful sync timestamp */
+  lastSync?: number;
+  /** Last error if any */
+  lastError?: string;
+  /** Total successful syncs */
+  totalSyncs: number;
+  /** Total errors encountered */
+  totalErrors: number;
+  /** Statistics from the most recent sync */
+  lastStats?: SyncStats;
+}
+
+/**
+ * Runtime state for a single feed
+ */
+interface FeedState extends Omit<FeedHealth, "subreddit"> {
+  /** Feed configuration */
+  config: FeedConfig;
+  /** Discord service bound to the feed's destination */
+  discordService: DiscordService;
+  /** Filter rules the feed's posts must pass */
+  filter: PostFilter;
 }
 
 /**
@@ -46,12 +166,30 @@ interface SyncStats {
   postsSent: number;
   /** Number of posts that failed to send */
   postsFailed: number;
-  /** Number of posts filtered out */
+  /** Number of posts filtered out as already handled, skipped or duplicated */
   postsFiltered: number;
+  /** Number of posts rejected by the feed's filter rules */
+  postsRejected: number;
+  /** Number of posts queued until they reach the traction thresholds */
+  postsQueued: number;
+  /** Number of queued posts dropped for not reaching the thresholds in time */
+  postsExpired: number;
+  /** Number of outbox posts resent successfully */
+  postsRetried: number;
+  /** Number of posts dead-lettered after running out of attempts */
+  postsDeadLettered: number;
+  /** Number of sent messages edited because their Reddit post changed */
+  postsRefreshed: number;
+  /** Number of sent messages deleted or stubbed because their Reddit post was removed */
+  postsRemoved: number;
+  /** Number of Reddit comments posted into post threads */
+  commentsSent: number;
   /** Sync duration in milliseconds */
   duration: number;
   /** Timestamp when sync completed */
   timestamp: number;
+  /** Per-feed statistics keyed by feed name (aggregated results only) */
+  feeds?: Record<string, SyncStats>;
 }
 
 /**
@@ -61,8 +199,15 @@ interface SyncStats {
 export class RedditDiscordBot {
   private config: Config;
   private redditService: RedditService;
-  private discordService: DiscordService;
-  private storage: RedditStorage;
+  private feeds: FeedState[];
+  private storage: PostStore;
+  private outbox: PostOutbox;
+  private pendingQueue: PendingQueue;
+  private backfillCheckpointPath: string;
+  private backfillProgress?: BackfillProgress;
+  private isBackfilling: boolean = false;
+  // Storage keys of posts being sent but not stored yet, by syncs or a backfill
+  private sendingKeys: Set<string> = new Set();
   private cronJob: cron.ScheduledTask | null = null;
   private isRunning: boolean = false;
   private startTime: number = Date.now();
@@ -80,11 +225,35 @@ export class RedditDiscordBot {
   constructor(config: Config) {
     this.config = config;
     this.redditService = new RedditService(config.reddit);
-    this.discordService = new DiscordService(config.discord);
-    this.storage = new RedditStorage(config.storageFilePath);
+
+    // Every feed shares one rate limiter so Discord's global limit is respected
+    const rateLimiter = new DiscordRateLimiter();
+    this.feeds = config.feeds.map((feed) => ({
+      config: feed,
+      discordService: new DiscordService(feed.discord, rateLimiter),
+      filter: new PostFilter(feed.filters),
+      totalSyncs: 0,
+      totalErrors: 0,
+    }));
+    this.storage = createPostStore(
+      config.storageBackend,
+      config.storageFilePath,
+      config.storageRetention,
+    );
+    this.outbox = new PostOutbox(
+      getOutboxFilePath(config.storageFilePath),
+      config.outbox,
+    );
+    this.pendingQueue = new PendingQueue(
+      getPendingQueueFilePath(config.storageFilePath),
+    );
+    this.backfillCheckpointPath = getBackfillCheckpointFilePath(
+      config.storageFilePath,
+    );
 
     logger.info("RedditDiscordBot initialised", {
       subreddit: config.reddit.subreddit,
+      feeds: config.feeds.map((feed) => feed.name),
       environment: config.environment,
       cronExpression: config.schedule.cronExpression,
     });
@@ -115,8 +284,23 @@ export class RedditDiscordBot {
         );
       }
 
+      const outboxResult = await this.outbox.load();
+      if (!outboxResult.success) {
+        throw new Error(
+          `Outbox initialisation failed: ${outboxResult.error.message}`,
+        );
+      }
+
+      const pendingResult = await this.pendingQueue.load();
+      if (!pendingResult.success) {
+        throw new Error(
+          `Pending queue initialisation failed: ${pendingResult.error.message}`,
+        );
+      }
+
       // Test service connections
       await this.testConnections();
+      this.checkListingRetention();
 
       // Perform initial sync
       logger.info("Performing initial sync");
@@ -171,6 +355,16 @@ export class RedditDiscordBot {
     }
   }
 
+  /**
+   * Release the storage lock of a bot that was used without being started,
+   * e.g. by the backfill script; stop() does this for a running bot
+   *
+   * @returns Promise resolving once the storage is closed
+   */
+  async close(): Promise<void> {
+    await this.storage.close();
+  }
+
   /**
    * Stop the bot and clean up resources
    *
@@ -194,6 +388,7 @@ export class RedditDiscordBot {
 
       // Update storage with final timestamp
       await this.storage.updateLastCheck();
+      await this.storage.close();
 
       this.isRunning = false;
       this.isShuttingDown = false;
@@ -226,32 +421,401 @@ export class RedditDiscordBot {
   }
 
   /**
-   * Perform a manual sync operation
+   * Perform a manual sync operation across all feeds
    * Can be called independently of the scheduled sync
+   * A failing feed does not stop the remaining feeds from syncing
    *
-   * @returns Promise resolving to sync statistics
+   * @returns Promise resolving to aggregated sync statistics
    */
   async performSync(): Promise<Result<SyncStats>> {
     const startTime = Date.now();
+    const feedStats: Record<string, SyncStats> = {};
     const stats: SyncStats = {
-      postsFound: 0,
-      postsSent: 0,
-      postsFailed: 0,
-      postsFiltered: 0,
-      duration: 0,
-      timestamp: startTime,
+      ...this.createEmptyStats(startTime),
+      feeds: feedStats,
     };
 
+    if (this.isShuttingDown) {
+      logger.info("Skipping sync - bot is shutting down");
+      return { success: true, data: stats };
+    }
+
+    logger.info("Starting sync operation", {
+      feeds: this.feeds.map((feed) => feed.config.name),
+    });
+
+    const failures: BotError[] = [];
+
+    for (const feed of this.feeds) {
+      const feedResult = await this.syncFeed(feed);
+      const result = feedResult.success
+        ? feedResult.data
+        : (feedResult.error.context?.stats as SyncStats);
+
+      feedStats[feed.config.name] = result;
+      stats.postsFound += result.postsFound;
+      stats.postsSent += result.postsSent;
+      stats.postsFailed += result.postsFailed;
+      stats.postsFiltered += result.postsFiltered;
+      stats.postsRejected += result.postsRejected;
+      stats.postsQueued += result.postsQueued;
+      stats.postsExpired += result.postsExpired;
+      stats.postsRetried += result.postsRetried;
+      stats.postsDeadLettered += result.postsDeadLettered;
+      stats.postsRefreshed += result.postsRefreshed;
+      stats.postsRemoved += result.postsRemoved;
+      stats.commentsSent += result.commentsSent;
+
+      if (!feedResult.success) {
+        failures.push(feedResult.error);
+      }
+    }
+
+    stats.duration = Date.now() - startTime;
+
+    if (failures.length > 0 && failures.length === this.feeds.length) {
+      const botError: BotError = {
+        message: "Sync operation failed",
+        code: "SYNC_ERROR",
+        originalError: failures[0].originalError,
+        context: {
+          stats,
+          feeds: failures.map((failure) => failure.context?.feed),
+        },
+      };
+
+      logger.error("Sync operation failed", {
+        error: botError.message,
+        originalError: botError.originalError?.message,
+        stats,
+      });
+
+      return { success: false, error: botError };
+    }
+
+    // Update last check timestamp
+    await this.storage.updateLastCheck();
+
+    this.totalSyncs++;
+    this.lastSync = Date.now();
+
+    if (stats.postsFailed > 0 || failures.length > 0) {
+      logger.warn("Sync completed with some failures", {
+        ...stats,
+        failedFeeds: failures.map((failure) => failure.context?.feed),
+      });
+    } else {
+      logger.info("Sync completed successfully", stats);
+    }
+
+    return { success: true, data: stats };
+  }
+
+  /**
+   * Forward a feed's posts from a past time range, oldest first
+   * Posts go through the feed's usual filters and dedupe; traction thresholds
+   * are checked straight away as the posts have had time to gain traction.
+   * Progress is checkpointed after every post, so running the same backfill
+   * again after an interruption resumes where it stopped.
+   *
+   * @param options - Feed, time range and delay between Discord messages
+   * @returns Promise resolving to the backfill's final progress
+   */
+  async backfill(options: BackfillOptions): Promise<Result<BackfillProgress>> {
+    const feed = this.feeds.find((state) => state.config.name === options.feed);
+    if (!feed) {
+      return {
+        success: false,
+        error: {
+          message: `Unknown feed: ${options.feed}`,
+          code: "BACKFILL_UNKNOWN_FEED",
+          context: { feed: options.feed },
+        },
+      };
+    }
+
+    if (this.isBackfilling) {
+      return {
+        success: false,
+        error: {
+          message: "A backfill is already running",
+          code: "BACKFILL_IN_PROGRESS",
+          context: { progress: this.backfillProgress },
+        },
+      };
+    }
+
+    this.isBackfilling = true;
     try {
+      return await this.runBackfill(feed, options);
+    } catch (error) {
+      this.totalErrors++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+
+      const botError: BotError = {
+        message: `Backfill failed for feed ${options.feed}`,
+        code: "BACKFILL_ERROR",
+        originalError:
+          error instanceof Error ? error : new Error(String(error)),
+        context: { progress: this.backfillProgress },
+      };
+
+      logger.error("Backfill failed", {
+        feed: options.feed,
+        error: botError.message,
+        originalError: botError.originalError?.message,
+      });
+
+      return { success: false, error: botError };
+    } finally {
+      this.isBackfilling = false;
+    }
+  }
+
+  /**
+   * Resume the most recent backfill if it didn't finish
+   *
+   * @param delayMs - Delay between Discord messages in milliseconds
+   * @returns Promise resolving to the backfill's final progress
+   */
+  async resumeBackfill(
+    delayMs: number = DEFAULT_BACKFILL_DELAY_MS,
+  ): Promise<Result<BackfillProgress>> {
+    const checkpointResult = await loadBackfillCheckpoint(
+      this.backfillCheckpointPath,
+    );
+    if (!checkpointResult.success) {
+      return { success: false, error: checkpointResult.error };
+    }
+
+    const checkpoint = checkpointResult.data;
+    if (!checkpoint || checkpoint.completedAt !== undefined) {
+      return {
+        success: false,
+        error: {
+          message: "There is no unfinished backfill to resume",
+          code: "BACKFILL_NOTHING_TO_RESUME",
+        },
+      };
+    }
+
+    const { feed, from, to } = checkpoint;
+    return await this.backfill({ feed, from, to, delayMs });
+  }
+
+  /**
+   * Get the running or most recent backfill
+   *
+   * @returns Promise resolving to the backfill status
+   */
+  async getBackfillStatus(): Promise<BackfillStatus> {
+    if (this.backfillProgress) {
+      return { running: this.isBackfilling, progress: this.backfillProgress };
+    }
+
+    const checkpointResult = await loadBackfillCheckpoint(
+      this.backfillCheckpointPath,
+    );
+    return {
+      running: this.isBackfilling,
+      progress: checkpointResult.success ? checkpointResult.data : undefined,
+    };
+  }
+
+  /**
+   * Fetch a backfill's posts and send them one at a time
+   *
+   * @param feed - Feed state to backfill
+   * @param options - Feed, time range and delay between Discord messages
+   * @returns Promise resolving to the backfill's final progress
+   * @private
+   */
+  private async runBackfill(
+    feed: FeedState,
+    options: BackfillOptions,
+  ): Promise<Result<BackfillProgress>> {
+    const { name, subreddit, traction } = feed.config;
+    const { from, to } = options;
+
+    const checkpointResult = await loadBackfillCheckpoint(
+      this.backfillCheckpointPath,
+    );
+    if (!checkpointResult.success) {
+      return { success: false, error: checkpointResult.error };
+    }
+
+    const fetchResult = await this.redditService.fetchPostsInRange(
+      subreddit,
+      from,
+      to,
+    );
+    if (!fetchResult.success) {
+      return { success: false, error: fetchResult.error };
+    }
+
+    const checkpoint = checkpointResult.data;
+    const resuming = canResumeBackfill(checkpoint, options);
+    const now = Date.now();
+    const progress: BackfillProgress = resuming
+      ? { ...checkpoint, updatedAt: now }
+      : {
+          feed: name,
+          from,
+          to,
+          found: fetchResult.data.length,
+          sent: 0,
+          failed: 0,
+          skipped: 0,
+          startedAt: now,
+          updatedAt: now,
+        };
+    this.backfillProgress = progress;
+
+    const { processedThrough } = progress;
+    const posts = fetchResult.data
+      .filter(
+        (post) =>
+          // Timestamps are in whole seconds, so posts from the last handled
+          // second are checked again; ones already sent are in storage
+          processedThrough === undefined ||
+          post.created_utc >= processedThrough,
+      )
+      .sort((a, b) => a.created_utc - b.created_utc);
+
+    logger.info(resuming ? "Resuming backfill" : "Starting backfill", {
+      feed: name,
+      subreddit,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      remaining: posts.length,
+    });
+
+    const stats = this.createEmptyStats(now);
+    const newPosts = new Set(await this.selectNewPosts(feed, posts, stats));
+
+    for (const post of posts) {
       if (this.isShuttingDown) {
-        logger.info("Skipping sync - bot is shutting down");
-        return { success: true, data: stats };
+        logger.warn("Stopping backfill - bot is shutting down", progress);
+        return { success: true, data: progress };
+      }
+
+      // Syncs run alongside the backfill, so posts are claimed in case a
+      // sync forwarded or is sending one since the backfill picked its posts
+      const key =
+        newPosts.has(post) && (!traction || hasTraction(post, traction))
+          ? await this.claimPost(feed, post)
+          : undefined;
+      const shouldSend = key !== undefined;
+      if (key !== undefined) {
+        try {
+          const record = await this.sendPost(feed, post, stats);
+          if (record) {
+            progress.sent++;
+            const addResult = await this.storage.addPostRecords([record]);
+            if (!addResult.success) {
+              logger.error("Failed to save posted ID to storage", {
+                feed: name,
+                postId: post.id,
+                error: addResult.error.message,
+              });
+            }
+          } else {
+            progress.failed++;
+          }
+        } finally {
+          this.sendingKeys.delete(key);
+        }
+      } else {
+        progress.skipped++;
+      }
+
+      progress.processedThrough = post.created_utc;
+      progress.updatedAt = Date.now();
+      await this.saveBackfillProgress(progress);
+
+      if (shouldSend) {
+        logger.info("Backfill progress", {
+          feed: name,
+          postId: post.id,
+          processed: progress.sent + progress.failed + progress.skipped,
+          found: progress.found,
+          sent: progress.sent,
+          failed: progress.failed,
+          skipped: progress.skipped,
+        });
+
+        if (options.delayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+        }
       }
+    }
 
-      logger.info("Starting sync operation");
+    progress.completedAt = Date.now();
+    progress.updatedAt = progress.completedAt;
+    await this.saveBackfillProgress(progress);
 
-      // Fetch posts from Reddit
-      const fetchResult = await this.redditService.fetchNewPosts();
+    logger.info("Backfill completed", {
+      ...progress,
+      duration: progress.completedAt - progress.startedAt,
+    });
+
+    return { success: true, data: progress };
+  }
+
+  /**
+   * Save a backfill's progress as its checkpoint
+   * Failures are logged and don't stop the backfill
+   *
+   * @param progress - Backfill progress to save
+   * @private
+   */
+  private async saveBackfillProgress(
+    progress: BackfillProgress,
+  ): Promise<void> {
+    const saveResult = await saveBackfillCheckpoint(
+      this.backfillCheckpointPath,
+      progress,
+    );
+    if (!saveResult.success) {
+      logger.error("Failed to save backfill checkpoint", {
+        feed: progress.feed,
+        error: saveResult.error.message,
+      });
+    }
+  }
+
+  /**
+   * Sync a single feed: resend due outbox posts, then fetch its subreddit
+   * and forward unseen posts to the feed's Discord destination
+   *
+   * @param feed - Feed state to sync
+   * @returns Promise resolving to the feed's sync statistics
+   * @private
+   */
+  private async syncFeed(feed: FeedState): Promise<Result<SyncStats>> {
+    const startTime = Date.now();
+    const stats = this.createEmptyStats(startTime);
+    const { name, subreddit } = feed.config;
+
+    try {
+      logger.info("Syncing feed", { feed: name, subreddit });
+
+      // Retry posts that failed on earlier syncs first
+      await this.drainOutbox(feed, stats);
+
+      // Fetch posts from the feed's Reddit listing; the new listing pages
+      // back to the newest post seen on the last sync
+      const { listing } = feed.config;
+      const usesCursor = !listing || listing.sort === "new";
+      const cursor = usesCursor
+        ? await this.storage.getCursor(name)
+        : undefined;
+      const fetchResult = await this.redditService.fetchNewPosts(
+        undefined,
+        subreddit,
+        listing,
+        cursor,
+      );
       if (!fetchResult.success) {
         // Check if this is an OAuth error
         if (
@@ -260,10 +824,12 @@ export class RedditDiscordBot {
           fetchResult.error.code === "OAUTH_TOKEN_ERROR"
         ) {
           logger.warn("Skipping sync - OAuth2 not set up yet", {
+            feed: name,
             error: fetchResult.error.message,
             code: fetchResult.error.code,
           });
           stats.duration = Date.now() - startTime;
+          feed.lastStats = stats;
           return { success: true, data: stats }; // Return success but with warning
         }
 
@@ -274,123 +840,116 @@ export class RedditDiscordBot {
       const allPosts = fetchResult.data;
       stats.postsFound = allPosts.length;
 
-      if (allPosts.length === 0) {
-        logger.info("No new posts found");
-        stats.duration = Date.now() - startTime;
-        this.totalSyncs++;
-        this.lastSync = Date.now();
-        await this.storage.updateLastCheck();
-        return { success: true, data: stats };
-      }
-
-      // Filter out already posted content
-      const newPosts: RedditPost[] = [];
-      for (const post of allPosts) {
-        const alreadyPosted = await this.storage.hasPostId(post.id);
-        if (!alreadyPosted) {
-          newPosts.push(post);
-        }
-      }
+      const newPosts = await this.selectNewPosts(feed, allPosts, stats);
 
-      stats.postsFiltered = allPosts.length - newPosts.length;
+      // Hold back posts that haven't gained traction yet, and release
+      // queued posts that have
+      const postsToSend = await this.applyTraction(feed, newPosts, stats);
 
-      if (newPosts.length === 0) {
-        logger.info("No new posts to send (all already posted)", {
+      // Send oldest first so a burst of posts reads top to bottom in
+      // Discord, unless configured to keep newest first
+      const direction = this.config.postOrder === "newest" ? -1 : 1;
+      postsToSend.sort((a, b) => direction * (a.created_utc - b.created_utc));
+
+      if (postsToSend.length === 0) {
+        logger.info("No new posts to send", {
+          feed: name,
           totalPosts: allPosts.length,
           filteredOut: stats.postsFiltered,
+          rejected: stats.postsRejected,
+          queued: stats.postsQueued,
+        });
+      } else {
+        logger.info("Sending new posts to Discord", {
+          feed: name,
+          newPosts: postsToSend.length,
+          filteredOut: stats.postsFiltered,
+          rejected: stats.postsRejected,
+          queued: stats.postsQueued,
         });
-        stats.duration = Date.now() - startTime;
-        this.totalSyncs++;
-        this.lastSync = Date.now();
-        await this.storage.updateLastCheck();
-        return { success: true, data: stats };
       }
 
-      logger.info("Sending new posts to Discord", {
-        newPosts: newPosts.length,
-        filteredOut: stats.postsFiltered,
-      });
-
-      // Send posts to Discord and track results
-      const postIds: string[] = [];
-      for (const post of newPosts) {
-        try {
-          const sendResult = await this.discordService.sendRedditPost(post);
+      // Send posts to Discord and track results. A backfill may be running,
+      // so each post is claimed first and stays claimed until it is stored
+      const sentRecords: PostRecord[] = [];
+      const claimedKeys: string[] = [];
+      try {
+        for (const post of postsToSend) {
+          const key = await this.claimPost(feed, post);
+          if (key === undefined) {
+            stats.postsFiltered++;
+            continue;
+          }
+          claimedKeys.push(key);
 
-          if (sendResult.success) {
-            stats.postsSent++;
-            postIds.push(post.id);
+          const record = await this.sendPost(feed, post, stats);
+          if (record) {
+            sentRecords.push(record);
+          }
 
-            logger.debug("Successfully sent post to Discord", {
-              postId: post.id,
-              title: post.title,
-              author: post.author,
-            });
-          } else {
-            stats.postsFailed++;
-            logger.error("Failed to send post to Discord", {
-              postId: post.id,
-              title: post.title,
-              error: sendResult.error.message,
-            });
+          // Add delay between posts to be respectful to Discord
+          if (postsToSend.length > 1) {
+            await new Promise((resolve) => setTimeout(resolve, 1000));
           }
-        } catch (error) {
-          stats.postsFailed++;
-          logger.error("Unexpected error sending post to Discord", {
-            postId: post.id,
-            title: post.title,
-            error: error instanceof Error ? error.message : String(error),
-          });
         }
 
-        // Add delay between posts to be respectful to Discord
-        if (newPosts.length > 1) {
-          await new Promise((resolve) => setTimeout(resolve, 1000));
+        // Store successfully sent posts
+        if (sentRecords.length > 0) {
+          const addResult = await this.storage.addPostRecords(sentRecords);
+          if (!addResult.success) {
+            logger.error("Failed to save posted IDs to storage", {
+              feed: name,
+              error: addResult.error.message,
+              postIds: sentRecords.length,
+            });
+          }
         }
+      } finally {
+        claimedKeys.forEach((key) => this.sendingKeys.delete(key));
       }
 
-      // Store successfully sent post IDs
-      if (postIds.length > 0) {
-        const addResult = await this.storage.addPostIds(postIds);
-        if (!addResult.success) {
-          logger.error("Failed to save posted IDs to storage", {
-            error: addResult.error.message,
-            postIds: postIds.length,
-          });
+      if (usesCursor) {
+        const newCursor = getNewerCursor(cursor, getListingCursor(allPosts));
+        if (newCursor && newCursor !== cursor) {
+          await this.storage.updateCursor(name, newCursor);
         }
       }
 
-      // Update last check timestamp
-      await this.storage.updateLastCheck();
+      // Bring earlier messages up to date with their Reddit posts and
+      // handle posts that have since been removed
+      await this.refreshFeed(feed, stats);
 
-      stats.duration = Date.now() - startTime;
-      this.totalSyncs++;
-      this.lastSync = Date.now();
+      // Post the top comments of sent posts into their threads
+      await this.forwardComments(feed, stats);
 
-      if (stats.postsFailed > 0) {
-        logger.warn("Sync completed with some failures", stats);
-      } else {
-        logger.info("Sync completed successfully", stats);
-      }
+      stats.duration = Date.now() - startTime;
+      feed.totalSyncs++;
+      feed.lastSync = Date.now();
+      feed.lastStats = stats;
 
       return { success: true, data: stats };
     } catch (error) {
       this.totalErrors++;
       this.lastError = error instanceof Error ? error.message : String(error);
+      feed.totalErrors++;
+      feed.lastError = this.lastError;
       stats.duration = Date.now() - startTime;
+      feed.lastStats = stats;
 
       const botError: BotError = {
-        message: "Sync operation failed",
-        code: "SYNC_ERROR",
+        message: `Sync failed for feed ${name}`,
+        code: "FEED_SYNC_ERROR",
         originalError:
           error instanceof Error ? error : new Error(String(error)),
         context: {
           stats,
-          subreddit: this.config.reddit.subreddit,
+          feed: name,
+          subreddit,
         },
       };
 
-      logger.error("Sync operation failed", {
+      logger.error("Feed sync failed", {
+        feed: name,
         error: botError.message,
         originalError: botError.originalError?.message,
         stats,
@@ -401,54 +960,1018 @@ export class RedditDiscordBot {
   }
 
   /**
-   * Get current health status of the bot
+   * Check if a post was already sent, is being sent, or is waiting in the
+   * outbox or pending queue
    *
-   * @returns Current health status
+   * @param feed - Feed state the post belongs to
+   * @param post - Reddit post to check
+   * @returns True if the post must not be sent again
+   * @private
    */
-  async getHealthStatus(): Promise<HealthStatus> {
-    const storage = await this.storage.getStats();
+  private async isPostHandled(
+    feed: FeedState,
+    post: RedditPost,
+  ): Promise<boolean> {
+    const key = this.getStorageKey(feed.config, post.id);
+    return (
+      this.sendingKeys.has(key) ||
+      (await this.storage.hasPostId(key)) ||
+      (await this.outbox.has(key)) ||
+      (await this.pendingQueue.has(key))
+    );
+  }
 
-    // Determine overall status
-    let status: HealthStatus["status"] = "healthy";
+  /**
+   * Claim a post for sending unless it was handled or is being sent already
+   * The caller releases the claim once the sent post is stored, so a sync and
+   * a backfill running side by side never both send it
+   *
+   * @param feed - Feed state the post belongs to
+   * @param post - Reddit post to claim
+   * @returns Storage key of the claimed post, or undefined if it must not be sent
+   * @private
+   */
+  private async claimPost(
+    feed: FeedState,
+    post: RedditPost,
+  ): Promise<string | undefined> {
+    if (await this.isPostHandled(feed, post)) {
+      return undefined;
+    }
 
-    if (
-      this.totalErrors > 0 &&
-      this.lastSync &&
-      Date.now() - this.lastSync > 3600000
-    ) {
-      // Errors and no successful sync in the last hour
-      status = "unhealthy";
-    } else if (this.totalErrors > 0) {
-      // Some errors but recent successful sync
-      status = "degraded";
+    // Checked again without awaiting, as another sender may have claimed the
+    // post while storage was read
+    const key = this.getStorageKey(feed.config, post.id);
+    if (this.sendingKeys.has(key)) {
+      return undefined;
     }
 
-    return {
-      status,
-      lastSync: this.lastSync,
-      lastError: this.lastError,
-      storage,
-      services: {
-        reddit: "unknown", // Could test connection here
-        discord: "unknown", // Could test connection here
-        storage: storage ? "loaded" : "error",
-      },
-      uptime: Date.now() - this.startTime,
-      totalSyncs: this.totalSyncs,
-      totalErrors: this.totalErrors,
-    };
+    this.sendingKeys.add(key);
+    return key;
   }
 
   /**
-   * Test connections to all external services
+   * Pick the posts a feed hasn't handled yet
+   * Leaves out already posted content, posts waiting in the outbox or the
+   * pending queue, posts too old for storage to remember having sent, NSFW
+   * and spoiler posts the destination skips, posts the feed's filter rules
+   * reject, and (when enabled) crossposts and links that were already
+   * forwarded. Duplicates are stored so they are never sent later.
    *
-   * @returns Promise resolving when all tests complete
+   * @param feed - Feed state to pick posts for
+   * @param allPosts - Posts fetched from Reddit
+   * @param stats - Sync statistics to update
+   * @returns Posts to forward, in the order given
    * @private
    */
-  private async testConnections(): Promise<void> {
-    logger.info("Testing service connections");
+  private async selectNewPosts(
+    feed: FeedState,
+    allPosts: RedditPost[],
+    stats: SyncStats,
+  ): Promise<RedditPost[]> {
+    const { name } = feed.config;
+    const retentionCutoff = this.getRetentionCutoff();
+    const newPosts: RedditPost[] = [];
+    const duplicateRecords: PostRecord[] = [];
+    for (const post of allPosts) {
+      if (post.created_utc * 1000 < retentionCutoff) {
+        continue;
+      }
 
-    // Test Reddit connection
+      if (await this.isPostHandled(feed, post)) {
+        continue;
+      }
+
+      if (getSensitivePostPolicy(post, feed.config.discord) === "skip") {
+        logger.info("Skipping post the destination doesn't accept", {
+          feed: name,
+          postId: post.id,
+          reason: getSensitiveLabel(post),
+        });
+        continue;
+      }
+
+      // Rejected posts aren't stored, so they pass once they meet the rules
+      const rejection = feed.filter.evaluate(post);
+      if (rejection) {
+        logger.info("Post rejected by filter", {
+          feed: name,
+          postId: post.id,
+          rule: rejection.rule,
+          detail: rejection.detail,
+        });
+        stats.postsRejected++;
+        continue;
+      }
+
+      const duplicateOf = this.config.dedupe.enabled
+        ? await this.findDuplicate(feed, post, newPosts)
+        : undefined;
+      if (duplicateOf) {
+        logger.info("Skipping post already forwarded as another post", {
+          feed: name,
+          postId: post.id,
+          duplicateOf,
+        });
+        // Remember the duplicate so it is never sent once the window passes
+        duplicateRecords.push({
+          postId: this.getStorageKey(feed.config, post.id),
+          subreddit: post.subreddit,
+          sentAt: Date.now(),
+          destination: name,
+          ...getPostContent(post),
+        });
+        continue;
+      }
+
+      newPosts.push(post);
+    }
+
+    stats.postsFiltered =
+      allPosts.length - newPosts.length - stats.postsRejected;
+
+    if (duplicateRecords.length > 0) {
+      const addResult = await this.storage.addPostRecords(duplicateRecords);
+      if (!addResult.success) {
+        logger.error("Failed to save duplicate post IDs to storage", {
+          feed: name,
+          error: addResult.error.message,
+          postIds: duplicateRecords.length,
+        });
+      }
+    }
+
+    return newPosts;
+  }
+
+  /**
+   * Send a post to a feed's Discord destination
+   * Posts that fail to send are recorded in the outbox for a later retry
+   *
+   * @param feed - Feed state to send the post for
+   * @param post - Reddit post to send
+   * @param stats - Sync statistics to update
+   * @returns Promise resolving to the record to store, if the post was sent
+   * @private
+   */
+  private async sendPost(
+    feed: FeedState,
+    post: RedditPost,
+    stats: SyncStats,
+  ): Promise<PostRecord | undefined> {
+    const { name } = feed.config;
+
+    try {
+      const sendResult = await feed.discordService.sendRedditPost(post);
+
+      if (sendResult.success) {
+        stats.postsSent++;
+
+        logger.debug("Successfully sent post to Discord", {
+          feed: name,
+          postId: post.id,
+          title: post.title,
+          author: post.author,
+        });
+
+        return {
+          postId: this.getStorageKey(feed.config, post.id),
+          subreddit: post.subreddit,
+          sentAt: Date.now(),
+          messageId: sendResult.data.messageId,
+          threadId: sendResult.data.threadId,
+          destination: name,
+          snapshot: createPostSnapshot(post),
+          ...getPostContent(post),
+        };
+      }
+
+      stats.postsFailed++;
+      logger.error("Failed to send post to Discord", {
+        feed: name,
+        postId: post.id,
+        title: post.title,
+        error: sendResult.error.message,
+      });
+      await this.recordOutboxFailure(
+        feed,
+        post,
+        sendResult.error.message,
+        stats,
+      );
+    } catch (error) {
+      stats.postsFailed++;
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error("Unexpected error sending post to Discord", {
+        feed: name,
+        postId: post.id,
+        title: post.title,
+        error: message,
+      });
+      await this.recordOutboxFailure(feed, post, message, stats);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Hold back posts that haven't reached the feed's traction thresholds
+   * Queued posts are re-checked against Reddit first: those that reached the
+   * thresholds are released, removed posts are dropped, and posts older than
+   * the maximum age expire. New posts below the thresholds join the queue.
+   * Dropped and expired posts are stored so they are never queued again.
+   *
+   * @param feed - Feed state to check posts for
+   * @param newPosts - Unseen posts from this sync
+   * @param stats - Sync statistics to update
+   * @returns Posts to send now, previously queued posts first
+   * @private
+   */
+  private async applyTraction(
+    feed: FeedState,
+    newPosts: RedditPost[],
+    stats: SyncStats,
+  ): Promise<RedditPost[]> {
+    const { name, traction } = feed.config;
+    const queued = await this.pendingQueue.getFeedItems(name);
+
+    if (!traction && queued.length === 0) {
+      return newPosts;
+    }
+
+    const now = Date.now();
+    const candidates: { key: string; post: RedditPost }[] = [];
+    const droppedRecords: PostRecord[] = [];
+    const createRecord = (key: string, post: RedditPost): PostRecord => ({
+      postId: key,
+      subreddit: post.subreddit,
+      sentAt: now,
+      destination: name,
+      ...getPostContent(post),
+    });
+
+    if (queued.length > 0) {
+      const fetchResult = await this.redditService.fetchPostsByIds(
+        queued.map((item) => item.post.id),
+      );
+
+      if (fetchResult.success) {
+        const currentPosts = new Map(
+          fetchResult.data.map((post) => [post.id, post]),
+        );
+        for (const item of queued) {
+          // Posts Reddit didn't return are judged on their last known state
+          const post = currentPosts.get(item.post.id) ?? item.post;
+          const removalReason = getRemovalReason(post);
+          if (removalReason) {
+            logger.info("Dropping queued post removed from Reddit", {
+              feed: name,
+              postId: post.id,
+              reason: removalReason,
+            });
+            droppedRecords.push(createRecord(item.key, post));
+          } else {
+            candidates.push({ key: item.key, post });
+          }
+        }
+      } else {
+        logger.warn("Skipping traction check - could not fetch queued posts", {
+          feed: name,
+          error: fetchResult.error.message,
+        });
+      }
+    }
+
+    const queuedKeys = new Set(queued.map((item) => item.key));
+    const checkedKeys = new Set([
+      ...candidates.map((candidate) => candidate.key),
+      ...droppedRecords.map((record) => record.postId),
+    ]);
+    for (const post of newPosts) {
+      candidates.push({ key: this.getStorageKey(feed.config, post.id), post });
+    }
+
+    const ready: RedditPost[] = [];
+    const held: { key: string; post: RedditPost }[] = [];
+    for (const candidate of candidates) {
+      const { key, post } = candidate;
+      if (!traction || hasTraction(post, traction)) {
+        ready.push(post);
+      } else if (now - post.created_utc * 1000 > traction.maxAge) {
+        stats.postsExpired++;
+        logger.info("Dropping post that didn't gain traction in time", {
+          feed: name,
+          postId: post.id,
+          score: post.ups,
+          comments: post.num_comments,
+        });
+        droppedRecords.push(createRecord(key, post));
+      } else {
+        if (!queuedKeys.has(key)) {
+          stats.postsQueued++;
+        }
+        held.push(candidate);
+      }
+    }
+
+    if (held.length > 0) {
+      const upsertResult = await this.pendingQueue.upsert(name, held);
+      if (!upsertResult.success) {
+        logger.error("Failed to save posts to the pending queue", {
+          feed: name,
+          error: upsertResult.error.message,
+          postIds: held.length,
+        });
+      }
+    }
+
+    const heldKeys = new Set(held.map((candidate) => candidate.key));
+    const releasedKeys = [...checkedKeys].filter((key) => !heldKeys.has(key));
+    if (releasedKeys.length > 0) {
+      await this.pendingQueue.remove(releasedKeys);
+    }
+
+    if (droppedRecords.length > 0) {
+      const addResult = await this.storage.addPostRecords(droppedRecords);
+      if (!addResult.success) {
+        logger.error("Failed to save dropped post IDs to storage", {
+          feed: name,
+          error: addResult.error.message,
+          postIds: droppedRecords.length,
+        });
+      }
+    }
+
+    return ready;
+  }
+
+  /**
+   * Resend a feed's outbox posts whose next attempt is due
+   * Sent posts are recorded in storage; failures are rescheduled or dead-lettered
+   *
+   * @param feed - Feed state to drain the outbox for
+   * @param stats - Sync statistics to update
+   * @private
+   */
+  private async drainOutbox(feed: FeedState, stats: SyncStats): Promise<void> {
+    const { name } = feed.config;
+    const dueItems = await this.outbox.getDueItems(name);
+
+    if (dueItems.length === 0) {
+      return;
+    }
+
+    logger.info("Retrying posts from the outbox", {
+      feed: name,
+      duePosts: dueItems.length,
+    });
+
+    for (const item of dueItems) {
+      let error: string | undefined;
+      let message: DiscordMessageRef = {};
+      try {
+        const sendResult = await feed.discordService.sendRedditPost(item.post);
+        if (sendResult.success) {
+          message = sendResult.data;
+        } else {
+          error = sendResult.error.message;
+        }
+      } catch (sendError) {
+        error =
+          sendError instanceof Error ? sendError.message : String(sendError);
+      }
+
+      if (error === undefined) {
+        stats.postsSent++;
+        stats.postsRetried++;
+
+        const addResult = await this.storage.addPostId(item.key, {
+          subreddit: item.post.subreddit,
+          messageId: message.messageId,
+          threadId: message.threadId,
+          destination: name,
+          snapshot: createPostSnapshot(item.post),
+          ...getPostContent(item.post),
+        });
+        if (!addResult.success) {
+          logger.error("Failed to save retried post ID to storage", {
+            feed: name,
+            postId: item.post.id,
+            error: addResult.error.message,
+          });
+        }
+        await this.outbox.remove(item.key);
+
+        logger.info("Resent post from the outbox", {
+          feed: name,
+          postId: item.post.id,
+          attempts: item.attempts + 1,
+        });
+      } else {
+        stats.postsFailed++;
+        await this.recordOutboxFailure(feed, item.post, error, stats);
+      }
+
+      // Add delay between posts to be respectful to Discord
+      if (dueItems.length > 1) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
+  /**
+   * Find an earlier post with the same content as a post
+   * Only posts sent to the same Discord webhook within the dedupe window
+   * count, along with posts about to be sent in this sync
+   *
+   * @param feed - Feed the post was fetched for
+   * @param post - Reddit post to check
+   * @param pending - Posts already accepted for sending in this sync
+   * @returns Storage key or Reddit post ID of the earlier post, if any
+   * @private
+   */
+  private async findDuplicate(
+    feed: FeedState,
+    post: RedditPost,
+    pending: RedditPost[],
+  ): Promise<string | undefined> {
+    const content = getPostContent(post);
+
+    const pendingDuplicate = pending.find((other) =>
+      isSameContent(getPostContent(other), content),
+    );
+    if (pendingDuplicate) {
+      return pendingDuplicate.id;
+    }
+
+    const { webhookUrl } = feed.config.discord;
+    const destinations = new Set(
+      this.feeds
+        .filter((other) => other.config.discord.webhookUrl === webhookUrl)
+        .map((other) => other.config.name),
+    );
+    const records = await this.storage.findPostRecordsByContent(
+      Date.now() - this.config.dedupe.window,
+      content,
+    );
+
+    return records.find(
+      (record) => record.destination && destinations.has(record.destination),
+    )?.postId;
+  }
+
+  /**
+   * Re-check recently sent posts against Reddit
+   * Removed posts are handled as configured by the removed post action.
+   * Other changes are edited in: title and flair edits are always applied;
+   * score and comment counts only when they have moved significantly.
+   * Failures are logged and never fail the sync.
+   *
+   * @param feed - Feed state to refresh messages for
+   * @param stats - Sync statistics to update
+   * @private
+   */
+  private async refreshFeed(feed: FeedState, stats: SyncStats): Promise<void> {
+    const { refresh } = this.config;
+    if (!refresh.enabled && refresh.removedPostAction === "none") {
+      return;
+    }
+
+    const { name } = feed.config;
+
+    try {
+      const records = (
+        await this.storage.getRecentPostRecords(Date.now() - refresh.maxAge)
+      ).filter(
+        (record) =>
+          record.destination === name && record.snapshot && !record.removedAt,
+      );
+
+      if (records.length === 0) {
+        return;
+      }
+
+      const recordsByPostId = new Map(
+        records.map((record) => [this.getRedditPostId(record.postId), record]),
+      );
+      const fetchResult = await this.redditService.fetchPostsByIds([
+        ...recordsByPostId.keys(),
+      ]);
+      if (!fetchResult.success) {
+        logger.warn("Skipping message refresh - could not fetch posts", {
+          feed: name,
+          error: fetchResult.error.message,
+        });
+        return;
+      }
+
+      for (const post of fetchResult.data) {
+        const record = recordsByPostId.get(post.id);
+        if (!record?.snapshot) {
+          continue;
+        }
+
+        const removalReason = getRemovalReason(post);
+        if (removalReason) {
+          if (refresh.removedPostAction !== "none") {
+            await this.handleRemovedPost(
+              feed,
+              record,
+              post,
+              removalReason,
+              stats,
+            );
+          }
+          continue;
+        }
+
+        if (!refresh.enabled) {
+          continue;
+        }
+
+        const snapshot = createPostSnapshot(post);
+        if (!hasPostChanged(record.snapshot, snapshot, refresh)) {
+          continue;
+        }
+
+        const editResult = await feed.discordService.editRedditPost(
+          { messageId: record.messageId, threadId: record.threadId },
+          post,
+        );
+
+        if (editResult.success) {
+          stats.postsRefreshed++;
+          await this.storage.updatePostRecord(record.postId, { snapshot });
+        } else if (editResult.error.context?.status === 404) {
+          await this.forgetDeletedMessage(feed, record, post);
+        } else {
+          logger.warn("Failed to refresh Discord message", {
+            feed: name,
+            postId: post.id,
+            messageId: record.messageId,
+            error: editResult.error.message,
+          });
+        }
+      }
+    } catch (error) {
+      logger.warn("Message refresh failed", {
+        feed: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Post the top comments of recently sent posts into their forum threads
+   * Each post is first checked once the feed's comment delay has passed and
+   * again one delay after each check. The top comments are posted whatever
+   * their score until the comment count is reached; after that, only new
+   * comments that reached the minimum score are appended.
+   * Failures are logged and never fail the sync.
+   *
+   * @param feed - Feed state to forward comments for
+   * @param stats - Sync statistics to update
+   * @private
+   */
+  private async forwardComments(
+    feed: FeedState,
+    stats: SyncStats,
+  ): Promise<void> {
+    const { name, comments, discord } = feed.config;
+    if (!comments || !discord.enableThreading || !discord.isForumChannel) {
+      return;
+    }
+
+    try {
+      const now = Date.now();
+      const records = (
+        await this.storage.getRecentPostRecords(now - comments.maxAge)
+      ).filter(
+        (record) =>
+          record.destination === name &&
+          record.threadId &&
+          !record.removedAt &&
+          now - (record.commentsCheckedAt ?? record.sentAt) >= comments.delay,
+      );
+
+      if (records.length === 0) {
+        return;
+      }
+
+      const recordsByPostId = new Map(
+        records.map((record) => [this.getRedditPostId(record.postId), record]),
+      );
+      const fetchResult = await this.redditService.fetchPostsByIds([
+        ...recordsByPostId.keys(),
+      ]);
+      if (!fetchResult.success) {
+        logger.warn("Skipping comment forwarding - could not fetch posts", {
+          feed: name,
+          error: fetchResult.error.message,
+        });
+        return;
+      }
+
+      for (const post of fetchResult.data) {
+        const record = recordsByPostId.get(post.id);
+        if (record && !getRemovalReason(post)) {
+          await this.forwardPostComments(feed, record, post, stats);
+        }
+      }
+    } catch (error) {
+      logger.warn("Comment forwarding failed", {
+        feed: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Post a sent post's new top comments into its thread
+   *
+   * @param feed - Feed the post was sent to
+   * @param record - Stored record of the sent post
+   * @param post - Current version of the Reddit post
+   * @param stats - Sync statistics to update
+   * @private
+   */
+  private async forwardPostComments(
+    feed: FeedState,
+    record: PostRecord,
+    post: RedditPost,
+    stats: SyncStats,
+  ): Promise<void> {
+    const comments = feed.config.comments!;
+    const postedIds = record.commentIds ?? [];
+
+    const commentsResult =
+      post.num_comments > 0
+        ? await this.redditService.fetchTopComments(
+            post.id,
+            comments.count + postedIds.length,
+          )
+        : { success: true as const, data: [] };
+    if (!commentsResult.success) {
+      logger.warn("Skipping comments - could not fetch them", {
+        feed: feed.config.name,
+        postId: post.id,
+        error: commentsResult.error.message,
+      });
+      return;
+    }
+
+    // Comments arrive highest score first, so the open slots go to the top ones
+    const openSlots = Math.max(comments.count - postedIds.length, 0);
+    const newComments = commentsResult.data
+      .filter((comment) => !postedIds.includes(comment.id))
+      .filter(
+        (comment, index) =>
+          index < openSlots || comment.score >= comments.minScore,
+      )
+      .slice(0, comments.count);
+
+    const sentIds: string[] = [];
+    for (const comment of newComments) {
+      const result = await feed.discordService.sendComment(
+        record.threadId!,
+        comment,
+        post,
+      );
+      if (!result.success) {
+        logger.warn("Failed to post comment in Discord thread", {
+          feed: feed.config.name,
+          postId: post.id,
+          commentId: comment.id,
+          threadId: record.threadId,
+          error: result.error.message,
+        });
+        break;
+      }
+      sentIds.push(comment.id);
+    }
+
+    stats.commentsSent += sentIds.length;
+    await this.storage.updatePostRecord(record.postId, {
+      commentsCheckedAt: Date.now(),
+      ...(sentIds.length > 0 && { commentIds: [...postedIds, ...sentIds] }),
+    });
+
+    if (sentIds.length > 0) {
+      logger.info("Posted Reddit comments in Discord thread", {
+        feed: feed.config.name,
+        postId: post.id,
+        threadId: record.threadId,
+        comments: sentIds.length,
+      });
+    }
+  }
+
+  /**
+   * Delete, stub or archive the message of a post removed from Reddit
+   * The post is marked as removed once handled so it isn't checked again
+   *
+   * @param feed - Feed the post was sent to
+   * @param record - Stored record of the sent post
+   * @param post - Current version of the removed Reddit post
+   * @param reason - Why the post is gone
+   * @param stats - Sync statistics to update
+   * @private
+   */
+  private async handleRemovedPost(
+    feed: FeedState,
+    record: PostRecord,
+    post: RedditPost,
+    reason: string,
+    stats: SyncStats,
+  ): Promise<void> {
+    const { removedPostAction } = this.config.refresh;
+    const { discordService } = feed;
+    const message = { messageId: record.messageId, threadId: record.threadId };
+
+    const result =
+      removedPostAction === "delete"
+        ? await discordService.deleteMessage(message)
+        : await discordService.markPostRemoved(message, post, reason);
+
+    if (!result.success) {
+      if (result.error.context?.status === 404) {
+        await this.forgetDeletedMessage(feed, record, post);
+      } else {
+        logger.warn("Failed to update Discord message for removed post", {
+          feed: feed.config.name,
+          postId: post.id,
+          messageId: record.messageId,
+          action: removedPostAction,
+          error: result.error.message,
+        });
+      }
+      return;
+    }
+
+    if (removedPostAction === "archive") {
+      if (record.threadId) {
+        const archiveResult = await discordService.archiveThread(
+          record.threadId,
+        );
+        if (!archiveResult.success) {
+          // Left unhandled so the next refresh tries again
+          logger.warn("Failed to archive thread for removed post", {
+            feed: feed.config.name,
+            postId: post.id,
+            threadId: record.threadId,
+            error: archiveResult.error.message,
+          });
+          return;
+        }
+      } else {
+        logger.debug("Removed post has no thread to archive", {
+          feed: feed.config.name,
+          postId: post.id,
+        });
+      }
+    }
+
+    stats.postsRemoved++;
+    await this.storage.updatePostRecord(record.postId, {
+      removedAt: Date.now(),
+      ...(removedPostAction === "delete" && { messageId: undefined }),
+    });
+    logger.info("Handled removed Reddit post", {
+      feed: feed.config.name,
+      postId: post.id,
+      action: removedPostAction,
+      reason,
+    });
+  }
+
+  /**
+   * Stop tracking a message that was deleted in Discord
+   *
+   * @param feed - Feed the post was sent to
+   * @param record - Stored record of the sent post
+   * @param post - Reddit post the message was for
+   * @private
+   */
+  private async forgetDeletedMessage(
+    feed: FeedState,
+    record: PostRecord,
+    post: RedditPost,
+  ): Promise<void> {
+    await this.storage.updatePostRecord(record.postId, {
+      messageId: undefined,
+    });
+    logger.info("Discord message no longer exists - not refreshing", {
+      feed: feed.config.name,
+      postId: post.id,
+      messageId: record.messageId,
+    });
+  }
+
+  /**
+   * Record a failed send in the outbox so it is retried on a later sync
+   *
+   * @param feed - Feed the post belongs to
+   * @param post - Reddit post that failed to send
+   * @param error - Error message from the attempt
+   * @param stats - Sync statistics to update
+   * @private
+   */
+  private async recordOutboxFailure(
+    feed: FeedState,
+    post: RedditPost,
+    error: string,
+    stats: SyncStats,
+  ): Promise<void> {
+    const result = await this.outbox.recordFailure(
+      feed.config.name,
+      this.getStorageKey(feed.config, post.id),
+      post,
+      error,
+    );
+
+    if (!result.success) {
+      logger.error("Failed to save post to the outbox", {
+        feed: feed.config.name,
+        postId: post.id,
+        error: result.error.message,
+      });
+      return;
+    }
+
+    if (result.data.deadLetteredAt) {
+      stats.postsDeadLettered++;
+      logger.error("Post dead-lettered after repeated send failures", {
+        feed: feed.config.name,
+        postId: post.id,
+        attempts: result.data.attempts,
+        lastError: error,
+      });
+    }
+  }
+
+  /**
+   * Create a zeroed sync statistics object
+   *
+   * @param timestamp - Sync start timestamp
+   * @returns Empty sync statistics
+   * @private
+   */
+  private createEmptyStats(timestamp: number): SyncStats {
+    return {
+      postsFound: 0,
+      postsSent: 0,
+      postsFailed: 0,
+      postsFiltered: 0,
+      postsRejected: 0,
+      postsQueued: 0,
+      postsExpired: 0,
+      postsRetried: 0,
+      postsDeadLettered: 0,
+      postsRefreshed: 0,
+      postsRemoved: 0,
+      commentsSent: 0,
+      duration: 0,
+      timestamp,
+    };
+  }
+
+  /**
+   * Get the creation time before which posts are ignored
+   * Storage forgets posts after the retention age, so older posts could
+   * otherwise be sent a second time
+   *
+   * @returns Cutoff timestamp in milliseconds (0 when there is no age limit)
+   * @private
+   */
+  private getRetentionCutoff(): number {
+    const { maxAgeDays } = this.config.storageRetention;
+    return maxAgeDays === undefined
+      ? 0
+      : Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Get the storage key used to track a post for a feed
+   * The default feed keeps bare post IDs so existing storage stays valid
+   *
+   * @param feed - Feed the post belongs to
+   * @param postId - Reddit post ID
+   * @returns Storage key for the post
+   * @private
+   */
+  private getStorageKey(feed: FeedConfig, postId: string): string {
+    return feed.name === DEFAULT_FEED_NAME ? postId : `${feed.name}:${postId}`;
+  }
+
+  /**
+   * Get the Reddit post ID from a storage key
+   *
+   * @param key - Storage key from getStorageKey
+   * @returns Reddit post ID
+   * @private
+   */
+  private getRedditPostId(key: string): string {
+    return key.slice(key.lastIndexOf(":") + 1);
+  }
+
+  /**
+   * Get current health status of the bot
+   *
+   * @returns Current health status
+   */
+  async getHealthStatus(): Promise<HealthStatus> {
+    const storage = await this.storage.getStats();
+    const pending = await this.outbox.getPending();
+    const deadLetters = await this.outbox.getDeadLetters();
+    const queued = await this.pendingQueue.getPending();
+
+    // Determine overall status
+    let status: HealthStatus["status"] = "healthy";
+
+    if (
+      this.totalErrors > 0 &&
+      this.lastSync &&
+      Date.now() - this.lastSync > 3600000
+    ) {
+      // Errors and no successful sync in the last hour
+      status = "unhealthy";
+    } else if (this.totalErrors > 0) {
+      // Some errors but recent successful sync
+      status = "degraded";
+    }
+
+    return {
+      status,
+      lastSync: this.lastSync,
+      lastError: this.lastError,
+      storage,
+      services: {
+        reddit: "unknown", // Could test connection here
+        discord: "unknown", // Could test connection here
+        storage: storage ? "loaded" : "error",
+      },
+      uptime: Date.now() - this.startTime,
+      totalSyncs: this.totalSyncs,
+      totalErrors: this.totalErrors,
+      feeds: this.getFeedHealth(),
+      outbox: {
+        pending: pending.length,
+        deadLetters: deadLetters.length,
+      },
+      pending: queued.map((item) => ({
+        feed: item.feed,
+        postId: item.post.id,
+        title: item.post.title,
+        score: item.post.ups,
+        numComments: item.post.num_comments,
+        queuedAt: item.queuedAt,
+        lastCheckedAt: item.lastCheckedAt,
+      })),
+    };
+  }
+
+  /**
+   * Get posts that were dead-lettered after running out of send attempts
+   *
+   * @returns Promise resolving to dead-lettered outbox items
+   */
+  async getDeadLetters(): Promise<OutboxItem[]> {
+    return await this.outbox.getDeadLetters();
+  }
+
+  /**
+   * Get the health and statistics of each feed
+   *
+   * @returns Feed health keyed by feed name
+   * @private
+   */
+  private getFeedHealth(): Record<string, FeedHealth> {
+    const feeds: Record<string, FeedHealth> = {};
+
+    for (const feed of this.feeds) {
+      feeds[feed.config.name] = {
+        subreddit: feed.config.subreddit,
+        lastSync: feed.lastSync,
+        lastError: feed.lastError,
+        totalSyncs: feed.totalSyncs,
+        totalErrors: feed.totalErrors,
+        lastStats: feed.lastStats,
+      };
+    }
+
+    return feeds;
+  }
+
+  /**
+   * Test connections to all external services
+   *
+   * @returns Promise resolving when all tests complete
+   * @private
+   */
+  private async testConnections(): Promise<void> {
+    logger.info("Testing service connections");
+
+    // Test Reddit connection
     const redditTest = await this.redditService.testConnection();
     if (!redditTest.success) {
       logger.warn(
@@ -463,22 +1986,99 @@ export class RedditDiscordBot {
       logger.info("Reddit connection test successful");
     }
 
-    // Test Discord connection
-    const discordTest = await this.discordService.testConnection();
-    if (!discordTest.success) {
+    // Test Discord connection for each feed destination
+    for (const feed of this.feeds) {
+      const discordTest = await feed.discordService.testConnection();
+      if (!discordTest.success) {
+        logger.warn(
+          "Discord connection test failed - please check webhook URL and permissions",
+          {
+            feed: feed.config.name,
+            error: discordTest.error.message,
+            code: discordTest.error.code,
+          },
+        );
+        // Don't throw error - allow bot to start for troubleshooting
+      } else {
+        logger.info("Discord connection test successful", {
+          feed: feed.config.name,
+        });
+      }
+
+      await this.checkForumTags(feed);
+    }
+
+    logger.info("Service connection tests completed");
+  }
+
+  /**
+   * Warn about feeds whose listing reaches back further than the storage
+   * retention window; posts older than the window are never forwarded
+   *
+   * @private
+   */
+  private checkListingRetention(): void {
+    const { maxAgeDays } = this.config.storageRetention;
+    if (maxAgeDays === undefined) {
+      return;
+    }
+
+    for (const feed of this.feeds) {
+      const time = feed.config.listing?.time;
+      if (time !== undefined && LISTING_TIME_DAYS[time] > maxAgeDays) {
+        logger.warn(
+          "Feed listing reaches back further than STORAGE_RETENTION_DAYS - posts older than the retention window will not be forwarded",
+          {
+            feed: feed.config.name,
+            listing: feed.config.listing,
+            retentionDays: maxAgeDays,
+          },
+        );
+      }
+    }
+  }
+
+  /**
+   * Warn about configured forum tags that a feed's channel no longer has
+   * Tags deleted from the channel can no longer be applied to new threads
+   * Needs the feed's bot token to read the channel; skipped without one
+   *
+   * @param feed - Feed to check
+   * @returns Promise resolving when the check completes
+   * @private
+   */
+  private async checkForumTags(feed: FeedState): Promise<void> {
+    const { discord } = feed.config;
+    if (
+      !discord.enableThreading ||
+      !discord.isForumChannel ||
+      !discord.botToken ||
+      getConfiguredTagIds(discord).length === 0
+    ) {
+      return;
+    }
+
+    const tagsResult = await feed.discordService.fetchForumTags();
+    if (!tagsResult.success) {
+      logger.warn("Could not check the configured Discord forum tags", {
+        feed: feed.config.name,
+        error: tagsResult.error.message,
+        code: tagsResult.error.code,
+      });
+      return;
+    }
+
+    const missingTagIds = findMissingTagIds(discord, tagsResult.data);
+    if (missingTagIds.length > 0) {
       logger.warn(
-        "Discord connection test failed - please check webhook URL and permissions",
+        "Configured Discord forum tags no longer exist on the channel - run npm run discover:tags to update them",
         {
-          error: discordTest.error.message,
-          code: discordTest.error.code,
+          feed: feed.config.name,
+          missingTagIds,
+          availableTags: tagsResult.data,
         },
       );
-      // Don't throw error - allow bot to start for troubleshooting
-    } else {
-      logger.info("Discord connection test successful");
     }
-
-    logger.info("Service connection tests completed");
   }
 
   /**
@@ -503,22 +2103,45 @@ export class RedditDiscordBot {
       },
       discord: {
         ...this.config.discord,
-        webhookUrl: this.config.discord.webhookUrl.replace(
-          /\/[\w-]+$/,
-          "/***masked***",
-        ),
+        webhookUrl: this.maskWebhookUrl(this.config.discord.webhookUrl),
+        botToken: this.config.discord.botToken ? "***masked***" : undefined,
       },
+      feeds: this.config.feeds.map((feed) => ({
+        ...feed,
+        discord: {
+          ...feed.discord,
+          webhookUrl: this.maskWebhookUrl(feed.discord.webhookUrl),
+          botToken: feed.discord.botToken ? "***masked***" : undefined,
+        },
+      })),
       logging: this.config.logging,
       schedule: this.config.schedule,
+      storageBackend: this.config.storageBackend,
       storageFilePath: this.config.storageFilePath,
+      storageRetention: this.config.storageRetention,
+      outbox: this.config.outbox,
+      refresh: this.config.refresh,
+      dedupe: this.config.dedupe,
+      postOrder: this.config.postOrder,
       environment: this.config.environment,
     };
   }
 
+  /**
+   * Mask the token part of a webhook URL
+   *
+   * @param webhookUrl - Full webhook URL
+   * @returns Webhook URL with the token masked
+   * @private
+   */
+  private maskWebhookUrl(webhookUrl: string): string {
+    return webhookUrl.replace(/\/[\w-]+$/, "/***masked***");
+  }
+
   /**
    * Get bot statistics
    *
-   * @returns Current bot statistics
+   * @returns Current bot statistics with a per-feed breakdown
    */
   getStats(): {
     uptime: number;
@@ -527,6 +2150,7 @@ export class RedditDiscordBot {
     lastSync?: number;
     lastError?: string;
     isRunning: boolean;
+    feeds: Record<string, FeedHealth>;
   } {
     return {
       uptime: Date.now() - this.startTime,
@@ -535,6 +2159,7 @@ export class RedditDiscordBot {
       lastSync: this.lastSync,
       lastError: this.lastError,
       isRunning: this.isRunning,
+      feeds: this.getFeedHealth(),
     };
   }
 }
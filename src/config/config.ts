@@ -4,17 +4,45 @@
  */
 
 import dotenv from "dotenv";
+import { readFileSync } from "fs";
 import path from "path";
 import {
   Config,
   RedditConfig,
   DiscordConfig,
+  DiscordMessageFormat,
+  MessageTemplates,
+  MentionRule,
+  TagRule,
+  FeedConfig,
   LoggingConfig,
   ScheduleConfig,
+  OutboxConfig,
+  RefreshConfig,
+  RemovedPostAction,
+  SensitivePostPolicy,
+  DedupeConfig,
+  PostOrder,
+  PostFilterConfig,
+  TractionConfig,
+  CommentsConfig,
+  ListingConfig,
+  ListingSort,
+  ListingTime,
+  SearchSort,
+  StorageRetention,
   BotError,
   Result,
 } from "../types";
 import { logger } from "../utils/logger";
+import {
+  DEFAULT_SENSITIVE_POST_POLICY,
+  SENSITIVE_POST_POLICIES,
+} from "../utils/sensitive-posts";
+import { LIST_FILTER_RULES, NUMBER_FILTER_RULES } from "../utils/post-filter";
+import { compileMessageTemplates } from "../utils/message-template";
+import { POST_MEDIA_TYPES } from "../utils/tag-rules";
+import { MAX_CATCH_UP_PAGES } from "../utils/listing-cursor";
 
 dotenv.config();
 
@@ -24,37 +52,179 @@ dotenv.config();
 const DEFAULT_VALUES = {
   REDDIT_POST_LIMIT: "25",
   REDDIT_USER_AGENT: "TassieRedditBot/1.0.0 by u/bot-user",
+  DISCORD_MAX_UPLOAD_MB: "10",
   LOG_LEVEL: "info",
   LOG_DIRECTORY: "logs",
   LOG_MAX_FILE_SIZE: "10m",
   LOG_MAX_FILES: "14d",
   SCHEDULE_CRON: "*/15 * * * *", // Every 15 minutes
   SCHEDULE_TIMEZONE: "Australia/Hobart",
+  STORAGE_BACKEND: "json",
   STORAGE_FILE_PATH: "data/posted-ids.json",
+  STORAGE_SQLITE_FILE_PATH: "data/posted-ids.db",
+  STORAGE_RETENTION_DAYS: "0",
+  OUTBOX_MAX_ATTEMPTS: "5",
+  OUTBOX_RETRY_DELAY_SECONDS: "300", // 5 minutes, doubled on each attempt
+  REFRESH_MAX_AGE_HOURS: "24",
+  REFRESH_CHANGE_PERCENT: "20",
+  REFRESH_MIN_CHANGE: "5",
+  REMOVED_POST_ACTION: "stub",
+  DEDUPE_WINDOW_HOURS: "48",
+  TRACTION_MAX_AGE_HOURS: "24",
+  COMMENTS_DELAY_MINUTES: "30",
+  COMMENTS_MIN_SCORE: "25",
+  COMMENTS_MAX_AGE_HOURS: "24",
+  POST_ORDER: "oldest",
   ENVIRONMENT: "development",
 } as const;
 
+/**
+ * Valid values for REMOVED_POST_ACTION
+ */
+const REMOVED_POST_ACTIONS: readonly RemovedPostAction[] = [
+  "none",
+  "stub",
+  "delete",
+  "archive",
+];
+
+/**
+ * Valid Discord message formats
+ */
+const MESSAGE_FORMATS: readonly DiscordMessageFormat[] = [
+  "embed",
+  "normal",
+  "template",
+];
+
+/**
+ * Message parts that take a template, besides embed fields
+ */
+const TEMPLATE_PARTS: readonly string[] = [
+  "content",
+  "title",
+  "description",
+  "footer",
+];
+
+/**
+ * Valid values for POST_ORDER
+ */
+const POST_ORDERS: readonly PostOrder[] = ["oldest", "newest"];
+
+/**
+ * Valid listing sorts for a feed's listing
+ */
+const LISTING_SORTS: readonly ListingSort[] = [
+  "new",
+  "hot",
+  "rising",
+  "top",
+  "controversial",
+  "search",
+];
+
+/**
+ * Valid time ranges for top, controversial and search listings
+ */
+const LISTING_TIMES: readonly ListingTime[] = [
+  "hour",
+  "day",
+  "week",
+  "month",
+  "year",
+  "all",
+];
+
+/**
+ * Valid search result orders
+ */
+const SEARCH_SORTS: readonly SearchSort[] = [
+  "relevance",
+  "hot",
+  "top",
+  "new",
+  "comments",
+];
+
+/**
+ * Name of the feed built from REDDIT_SUBREDDIT and DISCORD_WEBHOOK_URL
+ * Its storage keys are bare post IDs so existing history keeps working
+ */
+export const DEFAULT_FEED_NAME = "default";
+
 /**
  * Required environment variables that must be provided
  */
-const REQUIRED_ENV_VARS = [
-  "REDDIT_CLIENT_ID",
-  "REDDIT_CLIENT_SECRET",
+const REQUIRED_ENV_VARS = ["REDDIT_CLIENT_ID", "REDDIT_CLIENT_SECRET"] as const;
+
+/**
+ * Environment variables required when no FEEDS_CONFIG or FEEDS_FILE is given
+ */
+const SINGLE_FEED_ENV_VARS = [
   "REDDIT_SUBREDDIT",
   "DISCORD_WEBHOOK_URL",
 ] as const;
 
+/**
+ * Feed entry as written in FEEDS_CONFIG or FEEDS_FILE
+ * Discord settings that are omitted fall back to the DISCORD_* variables
+ */
+interface FeedDefinition extends Partial<DiscordConfig> {
+  /** Unique feed name (defaults to the subreddit name) */
+  name?: string;
+  /** Subreddit to monitor (without r/ prefix) */
+  subreddit: string;
+  /** Filter rules (defaults to POST_FILTERS) */
+  filters?: PostFilterConfig;
+  /** Traction thresholds (defaults to the TRACTION_* variables) */
+  traction?: TractionDefinition;
+  /** Reddit listing to fetch (defaults to new posts) */
+  listing?: ListingConfig;
+  /** Comments forwarded into threads (defaults to the COMMENTS_* variables) */
+  comments?: CommentsDefinition;
+  /** JSON file with the feed's message templates (defaults to DISCORD_TEMPLATE_FILE) */
+  templateFile?: string;
+}
+
+/**
+ * Traction thresholds as written in FEEDS_CONFIG or FEEDS_FILE
+ */
+interface TractionDefinition {
+  /** Score a post needs before it is forwarded */
+  minScore?: number;
+  /** Number of comments a post needs before it is forwarded */
+  minComments?: number;
+  /** Hours a post may wait to reach the thresholds */
+  maxAgeHours?: number;
+}
+
+/**
+ * Comment forwarding as written in FEEDS_CONFIG or FEEDS_FILE
+ */
+interface CommentsDefinition {
+  /** Number of top comments to post into each thread */
+  count?: number;
+  /** Minutes to wait after a post is sent before posting its comments */
+  delayMinutes?: number;
+  /** Score a later comment needs before it is appended */
+  minScore?: number;
+  /** Hours after a post is sent during which new comments are appended */
+  maxAgeHours?: number;
+}
+
 /**
  * Load and validate Reddit configuration
  *
+ * @param defaultSubreddit - Subreddit to use when REDDIT_SUBREDDIT is not set
  * @returns Reddit configuration object
  * @throws Error if required Reddit environment variables are missing
  */
-function loadRedditConfig(): RedditConfig {
+function loadRedditConfig(defaultSubreddit?: string): RedditConfig {
   const clientId = process.env.REDDIT_CLIENT_ID;
   const clientSecret = process.env.REDDIT_CLIENT_SECRET;
   const redirectUri = process.env.REDDIT_REDIRECT_URI;
-  const subreddit = process.env.REDDIT_SUBREDDIT;
+  const subreddit = process.env.REDDIT_SUBREDDIT || defaultSubreddit;
 
   if (!clientId || !clientSecret || !subreddit) {
     throw new Error(
@@ -83,20 +253,12 @@ function loadRedditConfig(): RedditConfig {
 }
 
 /**
- * Load and validate Discord configuration
+ * Validate a Discord webhook URL
  *
- * @returns Discord configuration object
- * @throws Error if required Discord environment variables are missing
+ * @param webhookUrl - Webhook URL to validate
+ * @throws Error if the URL is not a Discord webhook URL
  */
-function loadDiscordConfig(): DiscordConfig {
-  const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
-
-  if (!webhookUrl) {
-    throw new Error(
-      "Missing required Discord configuration: DISCORD_WEBHOOK_URL",
-    );
-  }
-
+function validateWebhookUrl(webhookUrl: string): void {
   try {
     const url = new URL(webhookUrl);
     if (
@@ -110,13 +272,552 @@ function loadDiscordConfig(): DiscordConfig {
       `Invalid Discord webhook URL: ${error instanceof Error ? error.message : String(error)}`,
     );
   }
+}
+
+/**
+ * Validate that every tag ID in a flair mapping is a Discord snowflake
+ *
+ * @param tagMapping - Mapping of Reddit flair text to Discord tag IDs
+ * @throws Error if a tag ID is not numeric
+ */
+function validateTagMapping(tagMapping: Record<string, string>): void {
+  for (const tagId of Object.values(tagMapping)) {
+    if (typeof tagId !== "string" || !/^\d+$/.test(tagId)) {
+      throw new Error(
+        `Invalid Discord tag ID format: ${String(tagId)}. Must be a numeric snowflake ID.`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate forum tag rules
+ *
+ * @param rules - Rules to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The validated rules
+ * @throws Error if a rule has no tag or conditions, or a condition is invalid
+ */
+function validateTagRules(rules: unknown, setting: string): TagRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error(`Invalid ${setting}: must be a JSON array`);
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+      throw new Error(`Invalid ${setting}: rule ${index} must be an object`);
+    }
+
+    const { tag, ...conditions } = rule as Record<string, unknown>;
+    if (typeof tag !== "string" || !/^\d+$/.test(tag)) {
+      throw new Error(
+        `Invalid ${setting}: tag of rule ${index} must be a numeric snowflake ID`,
+      );
+    }
+    if (Object.keys(conditions).length === 0) {
+      throw new Error(`Invalid ${setting}: rule ${index} has no conditions`);
+    }
+
+    for (const [key, value] of Object.entries(conditions)) {
+      if (key === "flairs" || key === "keywords") {
+        if (
+          !Array.isArray(value) ||
+          !value.every((item) => typeof item === "string")
+        ) {
+          throw new Error(
+            `Invalid ${setting}: ${key} in rule ${index} must be a list of strings`,
+          );
+        }
+      } else if (key === "flairPattern") {
+        if (typeof value !== "string") {
+          throw new Error(
+            `Invalid ${setting}: flairPattern in rule ${index} must be a string`,
+          );
+        }
+        try {
+          new RegExp(value);
+        } catch (error) {
+          throw new Error(
+            `Invalid ${setting}: flairPattern in rule ${index}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (key === "mediaTypes") {
+        if (
+          !Array.isArray(value) ||
+          !value.every((item) => POST_MEDIA_TYPES.includes(item))
+        ) {
+          throw new Error(
+            `Invalid ${setting}: mediaTypes in rule ${index} must be a list of ${POST_MEDIA_TYPES.join(", ")}`,
+          );
+        }
+      } else if (key === "minScore" || key === "maxScore") {
+        if (typeof value !== "number" || isNaN(value)) {
+          throw new Error(
+            `Invalid ${setting}: ${key} in rule ${index} must be a number`,
+          );
+        }
+      } else {
+        throw new Error(
+          `Invalid ${setting}: unknown key ${key} in rule ${index}`,
+        );
+      }
+    }
+  }
+
+  return rules as TagRule[];
+}
+
+/**
+ * Load the forum tag rules shared by every feed from DISCORD_TAG_RULES
+ *
+ * @returns Tag rules, or undefined when not set
+ * @throws Error if DISCORD_TAG_RULES isn't valid JSON or has an invalid rule
+ */
+function loadDefaultTagRules(): TagRule[] | undefined {
+  const json = process.env.DISCORD_TAG_RULES;
+  if (!json) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Invalid DISCORD_TAG_RULES: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return validateTagRules(parsed, "DISCORD_TAG_RULES");
+}
+
+/**
+ * Validate mention rules
+ *
+ * @param rules - Rules to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The validated rules
+ * @throws Error if a rule has no flairs or keywords, no roles or users, or an ID isn't a snowflake
+ */
+function validateMentionRules(rules: unknown, setting: string): MentionRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error(`Invalid ${setting}: must be a JSON array`);
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+      throw new Error(`Invalid ${setting}: rule ${index} must be an object`);
+    }
+
+    for (const [key, value] of Object.entries(rule)) {
+      if (!["flairs", "keywords", "roles", "users"].includes(key)) {
+        throw new Error(
+          `Invalid ${setting}: unknown key ${key} in rule ${index}`,
+        );
+      }
+      if (
+        !Array.isArray(value) ||
+        !value.every((item) => typeof item === "string")
+      ) {
+        throw new Error(
+          `Invalid ${setting}: ${key} in rule ${index} must be a list of strings`,
+        );
+      }
+    }
+
+    const {
+      flairs = [],
+      keywords = [],
+      roles = [],
+      users = [],
+    } = rule as MentionRule;
+    if (flairs.length === 0 && keywords.length === 0) {
+      throw new Error(
+        `Invalid ${setting}: rule ${index} needs flairs or keywords`,
+      );
+    }
+    if (roles.length === 0 && users.length === 0) {
+      throw new Error(`Invalid ${setting}: rule ${index} needs roles or users`);
+    }
+
+    const badId = [...roles, ...users].find((id) => !/^\d+$/.test(id));
+    if (badId !== undefined) {
+      throw new Error(
+        `Invalid ${setting}: ${badId} in rule ${index} is not a numeric snowflake ID`,
+      );
+    }
+  }
+
+  return rules as MentionRule[];
+}
+
+/**
+ * Load the mention rules shared by every feed from DISCORD_MENTIONS
+ *
+ * @returns Mention rules, or undefined when not set
+ * @throws Error if DISCORD_MENTIONS isn't valid JSON or has an invalid rule
+ */
+function loadDefaultMentions(): MentionRule[] | undefined {
+  const json = process.env.DISCORD_MENTIONS;
+  if (!json) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Invalid DISCORD_MENTIONS: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return validateMentionRules(parsed, "DISCORD_MENTIONS");
+}
+
+/**
+ * Validate an NSFW or spoiler policy
+ *
+ * @param policy - Policy to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The validated policy
+ * @throws Error if the policy isn't valid
+ */
+function validateSensitivePostPolicy(
+  policy: unknown,
+  setting: string,
+): SensitivePostPolicy {
+  if (!SENSITIVE_POST_POLICIES.includes(policy as SensitivePostPolicy)) {
+    throw new Error(
+      `Invalid ${setting}: ${String(policy)}. Must be one of: ${SENSITIVE_POST_POLICIES.join(", ")}`,
+    );
+  }
+
+  return policy as SensitivePostPolicy;
+}
+
+/**
+ * Validate filter rules
+ *
+ * @param filters - Filter rules to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The validated filter rules
+ * @throws Error if a rule is unknown or has an invalid value
+ */
+function validatePostFilters(
+  filters: unknown,
+  setting: string,
+): PostFilterConfig {
+  if (!filters || typeof filters !== "object" || Array.isArray(filters)) {
+    throw new Error(`Invalid ${setting}: must be a JSON object`);
+  }
+
+  const knownRules: readonly string[] = [
+    ...LIST_FILTER_RULES,
+    ...NUMBER_FILTER_RULES,
+    "postType",
+  ];
+
+  for (const [rule, value] of Object.entries(filters)) {
+    if (!knownRules.includes(rule)) {
+      throw new Error(`Invalid ${setting}: unknown rule ${rule}`);
+    }
+
+    if (rule === "postType") {
+      if (value !== "self" && value !== "link") {
+        throw new Error(
+          `Invalid ${setting}: postType must be 'self' or 'link'`,
+        );
+      }
+    } else if ((NUMBER_FILTER_RULES as readonly string[]).includes(rule)) {
+      if (typeof value !== "number" || isNaN(value)) {
+        throw new Error(`Invalid ${setting}: ${rule} must be a number`);
+      }
+    } else if (
+      !Array.isArray(value) ||
+      !value.every((item) => typeof item === "string")
+    ) {
+      throw new Error(`Invalid ${setting}: ${rule} must be a list of strings`);
+    }
+  }
+
+  const { includePatterns = [], excludePatterns = [] } =
+    filters as PostFilterConfig;
+  for (const pattern of [...includePatterns, ...excludePatterns]) {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      throw new Error(
+        `Invalid ${setting}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return filters as PostFilterConfig;
+}
+
+/**
+ * Load the filter rules used by feeds that don't define their own
+ *
+ * @returns Filter rules from POST_FILTERS, or undefined when not set
+ * @throws Error if POST_FILTERS isn't valid JSON filter rules
+ */
+function loadDefaultFilters(): PostFilterConfig | undefined {
+  const json = process.env.POST_FILTERS;
+  if (!json) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Invalid POST_FILTERS: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return validatePostFilters(parsed, "POST_FILTERS");
+}
+
+/**
+ * Validate traction thresholds
+ * Thresholds without a minimum score or comment count are turned off
+ *
+ * @param traction - Thresholds to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The traction configuration, or undefined when turned off
+ * @throws Error if a threshold isn't a valid number
+ */
+function validateTraction(
+  traction: TractionDefinition,
+  setting: string,
+): TractionConfig | undefined {
+  if (!traction || typeof traction !== "object") {
+    throw new Error(`Invalid ${setting}: must be a JSON object`);
+  }
+
+  const {
+    minScore,
+    minComments,
+    maxAgeHours = parseFloat(DEFAULT_VALUES.TRACTION_MAX_AGE_HOURS),
+  } = traction;
+
+  for (const [name, value] of Object.entries({ minScore, minComments })) {
+    if (value !== undefined && (typeof value !== "number" || isNaN(value))) {
+      throw new Error(`Invalid ${setting}: ${name} must be a number`);
+    }
+  }
+
+  if (
+    typeof maxAgeHours !== "number" ||
+    isNaN(maxAgeHours) ||
+    maxAgeHours <= 0
+  ) {
+    throw new Error(
+      `Invalid ${setting}: maxAgeHours must be a positive number`,
+    );
+  }
+
+  if (minScore === undefined && minComments === undefined) {
+    return undefined;
+  }
+
+  return { minScore, minComments, maxAge: maxAgeHours * 60 * 60 * 1000 };
+}
+
+/**
+ * Load the traction thresholds used by feeds that don't define their own
+ *
+ * @returns Traction configuration, or undefined when turned off
+ * @throws Error if a TRACTION_* variable isn't a valid number
+ */
+function loadDefaultTraction(): TractionConfig | undefined {
+  const parseOptional = (value: string | undefined): number | undefined =>
+    value ? parseFloat(value) : undefined;
+
+  return validateTraction(
+    {
+      minScore: parseOptional(process.env.TRACTION_MIN_SCORE),
+      minComments: parseOptional(process.env.TRACTION_MIN_COMMENTS),
+      maxAgeHours: parseFloat(
+        process.env.TRACTION_MAX_AGE_HOURS ||
+          DEFAULT_VALUES.TRACTION_MAX_AGE_HOURS,
+      ),
+    },
+    "TRACTION_* settings",
+  );
+}
+
+/**
+ * Validate comment forwarding settings
+ * Forwarding is turned off when no comment count is given
+ *
+ * @param comments - Settings to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The comments configuration, or undefined when turned off
+ * @throws Error if a setting isn't a valid number
+ */
+function validateComments(
+  comments: CommentsDefinition,
+  setting: string,
+): CommentsConfig | undefined {
+  if (!comments || typeof comments !== "object") {
+    throw new Error(`Invalid ${setting}: must be a JSON object`);
+  }
+
+  const {
+    count,
+    delayMinutes = parseFloat(DEFAULT_VALUES.COMMENTS_DELAY_MINUTES),
+    minScore = parseFloat(DEFAULT_VALUES.COMMENTS_MIN_SCORE),
+    maxAgeHours = parseFloat(DEFAULT_VALUES.COMMENTS_MAX_AGE_HOURS),
+  } = comments;
+
+  if (count === undefined || count === 0) {
+    return undefined;
+  }
+
+  if (typeof count !== "number" || !Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${setting}: count must be a positive integer`);
+  }
+
+  for (const [name, value] of Object.entries({ delayMinutes, minScore })) {
+    if (typeof value !== "number" || isNaN(value) || value < 0) {
+      throw new Error(
+        `Invalid ${setting}: ${name} must be a non-negative number`,
+      );
+    }
+  }
+
+  if (
+    typeof maxAgeHours !== "number" ||
+    isNaN(maxAgeHours) ||
+    maxAgeHours <= 0
+  ) {
+    throw new Error(
+      `Invalid ${setting}: maxAgeHours must be a positive number`,
+    );
+  }
+
+  return {
+    count,
+    delay: delayMinutes * 60 * 1000,
+    minScore,
+    maxAge: maxAgeHours * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * Load the comment forwarding used by feeds that don't define their own
+ *
+ * @returns Comments configuration, or undefined when turned off
+ * @throws Error if a COMMENTS_* variable isn't a valid number
+ */
+function loadDefaultComments(): CommentsConfig | undefined {
+  return validateComments(
+    {
+      count: process.env.COMMENTS_COUNT
+        ? parseFloat(process.env.COMMENTS_COUNT)
+        : undefined,
+      delayMinutes: parseFloat(
+        process.env.COMMENTS_DELAY_MINUTES ||
+          DEFAULT_VALUES.COMMENTS_DELAY_MINUTES,
+      ),
+      minScore: parseFloat(
+        process.env.COMMENTS_MIN_SCORE || DEFAULT_VALUES.COMMENTS_MIN_SCORE,
+      ),
+      maxAgeHours: parseFloat(
+        process.env.COMMENTS_MAX_AGE_HOURS ||
+          DEFAULT_VALUES.COMMENTS_MAX_AGE_HOURS,
+      ),
+    },
+    "COMMENTS_* settings",
+  );
+}
+
+/**
+ * Validate a feed's Reddit listing
+ *
+ * @param listing - Listing to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The validated listing
+ * @throws Error if the listing is invalid or a search has no query
+ */
+function validateListing(listing: unknown, setting: string): ListingConfig {
+  if (!listing || typeof listing !== "object") {
+    throw new Error(`Invalid ${setting}: must be a JSON object`);
+  }
+
+  const { sort, time, query, searchSort, restrictSr } =
+    listing as ListingConfig;
+
+  if (!LISTING_SORTS.includes(sort)) {
+    throw new Error(
+      `Invalid ${setting}: sort must be one of: ${LISTING_SORTS.join(", ")}`,
+    );
+  }
+
+  if (time !== undefined) {
+    if (sort !== "top" && sort !== "controversial" && sort !== "search") {
+      throw new Error(
+        `Invalid ${setting}: time only applies to top, controversial and search`,
+      );
+    }
+    if (!LISTING_TIMES.includes(time)) {
+      throw new Error(
+        `Invalid ${setting}: time must be one of: ${LISTING_TIMES.join(", ")}`,
+      );
+    }
+  }
+
+  if (sort === "search") {
+    if (typeof query !== "string" || !query.trim()) {
+      throw new Error(`Invalid ${setting}: search requires a query`);
+    }
+    if (searchSort !== undefined && !SEARCH_SORTS.includes(searchSort)) {
+      throw new Error(
+        `Invalid ${setting}: searchSort must be one of: ${SEARCH_SORTS.join(", ")}`,
+      );
+    }
+    if (restrictSr !== undefined && typeof restrictSr !== "boolean") {
+      throw new Error(`Invalid ${setting}: restrictSr must be true or false`);
+    }
+  } else if (
+    query !== undefined ||
+    searchSort !== undefined ||
+    restrictSr !== undefined
+  ) {
+    throw new Error(
+      `Invalid ${setting}: query, searchSort and restrictSr only apply to search`,
+    );
+  }
+
+  return listing as ListingConfig;
+}
+
+/**
+ * Load Discord settings shared by every feed (everything except the webhook URL)
+ *
+ * @returns Discord configuration defaults
+ * @throws Error if a Discord environment variable is invalid
+ */
+function loadDiscordDefaults(): Omit<DiscordConfig, "webhookUrl"> {
+  const messageFormat = (process.env.DISCORD_MESSAGE_FORMAT ||
+    "embed") as DiscordMessageFormat;
+  if (!MESSAGE_FORMATS.includes(messageFormat)) {
+    throw new Error(
+      `Invalid DISCORD_MESSAGE_FORMAT: ${messageFormat}. Must be 'embed', 'normal' or 'template'`,
+    );
+  }
+
+  const templateFile = process.env.DISCORD_TEMPLATE_FILE;
 
-  const messageFormat = (process.env.DISCORD_MESSAGE_FORMAT || "embed") as
-    | "embed"
-    | "normal";
-  if (messageFormat !== "embed" && messageFormat !== "normal") {
+  const maxUploadMb = parseFloat(
+    process.env.DISCORD_MAX_UPLOAD_MB || DEFAULT_VALUES.DISCORD_MAX_UPLOAD_MB,
+  );
+  if (isNaN(maxUploadMb) || maxUploadMb <= 0) {
     throw new Error(
-      `Invalid DISCORD_MESSAGE_FORMAT: ${messageFormat}. Must be 'embed' or 'normal'`,
+      `Invalid DISCORD_MAX_UPLOAD_MB: ${process.env.DISCORD_MAX_UPLOAD_MB}. Must be a positive number`,
     );
   }
 
@@ -128,15 +829,11 @@ function loadDiscordConfig(): DiscordConfig {
       for (const pair of mappingPairs) {
         const [flairText, tagId] = pair.split(":").map((s) => s.trim());
         if (flairText && tagId) {
-          // Validate Discord tag ID format (should be a snowflake - numeric string)
-          if (!/^\d+$/.test(tagId)) {
-            throw new Error(
-              `Invalid Discord tag ID format: ${tagId}. Must be a numeric snowflake ID.`,
-            );
-          }
           tagMapping[flairText] = tagId;
         }
       }
+      // Validate Discord tag ID format (should be a snowflake - numeric string)
+      validateTagMapping(tagMapping);
     } catch (error) {
       throw new Error(
         `Invalid DISCORD_TAG_MAPPING format: ${error instanceof Error ? error.message : String(error)}. Expected format: "Flair1:123456,Flair2:789012"`,
@@ -145,7 +842,6 @@ function loadDiscordConfig(): DiscordConfig {
   }
 
   return {
-    webhookUrl,
     messageFormat,
     defaultUsername: process.env.DISCORD_DEFAULT_USERNAME,
     defaultAvatarUrl: process.env.DISCORD_DEFAULT_AVATAR_URL,
@@ -154,13 +850,331 @@ function loadDiscordConfig(): DiscordConfig {
     testFooter: process.env.DISCORD_TEST_FOOTER,
     enableThreading: process.env.DISCORD_ENABLE_THREADING === "true",
     threadPrefix: process.env.DISCORD_THREAD_PREFIX,
+    botToken: process.env.DISCORD_BOT_TOKEN,
     isForumChannel: process.env.DISCORD_FORUM_CHANNEL === "true",
     threadNameMaxLength: parseInt(
       process.env.DISCORD_THREAD_NAME_MAX_LENGTH || "80",
       10,
     ),
     tagMapping,
+    tagRules: loadDefaultTagRules(),
+    nsfwPolicy: validateSensitivePostPolicy(
+      process.env.DISCORD_NSFW_POLICY || DEFAULT_SENSITIVE_POST_POLICY,
+      "DISCORD_NSFW_POLICY",
+    ),
+    spoilerPolicy: validateSensitivePostPolicy(
+      process.env.DISCORD_SPOILER_POLICY || DEFAULT_SENSITIVE_POST_POLICY,
+      "DISCORD_SPOILER_POLICY",
+    ),
+    uploadImages: process.env.DISCORD_UPLOAD_IMAGES === "true",
+    maxUploadBytes: Math.floor(maxUploadMb * 1024 * 1024),
+    mentions: loadDefaultMentions(),
+    templates: templateFile
+      ? loadMessageTemplates(templateFile, "DISCORD_TEMPLATE_FILE")
+      : undefined,
+  };
+}
+
+/**
+ * Validate message templates, including every placeholder
+ *
+ * @param templates - Templates to validate
+ * @param setting - Name of the setting, for the error message
+ * @returns The validated templates
+ * @throws Error naming the template, line, column and placeholder at fault
+ */
+function validateMessageTemplates(
+  templates: unknown,
+  setting: string,
+): MessageTemplates {
+  if (!templates || typeof templates !== "object" || Array.isArray(templates)) {
+    throw new Error(`Invalid ${setting}: must be a JSON object`);
+  }
+
+  const { fields, ...parts } = templates as Record<string, unknown>;
+  for (const [part, value] of Object.entries(parts)) {
+    if (!TEMPLATE_PARTS.includes(part)) {
+      throw new Error(
+        `Invalid ${setting}: unknown template "${part}". Must be one of ${[...TEMPLATE_PARTS, "fields"].join(", ")}`,
+      );
+    }
+    if (typeof value !== "string") {
+      throw new Error(`Invalid ${setting}: ${part} must be a string`);
+    }
+  }
+
+  if (
+    fields !== undefined &&
+    (!Array.isArray(fields) ||
+      fields.some(
+        (field) =>
+          !field ||
+          typeof field.name !== "string" ||
+          typeof field.value !== "string",
+      ))
+  ) {
+    throw new Error(
+      `Invalid ${setting}: fields must be an array of { "name", "value" } templates`,
+    );
+  }
+
+  try {
+    compileMessageTemplates(templates as MessageTemplates);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${setting}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return templates as MessageTemplates;
+}
+
+/**
+ * Load message templates from a JSON file
+ *
+ * @param filePath - Path to the template file
+ * @param setting - Name of the setting, for the error message
+ * @returns The validated templates
+ * @throws Error if the file can't be read or a template is invalid
+ */
+function loadMessageTemplates(
+  filePath: string,
+  setting: string,
+): MessageTemplates {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path.resolve(filePath), "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${setting}: could not read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return validateMessageTemplates(parsed, `${setting} (${filePath})`);
+}
+
+/**
+ * Check that a destination using the template format has templates
+ *
+ * @param discord - Discord configuration to check
+ * @param setting - Where templates can be set, for the error message
+ * @throws Error if the template format has no templates
+ */
+function validateTemplateFormat(discord: DiscordConfig, setting: string): void {
+  if (discord.messageFormat === "template" && !discord.templates) {
+    throw new Error(`The 'template' message format requires ${setting}`);
+  }
+}
+
+/**
+ * Load and validate Discord configuration
+ *
+ * @returns Discord configuration object
+ * @throws Error if required Discord environment variables are missing
+ */
+function loadDiscordConfig(): DiscordConfig {
+  const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
+
+  if (!webhookUrl) {
+    throw new Error(
+      "Missing required Discord configuration: DISCORD_WEBHOOK_URL",
+    );
+  }
+
+  validateWebhookUrl(webhookUrl);
+
+  const discord = {
+    webhookUrl,
+    ...loadDiscordDefaults(),
   };
+  validateTemplateFormat(discord, "DISCORD_TEMPLATE_FILE");
+
+  return discord;
+}
+
+/**
+ * Read raw feed definitions from FEEDS_CONFIG (inline JSON) or FEEDS_FILE
+ *
+ * @returns Feed definitions, or undefined when neither variable is set
+ * @throws Error if the JSON cannot be read or is not a non-empty array
+ */
+function readFeedDefinitions(): FeedDefinition[] | undefined {
+  const inlineConfig = process.env.FEEDS_CONFIG;
+  const feedsFile = inlineConfig ? undefined : process.env.FEEDS_FILE;
+
+  if (!inlineConfig && !feedsFile) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    const json = feedsFile
+      ? readFileSync(path.resolve(feedsFile), "utf-8")
+      : (inlineConfig as string);
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Invalid feeds configuration: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("Feeds configuration must be a non-empty JSON array");
+  }
+
+  for (const [index, entry] of parsed.entries()) {
+    if (
+      !entry ||
+      typeof entry !== "object" ||
+      typeof (entry as FeedDefinition).subreddit !== "string" ||
+      !(entry as FeedDefinition).subreddit
+    ) {
+      throw new Error(`Feed at index ${index} is missing a subreddit`);
+    }
+  }
+
+  return parsed as FeedDefinition[];
+}
+
+/**
+ * Build the feed list from feed definitions, or a single default feed
+ * from REDDIT_SUBREDDIT and DISCORD_WEBHOOK_URL
+ *
+ * @param definitions - Raw feed definitions (undefined for single-feed setup)
+ * @param reddit - Loaded Reddit configuration
+ * @returns Validated feed configurations
+ * @throws Error if a feed is invalid or feed names are duplicated
+ */
+function loadFeedsConfig(
+  definitions: FeedDefinition[] | undefined,
+  reddit: RedditConfig,
+): FeedConfig[] {
+  const defaultFilters = loadDefaultFilters();
+  const defaultTraction = loadDefaultTraction();
+  const defaultComments = loadDefaultComments();
+
+  if (!definitions) {
+    return [
+      {
+        name: DEFAULT_FEED_NAME,
+        subreddit: reddit.subreddit,
+        discord: loadDiscordConfig(),
+        filters: defaultFilters,
+        traction: defaultTraction,
+        comments: defaultComments,
+      },
+    ];
+  }
+
+  const defaults = loadDiscordDefaults();
+  const names = new Set<string>();
+
+  return definitions.map(({ name, subreddit, ...settings }) => {
+    const { filters, traction, listing, comments, templateFile, ...overrides } =
+      settings;
+    const feedName = name || subreddit;
+    if (names.has(feedName)) {
+      throw new Error(`Duplicate feed name: ${feedName}`);
+    }
+    names.add(feedName);
+
+    const webhookUrl = overrides.webhookUrl || process.env.DISCORD_WEBHOOK_URL;
+    if (!webhookUrl) {
+      throw new Error(`Feed ${feedName} is missing a webhookUrl`);
+    }
+    validateWebhookUrl(webhookUrl);
+
+    if (
+      overrides.messageFormat &&
+      !MESSAGE_FORMATS.includes(overrides.messageFormat)
+    ) {
+      throw new Error(
+        `Invalid messageFormat for feed ${feedName}: ${String(overrides.messageFormat)}. Must be 'embed', 'normal' or 'template'`,
+      );
+    }
+
+    if (templateFile !== undefined) {
+      overrides.templates = loadMessageTemplates(
+        templateFile,
+        `templateFile for feed ${feedName}`,
+      );
+    } else if (overrides.templates !== undefined) {
+      overrides.templates = validateMessageTemplates(
+        overrides.templates,
+        `templates for feed ${feedName}`,
+      );
+    }
+
+    if (overrides.tagMapping) {
+      validateTagMapping(overrides.tagMapping);
+    }
+
+    if (overrides.tagRules !== undefined) {
+      overrides.tagRules = validateTagRules(
+        overrides.tagRules,
+        `tagRules for feed ${feedName}`,
+      );
+    }
+
+    if (overrides.mentions !== undefined) {
+      overrides.mentions = validateMentionRules(
+        overrides.mentions,
+        `mentions for feed ${feedName}`,
+      );
+    }
+
+    if (overrides.nsfwPolicy !== undefined) {
+      validateSensitivePostPolicy(
+        overrides.nsfwPolicy,
+        `nsfwPolicy for feed ${feedName}`,
+      );
+    }
+
+    if (overrides.spoilerPolicy !== undefined) {
+      validateSensitivePostPolicy(
+        overrides.spoilerPolicy,
+        `spoilerPolicy for feed ${feedName}`,
+      );
+    }
+
+    if (
+      overrides.maxUploadBytes !== undefined &&
+      (typeof overrides.maxUploadBytes !== "number" ||
+        !(overrides.maxUploadBytes > 0))
+    ) {
+      throw new Error(
+        `Invalid maxUploadBytes for feed ${feedName}: must be a positive number`,
+      );
+    }
+
+    const discord = { ...defaults, ...overrides, webhookUrl };
+    validateTemplateFormat(
+      discord,
+      `templateFile or templates for feed ${feedName}, or DISCORD_TEMPLATE_FILE`,
+    );
+
+    return {
+      name: feedName,
+      subreddit,
+      discord,
+      filters:
+        filters !== undefined
+          ? validatePostFilters(filters, `filters for feed ${feedName}`)
+          : defaultFilters,
+      traction:
+        traction !== undefined
+          ? validateTraction(traction, `traction for feed ${feedName}`)
+          : defaultTraction,
+      listing:
+        listing !== undefined
+          ? validateListing(listing, `listing for feed ${feedName}`)
+          : undefined,
+      comments:
+        comments !== undefined
+          ? validateComments(comments, `comments for feed ${feedName}`)
+          : defaultComments,
+    };
+  });
 }
 
 /**
@@ -187,6 +1201,164 @@ function loadLoggingConfig(): LoggingConfig {
   };
 }
 
+/**
+ * Load and validate the storage retention policy
+ * A value of 0 turns a limit off
+ *
+ * @param feedWindow - Most posts a sync checks against storage across all feeds
+ * @returns Storage retention policy
+ */
+function loadStorageRetention(feedWindow: number): StorageRetention {
+  const maxAgeDays = parseInt(
+    process.env.STORAGE_RETENTION_DAYS || DEFAULT_VALUES.STORAGE_RETENTION_DAYS,
+    10,
+  );
+
+  if (isNaN(maxAgeDays) || maxAgeDays < 0) {
+    throw new Error("STORAGE_RETENTION_DAYS must be zero or more");
+  }
+
+  const maxEntries = parseInt(process.env.STORAGE_MAX_ENTRIES || "0", 10);
+
+  if (isNaN(maxEntries) || maxEntries < 0) {
+    throw new Error("STORAGE_MAX_ENTRIES must be zero or more");
+  }
+
+  // Forgetting posts still in the fetch window would send them again
+  if (maxEntries > 0 && maxEntries < feedWindow) {
+    throw new Error(
+      `STORAGE_MAX_ENTRIES must be at least ${feedWindow} (post limit × ${MAX_CATCH_UP_PAGES} catch-up pages for each new-post feed, post limit for each other feed)`,
+    );
+  }
+
+  return {
+    maxAgeDays: maxAgeDays > 0 ? maxAgeDays : undefined,
+    maxEntries: maxEntries > 0 ? maxEntries : undefined,
+  };
+}
+
+/**
+ * Load and validate outbox retry configuration
+ *
+ * @returns Outbox configuration object
+ */
+function loadOutboxConfig(): OutboxConfig {
+  const maxAttempts = parseInt(
+    process.env.OUTBOX_MAX_ATTEMPTS || DEFAULT_VALUES.OUTBOX_MAX_ATTEMPTS,
+    10,
+  );
+
+  if (isNaN(maxAttempts) || maxAttempts < 1) {
+    throw new Error("OUTBOX_MAX_ATTEMPTS must be a positive number");
+  }
+
+  const retryDelaySeconds = parseInt(
+    process.env.OUTBOX_RETRY_DELAY_SECONDS ||
+      DEFAULT_VALUES.OUTBOX_RETRY_DELAY_SECONDS,
+    10,
+  );
+
+  if (isNaN(retryDelaySeconds) || retryDelaySeconds < 0) {
+    throw new Error("OUTBOX_RETRY_DELAY_SECONDS must be zero or more");
+  }
+
+  return {
+    maxAttempts,
+    retryDelay: retryDelaySeconds * 1000,
+  };
+}
+
+/**
+ * Load and validate settings for editing sent messages
+ *
+ * @returns Refresh configuration object
+ */
+function loadRefreshConfig(): RefreshConfig {
+  const maxAgeHours = parseFloat(
+    process.env.REFRESH_MAX_AGE_HOURS || DEFAULT_VALUES.REFRESH_MAX_AGE_HOURS,
+  );
+
+  if (isNaN(maxAgeHours) || maxAgeHours <= 0) {
+    throw new Error("REFRESH_MAX_AGE_HOURS must be a positive number");
+  }
+
+  const changePercent = parseFloat(
+    process.env.REFRESH_CHANGE_PERCENT || DEFAULT_VALUES.REFRESH_CHANGE_PERCENT,
+  );
+
+  if (isNaN(changePercent) || changePercent < 0) {
+    throw new Error("REFRESH_CHANGE_PERCENT must be zero or more");
+  }
+
+  const minChange = parseInt(
+    process.env.REFRESH_MIN_CHANGE || DEFAULT_VALUES.REFRESH_MIN_CHANGE,
+    10,
+  );
+
+  if (isNaN(minChange) || minChange < 1) {
+    throw new Error("REFRESH_MIN_CHANGE must be a positive number");
+  }
+
+  const removedPostAction =
+    process.env.REMOVED_POST_ACTION || DEFAULT_VALUES.REMOVED_POST_ACTION;
+  if (!REMOVED_POST_ACTIONS.includes(removedPostAction as RemovedPostAction)) {
+    throw new Error(
+      `Invalid REMOVED_POST_ACTION: ${removedPostAction}. Must be one of: ${REMOVED_POST_ACTIONS.join(", ")}`,
+    );
+  }
+
+  if (removedPostAction === "archive" && !process.env.DISCORD_BOT_TOKEN) {
+    throw new Error(
+      "REMOVED_POST_ACTION=archive requires DISCORD_BOT_TOKEN to archive forum threads",
+    );
+  }
+
+  return {
+    enabled: process.env.REFRESH_ENABLED !== "false",
+    maxAge: maxAgeHours * 60 * 60 * 1000,
+    changePercent,
+    minChange,
+    removedPostAction: removedPostAction as RemovedPostAction,
+  };
+}
+
+/**
+ * Load and validate settings for skipping already forwarded content
+ *
+ * @returns Dedupe configuration object
+ */
+function loadDedupeConfig(): DedupeConfig {
+  const windowHours = parseFloat(
+    process.env.DEDUPE_WINDOW_HOURS || DEFAULT_VALUES.DEDUPE_WINDOW_HOURS,
+  );
+
+  if (isNaN(windowHours) || windowHours <= 0) {
+    throw new Error("DEDUPE_WINDOW_HOURS must be a positive number");
+  }
+
+  return {
+    enabled: process.env.DEDUPE_ENABLED === "true",
+    window: windowHours * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * Load and validate the order posts are sent in within a sync
+ *
+ * @returns Post order
+ */
+function loadPostOrder(): PostOrder {
+  const postOrder = process.env.POST_ORDER || DEFAULT_VALUES.POST_ORDER;
+
+  if (!POST_ORDERS.includes(postOrder as PostOrder)) {
+    throw new Error(
+      `Invalid POST_ORDER: ${postOrder}. Must be one of: ${POST_ORDERS.join(", ")}`,
+    );
+  }
+
+  return postOrder as PostOrder;
+}
+
 /**
  * Load and validate schedule configuration
  *
@@ -216,12 +1388,16 @@ function loadScheduleConfig(): ScheduleConfig {
 /**
  * Validate that all required environment variables are present
  *
+ * @param hasFeeds - Whether feeds are configured via FEEDS_CONFIG or FEEDS_FILE
  * @throws Error if any required environment variables are missing
  */
-function validateRequiredEnvVars(): void {
+function validateRequiredEnvVars(hasFeeds: boolean): void {
   const missingVars: string[] = [];
+  const requiredVars = hasFeeds
+    ? REQUIRED_ENV_VARS
+    : [...REQUIRED_ENV_VARS, ...SINGLE_FEED_ENV_VARS];
 
-  for (const varName of REQUIRED_ENV_VARS) {
+  for (const varName of requiredVars) {
     if (!process.env[varName]) {
       missingVars.push(varName);
     }
@@ -258,12 +1434,30 @@ export async function getConfig(): Promise<Result<Config>> {
   try {
     logger.info("Loading application configuration");
 
-    validateRequiredEnvVars();
+    const feedDefinitions = readFeedDefinitions();
+    validateRequiredEnvVars(feedDefinitions !== undefined);
 
-    const reddit = loadRedditConfig();
-    const discord = loadDiscordConfig();
+    const reddit = loadRedditConfig(feedDefinitions?.[0].subreddit);
+    const feeds = loadFeedsConfig(feedDefinitions, reddit);
+    const { discord } = feeds[0];
     const logging = loadLoggingConfig();
     const schedule = loadScheduleConfig();
+    const outbox = loadOutboxConfig();
+    const refresh = loadRefreshConfig();
+    const dedupe = loadDedupeConfig();
+    const postOrder = loadPostOrder();
+    // New-post feeds page back up to MAX_CATCH_UP_PAGES pages to their cursor
+    const storageRetention = loadStorageRetention(
+      feeds.reduce(
+        (total, feed) =>
+          total +
+          reddit.postLimit *
+            (!feed.listing || feed.listing.sort === "new"
+              ? MAX_CATCH_UP_PAGES
+              : 1),
+        0,
+      ),
+    );
     const environment = process.env.ENVIRONMENT || DEFAULT_VALUES.ENVIRONMENT;
     if (environment !== "development" && environment !== "production") {
       throw new Error(
@@ -271,8 +1465,19 @@ export async function getConfig(): Promise<Result<Config>> {
       );
     }
 
+    const storageBackend =
+      process.env.STORAGE_BACKEND || DEFAULT_VALUES.STORAGE_BACKEND;
+    if (storageBackend !== "json" && storageBackend !== "sqlite") {
+      throw new Error(
+        `Invalid STORAGE_BACKEND: ${storageBackend}. Must be 'json' or 'sqlite'.`,
+      );
+    }
+
     const storageFilePath = path.resolve(
-      process.env.STORAGE_FILE_PATH || DEFAULT_VALUES.STORAGE_FILE_PATH,
+      process.env.STORAGE_FILE_PATH ||
+        (storageBackend === "sqlite"
+          ? DEFAULT_VALUES.STORAGE_SQLITE_FILE_PATH
+          : DEFAULT_VALUES.STORAGE_FILE_PATH),
     );
 
     await ensureStorageDirectory(storageFilePath);
@@ -282,16 +1487,25 @@ export async function getConfig(): Promise<Result<Config>> {
       discord,
       logging,
       schedule,
+      feeds,
+      storageBackend,
       storageFilePath,
+      storageRetention,
+      outbox,
+      refresh,
+      dedupe,
+      postOrder,
       environment: environment as "development" | "production",
     };
 
     logger.info("Configuration loaded successfully", {
       environment: config.environment,
       subreddit: config.reddit.subreddit,
+      feeds: config.feeds.map((feed) => feed.name),
       postLimit: config.reddit.postLimit,
       logLevel: config.logging.level,
       cronExpression: config.schedule.cronExpression,
+      storageBackend: config.storageBackend,
       storageFilePath: config.storageFilePath,
     });
 
@@ -398,6 +1612,18 @@ export function validateConfig(config: Config): Result<boolean> {
       throw new Error("Discord webhook URL is invalid");
     }
 
+    if (!config.feeds || config.feeds.length === 0) {
+      throw new Error("At least one feed is required");
+    }
+
+    for (const feed of config.feeds) {
+      if (!feed.subreddit || !feed.discord.webhookUrl) {
+        throw new Error(
+          `Feed ${feed.name} requires a subreddit and webhook URL`,
+        );
+      }
+    }
+
     const validLogLevels = ["error", "warn", "info", "debug"];
     if (!validLogLevels.includes(config.logging.level)) {
       throw new Error("Invalid logging level");
@@ -448,8 +1674,28 @@ export function getConfigSummary(config: Config): Record<string, unknown> {
       defaultUsername: config.discord.defaultUsername,
       defaultAvatarUrl: config.discord.defaultAvatarUrl,
     },
+    feeds: config.feeds.map((feed) => ({
+      name: feed.name,
+      subreddit: feed.subreddit,
+      webhookUrl: feed.discord.webhookUrl ? "***set***" : "***missing***",
+      messageFormat: feed.discord.messageFormat,
+      nsfwPolicy: feed.discord.nsfwPolicy,
+      spoilerPolicy: feed.discord.spoilerPolicy,
+      uploadImages: feed.discord.uploadImages,
+      mentions: feed.discord.mentions,
+      filters: feed.filters,
+      traction: feed.traction,
+      comments: feed.comments,
+      listing: feed.listing,
+    })),
     logging: config.logging,
     schedule: config.schedule,
+    storageBackend: config.storageBackend,
     storageFilePath: config.storageFilePath,
+    storageRetention: config.storageRetention,
+    outbox: config.outbox,
+    refresh: config.refresh,
+    dedupe: config.dedupe,
+    postOrder: config.postOrder,
   };
 }
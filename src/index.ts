@@ -4,8 +4,14 @@
  */
 
 import { createServer, ServerResponse, IncomingMessage } from "http";
-import { loadConfig } from "./config/config";
+import { timingSafeEqual } from "crypto";
+import { loadConfig, DEFAULT_FEED_NAME } from "./config/config";
 import { RedditDiscordBot } from "./bot";
+import {
+  BackfillRequest,
+  parseBackfillDelay,
+  parseBackfillRequest,
+} from "./utils/backfill";
 import { logger } from "./utils/logger";
 
 /**
@@ -23,6 +29,11 @@ let healthServer: ReturnType<typeof createServer> | null = null;
  */
 let isShuttingDown = false;
 
+/**
+ * Largest request body accepted by the admin endpoints (in bytes)
+ */
+const MAX_BODY_SIZE = 10 * 1024;
+
 /**
  * Main application entry point
  * Loads configuration, initialises services, and starts the bot
@@ -58,7 +69,7 @@ async function main(): Promise<void> {
 
     logger.info("Tassie Reddit Bot started successfully", {
       healthPort: healthPort || "disabled",
-      subreddit: config.reddit.subreddit,
+      feeds: config.feeds.map((feed) => `${feed.name} (r/${feed.subreddit})`),
       schedule: config.schedule.cronExpression,
     });
 
@@ -87,8 +98,11 @@ async function startHealthServer(port: number): Promise<void> {
       healthServer = createServer(async (req, res) => {
         // Set CORS headers for web-based monitoring tools
         res.setHeader("Access-Control-Allow-Origin", "*");
-        res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
-        res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+        res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+        res.setHeader(
+          "Access-Control-Allow-Headers",
+          "Content-Type, Authorization",
+        );
         res.setHeader("Content-Type", "application/json");
 
         // Handle preflight requests
@@ -99,14 +113,17 @@ async function startHealthServer(port: number): Promise<void> {
         }
 
         try {
-          if (req.method !== "GET") {
+          const url = new URL(req.url || "/", `http://${req.headers.host}`);
+
+          // Only the backfill admin endpoint accepts POST requests
+          const isBackfillStart =
+            req.method === "POST" && url.pathname === "/admin/backfill";
+          if (req.method !== "GET" && !isBackfillStart) {
             res.writeHead(405, { "Content-Type": "application/json" });
             res.end(JSON.stringify({ error: "Method not allowed" }));
             return;
           }
 
-          const url = new URL(req.url || "/", `http://${req.headers.host}`);
-
           switch (url.pathname) {
             case "/health":
             case "/":
@@ -121,6 +138,14 @@ async function startHealthServer(port: number): Promise<void> {
               await handleStatsCheck(res);
               break;
 
+            case "/outbox/dead-letters":
+              await handleDeadLetters(res);
+              break;
+
+            case "/admin/backfill":
+              await handleBackfill(req, res);
+              break;
+
             case "/auth/callback":
               await handleOAuthCallback(req, res);
               break;
@@ -134,6 +159,8 @@ async function startHealthServer(port: number): Promise<void> {
                     "/health",
                     "/status",
                     "/stats",
+                    "/outbox/dead-letters",
+                    "/admin/backfill",
                     "/auth/callback",
                   ],
                 }),
@@ -213,6 +240,8 @@ async function handleHealthCheck(
           : null,
         lastError: health.lastError || null,
         services: health.services,
+        feeds: health.feeds,
+        outbox: health.outbox,
         timestamp: new Date().toISOString(),
       }),
     );
@@ -416,6 +445,199 @@ async function handleStatsCheck(
   }
 }
 
+/**
+ * Handle dead letters endpoint
+ * Lists posts that ran out of Discord send attempts
+ *
+ * @param res - HTTP response object
+ */
+async function handleDeadLetters(
+  res: ServerResponse<IncomingMessage>,
+): Promise<void> {
+  if (!botInstance) {
+    res.writeHead(503, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Bot not initialised",
+        timestamp: new Date().toISOString(),
+      }),
+    );
+    return;
+  }
+
+  try {
+    const deadLetters = await botInstance.getDeadLetters();
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        count: deadLetters.length,
+        deadLetters: deadLetters.map((item) => ({
+          feed: item.feed,
+          postId: item.post.id,
+          title: item.post.title,
+          permalink: item.post.permalink,
+          attempts: item.attempts,
+          lastError: item.lastError,
+          firstFailedAt: formatTimestamp(item.firstFailedAt),
+          deadLetteredAt: item.deadLetteredAt
+            ? formatTimestamp(item.deadLetteredAt)
+            : null,
+        })),
+        timestamp: new Date().toISOString(),
+      }),
+    );
+  } catch (error) {
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }),
+    );
+  }
+}
+
+/**
+ * Handle backfill admin endpoint
+ * GET reports the running or most recent backfill; POST starts a backfill in
+ * the background. Requests must send ADMIN_TOKEN as a bearer token, and the
+ * endpoint is disabled when ADMIN_TOKEN isn't set.
+ *
+ * @param req - HTTP request object
+ * @param res - HTTP response object
+ */
+async function handleBackfill(
+  req: IncomingMessage,
+  res: ServerResponse<IncomingMessage>,
+): Promise<void> {
+  const sendJson = (statusCode: number, body: Record<string, unknown>) => {
+    res.writeHead(statusCode, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ...body, timestamp: new Date().toISOString() }));
+  };
+
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    sendJson(403, {
+      error: "Admin endpoints are disabled - set ADMIN_TOKEN to enable them",
+    });
+    return;
+  }
+
+  if (!isAuthorised(req, adminToken)) {
+    sendJson(401, { error: "Unauthorised" });
+    return;
+  }
+
+  if (!botInstance) {
+    sendJson(503, { error: "Bot not initialised" });
+    return;
+  }
+
+  const status = await botInstance.getBackfillStatus();
+  if (req.method === "GET") {
+    sendJson(200, { ...status });
+    return;
+  }
+
+  if (status.running) {
+    sendJson(409, { error: "A backfill is already running", ...status });
+    return;
+  }
+
+  let request: BackfillRequest & { resume?: boolean };
+  try {
+    request = JSON.parse((await readBody(req)) || "{}");
+  } catch (error) {
+    sendJson(400, {
+      error: "Invalid request body",
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  const bot = botInstance;
+  let run: ReturnType<RedditDiscordBot["backfill"]>;
+  if (request.resume) {
+    const delayMs = parseBackfillDelay(request.delayMs);
+    if (delayMs === undefined) {
+      sendJson(400, { error: `Invalid delay: ${request.delayMs}` });
+      return;
+    }
+    if (!status.progress || status.progress.completedAt !== undefined) {
+      sendJson(409, { error: "There is no unfinished backfill to resume" });
+      return;
+    }
+
+    run = bot.resumeBackfill(delayMs);
+  } else {
+    const feeds = bot.getConfig().feeds ?? [];
+    const options = parseBackfillRequest(
+      request,
+      feeds[0]?.name ?? DEFAULT_FEED_NAME,
+    );
+    if (!options.success) {
+      sendJson(400, { error: options.error.message });
+      return;
+    }
+    if (!feeds.some((feed) => feed.name === options.data.feed)) {
+      sendJson(400, { error: `Unknown feed: ${options.data.feed}` });
+      return;
+    }
+
+    run = bot.backfill(options.data);
+  }
+
+  run
+    .then((result) => {
+      if (!result.success) {
+        logger.error("Backfill requested through the admin endpoint failed", {
+          error: result.error.message,
+          code: result.error.code,
+        });
+      }
+    })
+    .catch((error) => {
+      logger.error("Backfill requested through the admin endpoint failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+  sendJson(202, { status: "started" });
+}
+
+/**
+ * Check a request's bearer token against the admin token
+ *
+ * @param req - HTTP request object
+ * @param adminToken - Expected admin token
+ * @returns True if the request carries the admin token
+ */
+function isAuthorised(req: IncomingMessage, adminToken: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const token = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(adminToken);
+
+  return token.length === expected.length && timingSafeEqual(token, expected);
+}
+
+/**
+ * Read a request body
+ *
+ * @param req - HTTP request object
+ * @returns Promise resolving to the body text
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) {
+      throw new Error("Request body is too large");
+    }
+  }
+  return body;
+}
+
 /**
  * Format uptime milliseconds to human-readable string
  *
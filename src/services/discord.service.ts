@@ -6,13 +6,36 @@
 import axios, { AxiosInstance, AxiosResponse } from "axios";
 import {
   RedditPost,
+  RedditComment,
   DiscordConfig,
   DiscordWebhookPayload,
   DiscordEmbed,
+  DiscordMessageRef,
+  DiscordForumTag,
+  PostMediaType,
   Result,
   BotError,
 } from "../types";
 import { logger } from "../utils/logger";
+import { DiscordRateLimiter } from "../utils/rate-limiter";
+import { downloadImage } from "../utils/image-download";
+import {
+  CompiledMessageTemplates,
+  MessageTemplate,
+  TemplateContext,
+  compileMessageTemplates,
+} from "../utils/message-template";
+import { isSelfPost } from "../utils/post-filter";
+import { TagRules, tagMappingToRules } from "../utils/tag-rules";
+import {
+  formatMentions,
+  getAllowedMentions,
+  getPostMentions,
+} from "../utils/post-mentions";
+import {
+  getSensitiveLabel,
+  getSensitivePostPolicy,
+} from "../utils/sensitive-posts";
 
 /**
  * Discord colors for embed borders (hex to decimal conversion)
@@ -24,8 +47,92 @@ const DISCORD_COLORS = {
   QUESTION: 0xff6b6b, // Red for questions
   MEME: 0x9b59b6, // Purple for memes
   ANNOUNCEMENT: 0x27ae60, // Green for announcements
+  REMOVED: 0x99aab5, // Grey for removed posts
+} as const;
+
+/**
+ * Most gallery images shown per message
+ * Discord merges the images of up to four embeds that share a URL
+ */
+const MAX_GALLERY_IMAGES = 4;
+
+/**
+ * Most characters of a comment's text shown in a message
+ */
+const MAX_COMMENT_LENGTH = 1000;
+
+/**
+ * Discord's length limits for the message parts filled from templates
+ */
+const TEMPLATE_LIMITS = {
+  content: 2000,
+  title: 256,
+  description: 4096,
+  footer: 2048,
+  fieldName: 256,
+  fieldValue: 1024,
 } as const;
 
+/**
+ * Default upload limit for a message's files (Discord's limit for
+ * servers without boosts)
+ */
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * File uploaded with a webhook request
+ */
+interface WebhookFile {
+  /** File name, matching the payload's attachments */
+  name: string;
+  /** File contents */
+  data: Buffer;
+  /** MIME type of the file */
+  contentType: string;
+}
+
+/**
+ * Webhook request made with retries
+ */
+interface WebhookRequest {
+  /** HTTP method */
+  method: "post" | "patch" | "delete";
+  /** Request URL */
+  url: string;
+  /** Rate limit route the request counts against */
+  route: string;
+  /** Thread the message is in, when already known */
+  threadId?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Files uploaded with the request (sent as multipart form data) */
+  files?: WebhookFile[];
+}
+
+/**
+ * Thread settings changed through the channel API
+ */
+interface ThreadUpdate {
+  archived: boolean;
+  locked: boolean;
+}
+
+/**
+ * Channel object returned by Discord
+ */
+interface DiscordChannelResponse {
+  /** Tags of a forum channel (missing for other channels) */
+  available_tags?: DiscordForumTag[];
+}
+
+/**
+ * Message object returned by Discord
+ */
+interface DiscordMessageResponse {
+  id?: string;
+  channel_id?: string;
+}
+
 /**
  * Service class for sending messages to Discord via webhooks
  * Handles embed formatting, rate limiting, and retry logic
@@ -33,18 +140,36 @@ const DISCORD_COLORS = {
 export class DiscordService {
   private client: AxiosInstance;
   private config: DiscordConfig;
-  private lastRequestTime = 0;
-  private readonly rateLimitDelay = 1000; // 1 second between requests
+  private templates?: CompiledMessageTemplates;
+  private tagRules: TagRules;
+  private rateLimiter: DiscordRateLimiter;
   private readonly maxRetries = 3;
   private readonly baseRetryDelay = 1000; // Base delay for exponential backoff
+  private readonly maxRateLimitRetries = 5; // 429 retries allowed per request
+  private readonly maxRateLimitWait = 60000; // Give up if asked to wait longer
 
   /**
    * Initialise Discord service with configuration
    *
    * @param config - Discord webhook configuration
+   * @param rateLimiter - Rate limit tracker, shared when several services post to Discord
    */
-  constructor(config: DiscordConfig) {
+  constructor(
+    config: DiscordConfig,
+    rateLimiter: DiscordRateLimiter = new DiscordRateLimiter(),
+  ) {
     this.config = config;
+    this.rateLimiter = rateLimiter;
+    this.templates =
+      config.messageFormat === "template" && config.templates
+        ? compileMessageTemplates(config.templates)
+        : undefined;
+    // Flair mapping entries come first, so they keep their tag when more
+    // than five rules match
+    this.tagRules = new TagRules([
+      ...tagMappingToRules(config.tagMapping),
+      ...(config.tagRules ?? []),
+    ]);
 
     this.client = axios.create({
       timeout: 10000, // 10 second timeout
@@ -92,30 +217,17 @@ export class DiscordService {
    * Send a Reddit post to Discord (embed or normal message format)
    *
    * @param post - Reddit post to send
-   * @returns Promise resolving to Result indicating success or failure
+   * @returns Promise resolving to the created message's IDs
    */
-  async sendRedditPost(post: RedditPost): Promise<Result<boolean>> {
+  async sendRedditPost(post: RedditPost): Promise<Result<DiscordMessageRef>> {
     try {
-      await this.enforceRateLimit();
-
       const messageFormat = this.config.messageFormat || "embed";
-      let payload: DiscordWebhookPayload;
-
-      if (messageFormat === "normal") {
-        payload = this.formatRedditPostAsNormalMessage(post);
-      } else {
-        const embed = this.formatRedditPostAsEmbed(post);
-        payload = {
-          username: this.config.defaultUsername || "Reddit Bot",
-          avatar_url: this.config.defaultAvatarUrl,
-          embeds: [embed],
-        };
-      }
+      const payload = this.formatRedditPost(post);
 
       if (this.config.enableThreading && this.config.isForumChannel) {
         payload.thread_name = this.generateThreadName(post);
 
-        const appliedTags = this.mapFlairToDiscordTags(post);
+        const appliedTags = this.getAppliedTags(post);
         if (appliedTags.length > 0) {
           payload.applied_tags = appliedTags;
         }
@@ -128,7 +240,11 @@ export class DiscordService {
         });
       }
 
-      const result = await this.sendWithRetry(payload);
+      const files = await this.uploadEmbedImages(payload, post);
+      const result = await this.sendWithRetry(payload, {
+        ...this.getExecuteRequest(),
+        files,
+      });
 
       if (result.success) {
         logger.info("Successfully sent Reddit post to Discord", {
@@ -137,6 +253,8 @@ export class DiscordService {
           author: post.author,
           subreddit: post.subreddit,
           messageFormat,
+          messageId: result.data.messageId,
+          threadId: result.data.threadId,
         });
       }
 
@@ -168,6 +286,420 @@ export class DiscordService {
     }
   }
 
+  /**
+   * Edit a previously sent message to show the current state of a Reddit post
+   * Usernames, avatars and forum thread settings can't change after sending,
+   * so only the message content and embeds are replaced
+   *
+   * @param message - Message to edit, as returned by sendRedditPost
+   * @param post - Current version of the Reddit post
+   * @returns Promise resolving to the edited message's IDs
+   */
+  async editRedditPost(
+    message: DiscordMessageRef,
+    post: RedditPost,
+  ): Promise<Result<DiscordMessageRef>> {
+    const { content, embeds, allowed_mentions } = this.formatRedditPost(post);
+    const payload: DiscordWebhookPayload = {
+      content,
+      embeds,
+      allowed_mentions,
+    };
+    const files = await this.uploadEmbedImages(payload, post);
+    const result = await this.editMessage(message, payload, files);
+
+    if (result.success) {
+      logger.info("Updated Discord message for Reddit post", {
+        postId: post.id,
+        messageId: message.messageId,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace a previously sent message with a notice that its post was removed
+   * The post's text, links and images are dropped from the message
+   *
+   * @param message - Message to edit, as returned by sendRedditPost
+   * @param post - Removed Reddit post
+   * @param reason - Why the post is gone, e.g. "removed by the moderators of r/tasmania"
+   * @returns Promise resolving to the edited message's IDs
+   */
+  async markPostRemoved(
+    message: DiscordMessageRef,
+    post: RedditPost,
+    reason: string,
+  ): Promise<Result<DiscordMessageRef>> {
+    const result = await this.editMessage(message, {
+      content: "",
+      // Uploaded images are removed along with the rest of the post
+      ...(this.config.uploadImages && { attachments: [] }),
+      embeds: [
+        {
+          title: "🚫 Post no longer available",
+          url: post.permalink,
+          description: `This post was ${reason}.`,
+          color: DISCORD_COLORS.REMOVED,
+          timestamp: new Date(post.created_utc * 1000).toISOString(),
+        },
+      ],
+    });
+
+    if (result.success) {
+      logger.info("Marked Discord message as removed", {
+        postId: post.id,
+        messageId: message.messageId,
+        reason,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete a previously sent message
+   *
+   * @param message - Message to delete, as returned by sendRedditPost
+   * @returns Promise resolving to success/failure result
+   */
+  async deleteMessage(message: DiscordMessageRef): Promise<Result<void>> {
+    if (!message.messageId) {
+      return this.createMissingMessageIdError("delete");
+    }
+
+    const result = await this.sendWithRetry(
+      {},
+      {
+        method: "delete",
+        url: this.getMessageUrl(message.messageId, message.threadId),
+        route: `DELETE ${this.config.webhookUrl}/messages`,
+      },
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    logger.info("Deleted Discord message", { messageId: message.messageId });
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Archive and lock a forum thread
+   * Webhooks can't change channels, so this needs the configured bot token
+   *
+   * @param threadId - ID of the thread to archive
+   * @returns Promise resolving to success/failure result
+   */
+  async archiveThread(threadId: string): Promise<Result<void>> {
+    if (!this.config.botToken) {
+      return {
+        success: false,
+        error: {
+          message: "Archiving threads requires a Discord bot token",
+          code: "DISCORD_BOT_TOKEN_MISSING",
+          context: { threadId },
+        },
+      };
+    }
+
+    const url = new URL(
+      `/api/v10/channels/${threadId}`,
+      this.config.webhookUrl,
+    );
+    const result = await this.sendWithRetry(
+      { archived: true, locked: true },
+      {
+        method: "patch",
+        url: url.toString(),
+        route: `PATCH /channels/${threadId}`,
+        headers: { Authorization: `Bot ${this.config.botToken}` },
+      },
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    logger.info("Archived Discord thread", { threadId });
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Get the tags available in the webhook's forum channel
+   * Webhooks can't read channels, so this needs the configured bot token
+   *
+   * @returns Promise resolving to the channel's tags
+   */
+  async fetchForumTags(): Promise<Result<DiscordForumTag[]>> {
+    if (!this.config.botToken) {
+      return {
+        success: false,
+        error: {
+          message: "Reading forum tags requires a Discord bot token",
+          code: "DISCORD_BOT_TOKEN_MISSING",
+        },
+      };
+    }
+
+    try {
+      // The webhook object names the channel it posts to
+      const webhookUrl = new URL(this.config.webhookUrl);
+      webhookUrl.search = "";
+      const webhook = await this.client.get<{ channel_id?: string }>(
+        webhookUrl.toString(),
+      );
+      const channelId = webhook.data.channel_id;
+
+      const channel = await this.client.get<DiscordChannelResponse>(
+        new URL(`/api/v10/channels/${channelId}`, webhookUrl).toString(),
+        { headers: { Authorization: `Bot ${this.config.botToken}` } },
+      );
+      if (!channel.data.available_tags) {
+        return {
+          success: false,
+          error: {
+            message: `Discord channel ${channelId} is not a forum channel`,
+            code: "DISCORD_NOT_FORUM_CHANNEL",
+            context: { channelId },
+          },
+        };
+      }
+
+      const tags = channel.data.available_tags.map(({ id, name }) => ({
+        id,
+        name,
+      }));
+      logger.debug("Fetched Discord forum tags", {
+        channelId,
+        tagCount: tags.length,
+      });
+
+      return { success: true, data: tags };
+    } catch (error) {
+      const botError: BotError = {
+        message: "Failed to fetch Discord forum tags",
+        code: "DISCORD_FETCH_TAGS_ERROR",
+        originalError:
+          error instanceof Error ? error : new Error(String(error)),
+        context: {
+          webhookUrl: this.maskWebhookUrl(this.config.webhookUrl),
+          status: axios.isAxiosError(error)
+            ? error.response?.status
+            : undefined,
+        },
+      };
+
+      logger.error("Failed to fetch Discord forum tags", {
+        error: botError.message,
+        originalError: botError.originalError?.message,
+      });
+
+      return { success: false, error: botError };
+    }
+  }
+
+  /**
+   * Post a Reddit comment into a post's thread
+   * The comment is hidden behind spoilers when its post's content is
+   *
+   * @param threadId - ID of the post's thread
+   * @param comment - Comment to post
+   * @param post - Reddit post the comment belongs to
+   * @returns Promise resolving to the created message's IDs
+   */
+  async sendComment(
+    threadId: string,
+    comment: RedditComment,
+    post: RedditPost,
+  ): Promise<Result<DiscordMessageRef>> {
+    const result = await this.sendWithRetry(
+      this.formatComment(comment, post),
+      this.getExecuteRequest(threadId),
+    );
+
+    if (result.success) {
+      logger.debug("Posted Reddit comment in Discord thread", {
+        postId: post.id,
+        commentId: comment.id,
+        threadId,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the webhook payload for a Reddit comment in the configured format
+   *
+   * @param comment - Comment to format
+   * @param post - Reddit post the comment belongs to
+   * @returns Discord webhook payload
+   */
+  private formatComment(
+    comment: RedditComment,
+    post: RedditPost,
+  ): DiscordWebhookPayload {
+    const hidden = this.shouldHideContent(post);
+    const body =
+      comment.body.length > MAX_COMMENT_LENGTH
+        ? `${comment.body.substring(0, MAX_COMMENT_LENGTH)}...`
+        : comment.body;
+    const text = hidden ? `||${body}||` : body;
+    const payload: DiscordWebhookPayload = {
+      username: this.config.defaultUsername || "Reddit Bot",
+      avatar_url: this.config.defaultAvatarUrl,
+    };
+
+    if (this.config.messageFormat === "normal") {
+      payload.content =
+        `💬 **u/${comment.author}** • ⬆️ ${comment.score} • <${comment.permalink}>\n` +
+        text;
+      return payload;
+    }
+
+    payload.embeds = [
+      {
+        url: comment.permalink,
+        description: text,
+        color: DISCORD_COLORS.DEFAULT,
+        timestamp: new Date(comment.created_utc * 1000).toISOString(),
+        author: {
+          name: `u/${comment.author}`,
+          url: `https://reddit.com/u/${comment.author}`,
+        },
+        footer: {
+          text: `⬆️ ${comment.score} points`,
+        },
+      },
+    ];
+    return payload;
+  }
+
+  /**
+   * Replace the content of a previously sent message
+   *
+   * @param message - Message to edit
+   * @param payload - New content and embeds
+   * @param files - Files replacing the message's uploads, when uploading images
+   * @returns Promise resolving to the edited message's IDs
+   */
+  private async editMessage(
+    message: DiscordMessageRef,
+    payload: DiscordWebhookPayload,
+    files?: WebhookFile[],
+  ): Promise<Result<DiscordMessageRef>> {
+    if (!message.messageId) {
+      return this.createMissingMessageIdError("edit");
+    }
+
+    return await this.sendWithRetry(payload, {
+      method: "patch",
+      url: this.getMessageUrl(message.messageId, message.threadId),
+      route: `PATCH ${this.config.webhookUrl}/messages`,
+      threadId: message.threadId,
+      files,
+    });
+  }
+
+  /**
+   * Upload a payload's embed images to Discord instead of linking to them
+   * Each image is downloaded and referenced from its embed as an attachment,
+   * so it stays visible if the source deletes it or blocks hotlinking.
+   * Images that can't be downloaded, or that would take the message over the
+   * upload limit, keep their link.
+   *
+   * @param payload - Payload to attach the images to (changed in place)
+   * @param post - Reddit post the payload is for
+   * @returns Files to upload with the payload (empty unless uploading images)
+   */
+  private async uploadEmbedImages(
+    payload: DiscordWebhookPayload,
+    post: RedditPost,
+  ): Promise<WebhookFile[]> {
+    if (!this.config.uploadImages || !payload.embeds) {
+      return [];
+    }
+
+    const files: WebhookFile[] = [];
+    let remainingBytes = this.config.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+
+    for (const embed of payload.embeds) {
+      if (!embed.image) {
+        continue;
+      }
+
+      const result = await downloadImage(embed.image.url, remainingBytes);
+      if (!result.success) {
+        const details = {
+          postId: post.id,
+          imageUrl: embed.image.url,
+          reason: result.error.message,
+        };
+        if (result.error.code === "IMAGE_TOO_LARGE") {
+          logger.info(
+            "Image over the upload limit - linking it instead",
+            details,
+          );
+        } else {
+          logger.warn("Could not upload image - linking it instead", details);
+        }
+        continue;
+      }
+
+      const name = `image-${files.length}.${result.data.extension}`;
+      files.push({
+        name,
+        data: result.data.data,
+        contentType: result.data.contentType,
+      });
+      remainingBytes -= result.data.data.length;
+      embed.image = { url: `attachment://${name}` };
+    }
+
+    // Edits replace the message's earlier uploads with these
+    payload.attachments = files.map((file, id) => ({
+      id,
+      filename: file.name,
+    }));
+
+    return files;
+  }
+
+  /**
+   * Get the webhook URL of a sent message
+   *
+   * @param messageId - ID of the message
+   * @param threadId - Thread the message is in, if any
+   * @returns Message URL
+   */
+  private getMessageUrl(messageId: string, threadId?: string): string {
+    const url = new URL(this.config.webhookUrl);
+    url.pathname += `/messages/${messageId}`;
+    if (threadId) {
+      url.searchParams.set("thread_id", threadId);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Create the error for message actions attempted without a message ID
+   *
+   * @param action - Action that was attempted
+   * @returns Failed result
+   */
+  private createMissingMessageIdError(action: string): Result<never> {
+    return {
+      success: false,
+      error: {
+        message: `Cannot ${action} a Discord message without its ID`,
+        code: "DISCORD_MESSAGE_ID_MISSING",
+      },
+    };
+  }
+
   /**
    * Send multiple Reddit posts as Discord embeds
    *
@@ -230,6 +762,214 @@ export class DiscordService {
     }
   }
 
+  /**
+   * Build the webhook payload for a Reddit post in the configured message format
+   * Posts matching a mention rule mention its roles and users above the
+   * message, and only those mentions can ping
+   *
+   * @param post - Reddit post to format
+   * @returns Discord webhook payload
+   */
+  private formatRedditPost(post: RedditPost): DiscordWebhookPayload {
+    const payload = this.formatRedditPostBody(post);
+    const mentions = getPostMentions(post, this.config.mentions);
+    const mentionText = formatMentions(mentions);
+
+    if (mentionText) {
+      payload.content = payload.content
+        ? `${mentionText}\n${payload.content}`
+        : mentionText;
+    }
+    payload.allowed_mentions = getAllowedMentions(mentions);
+
+    return payload;
+  }
+
+  /**
+   * Build the content and embeds for a Reddit post in the configured message format
+   *
+   * @param post - Reddit post to format
+   * @returns Discord webhook payload (without mentions)
+   */
+  private formatRedditPostBody(post: RedditPost): DiscordWebhookPayload {
+    const displayed = this.withCrosspostContent(post);
+
+    // Hidden posts keep the built-in embed so templates can't leak their content
+    if (this.templates && !this.shouldHideContent(displayed)) {
+      const payload = this.formatRedditPostFromTemplates(
+        displayed,
+        this.templates,
+      );
+      if (payload.content || payload.embeds) {
+        return payload;
+      }
+
+      logger.warn("Message templates rendered an empty message", {
+        postId: post.id,
+      });
+    }
+
+    if (this.config.messageFormat === "normal") {
+      return this.formatRedditPostAsNormalMessage(displayed);
+    }
+
+    return {
+      username: this.config.defaultUsername || "Reddit Bot",
+      avatar_url: this.config.defaultAvatarUrl,
+      embeds: [
+        this.formatRedditPostAsEmbed(displayed),
+        ...this.formatGalleryEmbeds(displayed),
+      ],
+    };
+  }
+
+  /**
+   * Build the webhook payload for a Reddit post from the message templates
+   * The embed keeps the built-in colour, author, timestamp and media
+   *
+   * @param post - Reddit post to format
+   * @param templates - Compiled message templates
+   * @returns Discord webhook payload (without content or embeds if every
+   * template rendered empty)
+   */
+  private formatRedditPostFromTemplates(
+    post: RedditPost,
+    templates: CompiledMessageTemplates,
+  ): DiscordWebhookPayload {
+    const context = this.getTemplateContext(post);
+    const render = (
+      template: MessageTemplate | undefined,
+      limit: number,
+    ): string => {
+      const text = template?.render(context).trim() ?? "";
+      return text.length > limit ? `${text.substring(0, limit - 3)}...` : text;
+    };
+
+    const payload: DiscordWebhookPayload = {
+      username: this.config.defaultUsername || "Reddit Bot",
+      avatar_url: this.config.defaultAvatarUrl,
+    };
+
+    const content = render(templates.content, TEMPLATE_LIMITS.content);
+    if (content) {
+      payload.content = content;
+    }
+
+    const title = render(templates.title, TEMPLATE_LIMITS.title);
+    const description = render(
+      templates.description,
+      TEMPLATE_LIMITS.description,
+    );
+    const footer = render(templates.footer, TEMPLATE_LIMITS.footer);
+    // Discord rejects fields with an empty name or value
+    const fields = (templates.fields ?? [])
+      .map((field) => ({
+        name: render(field.name, TEMPLATE_LIMITS.fieldName),
+        value: render(field.value, TEMPLATE_LIMITS.fieldValue),
+        inline: field.inline,
+      }))
+      .filter((field) => field.name && field.value);
+
+    if (!title && !description && !footer && fields.length === 0) {
+      return payload;
+    }
+
+    const mediaInfo = this.getMediaInfo(post);
+    const embed: DiscordEmbed = {
+      url: post.permalink,
+      color: this.getEmbedColor(post.link_flair_text),
+      timestamp: new Date(post.created_utc * 1000).toISOString(),
+      author: {
+        name: `u/${post.author}`,
+        url: `https://reddit.com/u/${post.author}`,
+        icon_url:
+          "https://www.redditstatic.com/avatars/avatar_default_02_A5A4A4.png",
+      },
+      ...(title && { title }),
+      ...(description && { description }),
+      ...(footer && { footer: { text: footer } }),
+      ...(fields.length > 0 && { fields }),
+    };
+
+    if (mediaInfo.fullImage) {
+      embed.image = { url: mediaInfo.fullImage };
+    } else if (mediaInfo.thumbnail) {
+      embed.thumbnail = { url: mediaInfo.thumbnail };
+    }
+
+    payload.embeds = [embed, ...this.formatGalleryEmbeds(post)];
+    return payload;
+  }
+
+  /**
+   * Get the values message templates can use for a post
+   *
+   * @param post - Reddit post to format
+   * @returns Template values
+   */
+  private getTemplateContext(post: RedditPost): TemplateContext {
+    return {
+      title: post.title,
+      author: post.author,
+      subreddit: post.subreddit,
+      url: post.url,
+      permalink: post.permalink,
+      text: post.selftext ?? "",
+      flair: post.link_flair_text ?? "",
+      score: post.ups,
+      comments: post.num_comments,
+      created: post.created_utc,
+      nsfw: post.over_18 ?? false,
+      spoiler: post.spoiler ?? false,
+    };
+  }
+
+  /**
+   * Show a crosspost with its original post's text, link and media
+   * The crosspost itself only links to the original
+   *
+   * @param post - Reddit post to format
+   * @returns Post with the original's content, or the post itself if it isn't a crosspost
+   */
+  private withCrosspostContent(post: RedditPost): RedditPost {
+    const parent = post.crosspost_parent;
+    if (!parent) {
+      return post;
+    }
+
+    return {
+      ...post,
+      url: parent.url,
+      selftext: parent.selftext,
+      thumbnail: parent.thumbnail,
+      gallery: parent.gallery,
+      is_video: parent.is_video,
+      video: parent.video,
+    };
+  }
+
+  /**
+   * Check if a post's title, text and media should be hidden behind spoilers
+   * Posts the destination would skip are hidden too, in case they are
+   * edited after being marked NSFW or a spoiler
+   *
+   * @param post - Reddit post to format
+   * @returns True if the post is NSFW or a spoiler and not allowed as is
+   */
+  private shouldHideContent(post: RedditPost): boolean {
+    return getSensitivePostPolicy(post, this.config) !== "allow";
+  }
+
+  /**
+   * Format the line crediting a crosspost's original post
+   *
+   * @param parent - Original post
+   * @returns Crosspost credit line
+   */
+  private formatCrosspostLine(parent: RedditPost): string {
+    return `🔀 Crossposted from [r/${parent.subreddit}](${parent.permalink}) by u/${parent.author}`;
+  }
+
   /**
    * Format a Reddit post as a normal Discord message
    *
@@ -239,7 +979,8 @@ export class DiscordService {
   private formatRedditPostAsNormalMessage(
     post: RedditPost,
   ): DiscordWebhookPayload {
-    const mediaInfo = this.getMediaInfo(post);
+    const hidden = this.shouldHideContent(post);
+    const mediaInfo = hidden ? {} : this.getMediaInfo(post);
 
     let content = "";
 
@@ -247,21 +988,38 @@ export class DiscordService {
       content += `**[${post.link_flair_text}]** `;
     }
 
-    content += `**${post.title}**\n`;
+    content += hidden
+      ? `**⚠️ ${getSensitiveLabel(post)}:** ||${post.title}||\n`
+      : `**${post.title}**\n`;
     content += `🔗 <${post.permalink}>\n\n`;
 
+    if (post.crosspost_parent) {
+      content += `${this.formatCrosspostLine(post.crosspost_parent)}\n\n`;
+    }
+
     if (post.selftext) {
       const truncatedText =
         post.selftext.length > 800
           ? `${post.selftext.substring(0, 800)}...`
           : post.selftext;
-      content += `${truncatedText}\n\n`;
+      content += hidden ? `||${truncatedText}||\n\n` : `${truncatedText}\n\n`;
+    }
+
+    if (post.gallery?.length && !hidden) {
+      content += `${this.formatGalleryDescription(post)}\n\n`;
     }
 
     content += `📍 **r/${post.subreddit}** • 👤 **u/${post.author}**\n`;
     content += `👍 ${post.ups} upvotes • 💬 ${post.num_comments} comments`;
 
-    if (post.url !== post.permalink && !mediaInfo.fullImage) {
+    if (hidden && post.url !== post.permalink) {
+      // Angle brackets stop Discord from showing a preview of the link
+      content += `\n🔗 ||[External link](<${post.url}>)||`;
+    } else if (
+      post.url !== post.permalink &&
+      !mediaInfo.fullImage &&
+      !post.video
+    ) {
       content += `\n🔗 [External link](${post.url})`;
     }
 
@@ -271,7 +1029,16 @@ export class DiscordService {
       content,
     };
 
-    if (mediaInfo.fullImage) {
+    // Media links would be shown unblurred, so hidden posts leave them out
+    if (post.gallery?.length && !hidden) {
+      const imageUrls = post.gallery
+        .slice(0, MAX_GALLERY_IMAGES)
+        .map((item) => item.url);
+      payload.content += `\n\n${imageUrls.join("\n")}`;
+    } else if (post.video && !hidden) {
+      // Discord shows an inline player for the MP4 link
+      payload.content += `\n\n${this.formatVideoMarker(post)}\n${post.video.url}`;
+    } else if (mediaInfo.fullImage) {
       payload.content += `\n\n${mediaInfo.fullImage}`;
     }
 
@@ -286,6 +1053,7 @@ export class DiscordService {
    */
   private formatRedditPostAsEmbed(post: RedditPost): DiscordEmbed {
     const color = this.getEmbedColor(post.link_flair_text);
+    const hidden = this.shouldHideContent(post);
 
     let description = "";
     if (post.selftext) {
@@ -293,15 +1061,34 @@ export class DiscordService {
         post.selftext.length > 500
           ? `${post.selftext.substring(0, 500)}...`
           : post.selftext;
-    } else if (post.url !== post.permalink) {
+    } else if (post.video) {
+      description = `[${this.formatVideoMarker(post)}](${post.video.url})`;
+    } else if (post.url !== post.permalink && !post.gallery?.length) {
       description = `🔗 [Link to external content](${post.url})`;
     }
 
-    const mediaInfo = this.getMediaInfo(post);
+    if (post.gallery?.length && !hidden) {
+      const gallery = this.formatGalleryDescription(post);
+      description = description ? `${description}\n\n${gallery}` : gallery;
+    }
+
+    if (hidden) {
+      // Embed titles can't hold spoilers, so the title moves into the description
+      const title = `||${post.title}||`;
+      description = description ? `${title}\n\n||${description}||` : title;
+    }
+
+    if (post.crosspost_parent) {
+      const credit = this.formatCrosspostLine(post.crosspost_parent);
+      description = description ? `${credit}\n\n${description}` : credit;
+    }
+
+    const mediaInfo = hidden ? {} : this.getMediaInfo(post);
 
     const embed: DiscordEmbed = {
-      title:
-        post.title.length > 256
+      title: hidden
+        ? `⚠️ ${getSensitiveLabel(post)}`
+        : post.title.length > 256
           ? `${post.title.substring(0, 253)}...`
           : post.title,
       url: post.permalink,
@@ -339,6 +1126,77 @@ export class DiscordService {
     return embed;
   }
 
+  /**
+   * Format the extra embeds that show a gallery's second to fourth images
+   * They share the main embed's URL so Discord shows all images together
+   *
+   * @param post - Reddit post to format
+   * @returns Image-only embeds (empty unless the post is a gallery)
+   */
+  private formatGalleryEmbeds(post: RedditPost): DiscordEmbed[] {
+    if (this.shouldHideContent(post)) {
+      return [];
+    }
+
+    return (post.gallery ?? [])
+      .slice(1, MAX_GALLERY_IMAGES)
+      .map((item) => ({ url: post.permalink, image: { url: item.url } }));
+  }
+
+  /**
+   * Describe a gallery post's images and their captions
+   *
+   * @param post - Gallery post
+   * @returns Gallery summary with one line per captioned image shown
+   */
+  private formatGalleryDescription(post: RedditPost): string {
+    const gallery = post.gallery ?? [];
+    const lines = [
+      `🖼️ Gallery of ${gallery.length} image${gallery.length === 1 ? "" : "s"}`,
+    ];
+
+    gallery.slice(0, MAX_GALLERY_IMAGES).forEach((item, index) => {
+      if (item.caption) {
+        const caption =
+          item.caption.length > 200
+            ? `${item.caption.substring(0, 200)}...`
+            : item.caption;
+        lines.push(`**${index + 1}.** ${caption}`);
+      }
+    });
+
+    if (gallery.length > MAX_GALLERY_IMAGES) {
+      lines.push(
+        `[+${gallery.length - MAX_GALLERY_IMAGES} more on Reddit](${post.permalink})`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format the marker shown for a Reddit-hosted video, e.g. "▶ video (0:42)"
+   *
+   * @param post - Video post
+   * @returns Video marker
+   */
+  private formatVideoMarker(post: RedditPost): string {
+    const { video } = post;
+    let marker = `▶ ${video?.isGif ? "GIF" : "video"}`;
+
+    if (video?.duration) {
+      const totalSeconds = Math.round(video.duration);
+      const hours = Math.floor(totalSeconds / 3600);
+      const minutes = Math.floor((totalSeconds % 3600) / 60);
+      const seconds = String(totalSeconds % 60).padStart(2, "0");
+      marker += hours
+        ? ` (${hours}:${String(minutes).padStart(2, "0")}:${seconds})`
+        : ` (${minutes}:${seconds})`;
+    }
+
+    return marker;
+  }
+
   /**
    * Get embed colour based on post flair
    *
@@ -374,8 +1232,18 @@ export class DiscordService {
   } {
     const result: { fullImage?: string; thumbnail?: string } = {};
 
+    if (post.gallery?.length) {
+      result.fullImage = post.gallery[0].url;
+    } else if (post.video?.previewUrl) {
+      result.fullImage = post.video.previewUrl;
+    }
+
     // Only check external URLs for direct images (not Reddit permalinks)
-    if (post.url !== post.permalink && this.isDirectImageUrl(post.url)) {
+    if (
+      !result.fullImage &&
+      post.url !== post.permalink &&
+      this.isDirectImageUrl(post.url)
+    ) {
       result.fullImage = post.url;
       logger.debug("Using full-size image from post URL", {
         postId: post.id,
@@ -470,29 +1338,67 @@ export class DiscordService {
     }
   }
 
+  /**
+   * Get the request that executes the webhook
+   * Sent with wait=true so Discord returns the created message
+   *
+   * @param threadId - Thread to post in (defaults to the webhook URL's thread, if any)
+   * @returns Webhook execute request
+   */
+  private getExecuteRequest(threadId?: string): WebhookRequest {
+    const url = new URL(this.config.webhookUrl);
+    url.searchParams.set("wait", "true");
+    if (threadId) {
+      url.searchParams.set("thread_id", threadId);
+    }
+
+    return {
+      method: "post",
+      url: url.toString(),
+      route: this.config.webhookUrl,
+      threadId: url.searchParams.get("thread_id") ?? undefined,
+    };
+  }
+
   /**
    * Send webhook payload with retry logic and exponential backoff
+   * 429 responses wait for the rate limit to reset and do not use up an attempt
    *
    * @param payload - Discord webhook payload
-   * @returns Promise resolving to Result indicating success or failure
+   * @param request - Webhook request to make (defaults to executing the webhook)
+   * @returns Promise resolving to the IDs of the created or edited message
    */
   private async sendWithRetry(
-    payload: DiscordWebhookPayload,
-  ): Promise<Result<boolean>> {
+    payload: DiscordWebhookPayload | ThreadUpdate,
+    request: WebhookRequest = this.getExecuteRequest(),
+  ): Promise<Result<DiscordMessageRef>> {
     let lastError: Error | null = null;
+    let lastStatus: number | undefined;
+    let rateLimitRetries = 0;
+    const { route } = request;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
-        const response: AxiosResponse = await this.client.post(
-          this.config.webhookUrl,
-          payload,
-        );
+        await this.rateLimiter.acquire(route);
+
+        const response = await this.makeRequest(request, payload);
+
+        this.rateLimiter.update(route, response.headers);
 
         // Discord webhook success codes
         if (response.status >= 200 && response.status < 300) {
+          const message = response.data;
           return {
             success: true,
-            data: true,
+            data: {
+              messageId: message?.id,
+              // Messages that start a forum thread are posted in the new thread
+              threadId:
+                request.threadId ??
+                ("thread_name" in payload && payload.thread_name
+                  ? message?.channel_id
+                  : undefined),
+            },
           };
         }
 
@@ -502,6 +1408,42 @@ export class DiscordService {
 
         if (axios.isAxiosError(error) && error.response?.status) {
           const status = error.response.status;
+          lastStatus = status;
+
+          if (status === 429) {
+            const { retryAfter, global } = this.rateLimiter.handleRateLimited(
+              route,
+              error.response.headers,
+              error.response.data,
+            );
+
+            if (
+              rateLimitRetries < this.maxRateLimitRetries &&
+              retryAfter <= this.maxRateLimitWait
+            ) {
+              rateLimitRetries++;
+              logger.warn("Discord rate limit hit - waiting before retry", {
+                retryAfter,
+                global,
+                rateLimitRetries,
+                webhookUrl: this.maskWebhookUrl(this.config.webhookUrl),
+              });
+
+              // Rate limits are not failures, so this attempt is not counted
+              attempt--;
+              continue;
+            }
+
+            logger.error("Discord rate limit wait too long - giving up", {
+              retryAfter,
+              global,
+              rateLimitRetries,
+            });
+            break;
+          }
+
+          this.rateLimiter.update(route, error.response.headers);
+
           if (status >= 400 && status < 500) {
             logger.error("Discord webhook client error - not retrying", {
               status,
@@ -532,6 +1474,8 @@ export class DiscordService {
       originalError: lastError || new Error("Unknown error"),
       context: {
         maxRetries: this.maxRetries,
+        rateLimitRetries,
+        status: lastStatus,
         webhookUrl: this.maskWebhookUrl(this.config.webhookUrl),
       },
     };
@@ -542,6 +1486,51 @@ export class DiscordService {
     };
   }
 
+  /**
+   * Make a single webhook request
+   *
+   * @param request - Request to make
+   * @param payload - Request body (not sent for deletes)
+   * @returns Promise resolving to the response
+   */
+  private async makeRequest(
+    request: WebhookRequest,
+    payload: DiscordWebhookPayload | ThreadUpdate,
+  ): Promise<AxiosResponse<DiscordMessageResponse | undefined>> {
+    const options = request.headers ? { headers: request.headers } : undefined;
+
+    if (request.method === "delete") {
+      return await this.client.delete(request.url, options);
+    }
+
+    // Payloads that don't allow any mentions get none, so text copied from
+    // Reddit such as "@everyone" never pings anyone
+    const body =
+      "archived" in payload || payload.allowed_mentions
+        ? payload
+        : { ...payload, allowed_mentions: getAllowedMentions() };
+
+    if (request.files?.length) {
+      const form = new FormData();
+      form.append("payload_json", JSON.stringify(body));
+      request.files.forEach((file, index) => {
+        form.append(
+          `files[${index}]`,
+          new Blob([file.data], { type: file.contentType }),
+          file.name,
+        );
+      });
+
+      return await this.client[request.method](request.url, form, {
+        headers: { ...request.headers, "Content-Type": "multipart/form-data" },
+      });
+    }
+
+    return options
+      ? await this.client[request.method](request.url, body, options)
+      : await this.client[request.method](request.url, body);
+  }
+
   /**
    * Calculate retry delay with exponential backoff
    *
@@ -554,26 +1543,6 @@ export class DiscordService {
     return Math.min(exponentialDelay + jitter, 30000); // Cap at 30 seconds
   }
 
-  /**
-   * Enforce rate limiting to respect Discord's limits
-   * Discord allows 30 requests per minute for webhooks
-   */
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      const waitTime = this.rateLimitDelay - timeSinceLastRequest;
-      logger.debug("Rate limiting: waiting before Discord request", {
-        waitTime,
-      });
-
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
-    }
-
-    this.lastRequestTime = Date.now();
-  }
-
   /**
    * Mask webhook URL for logging (hide sensitive parts)
    *
@@ -656,11 +1625,12 @@ export class DiscordService {
 
       const result = await this.sendWithRetry(testPayload);
 
-      if (result.success) {
-        logger.info("Discord webhook connection test successful");
+      if (!result.success) {
+        return result;
       }
 
-      return result;
+      logger.info("Discord webhook connection test successful");
+      return { success: true, data: true };
     } catch (error) {
       const botError: BotError = {
         message: "Failed to test Discord webhook connection",
@@ -706,7 +1676,9 @@ export class DiscordService {
       threadName += `[${post.link_flair_text}] `;
     }
 
-    threadName += post.title;
+    threadName += this.shouldHideContent(post)
+      ? `⚠️ ${getSensitiveLabel(post)} post from r/${post.subreddit}`
+      : post.title;
 
     const maxLength = this.config.threadNameMaxLength || 80;
     if (threadName.length > maxLength) {
@@ -719,36 +1691,42 @@ export class DiscordService {
   }
 
   /**
-   * Map Reddit flair text to Discord tag IDs
-   * Uses the configured tag mapping to find matching Discord tags
+   * Get the Discord forum tags for a post's thread
+   * Uses the configured tag mapping and tag rules
    *
-   * @param post - Reddit post with potential flair
+   * @param post - Reddit post to tag
    * @returns Array of Discord tag IDs to apply (max 5)
    * @private
    */
-  private mapFlairToDiscordTags(post: RedditPost): string[] {
-    if (!this.config.tagMapping || !post.link_flair_text) {
-      return [];
-    }
-
-    const flairText = post.link_flair_text.trim();
-    const tagId = this.config.tagMapping[flairText];
+  private getAppliedTags(post: RedditPost): string[] {
+    const mediaType = this.getMediaType(post);
+    const tags = this.tagRules.getTags(post, mediaType);
 
-    if (tagId) {
-      logger.debug("Mapped Reddit flair to Discord tag", {
-        postId: post.id,
-        flairText,
-        tagId,
-      });
-      return [tagId];
-    }
-
-    logger.debug("No Discord tag mapping found for Reddit flair", {
+    logger.debug("Matched Discord tags for Reddit post", {
       postId: post.id,
-      flairText,
-      availableMappings: Object.keys(this.config.tagMapping),
+      flairText: post.link_flair_text,
+      mediaType,
+      tags,
     });
 
-    return [];
+    return tags;
+  }
+
+  /**
+   * Get the kind of content a post shares
+   *
+   * @param post - Reddit post
+   * @returns "video" for Reddit videos, "image" for galleries and direct
+   * image links, "text" for self posts and "link" for anything else
+   * @private
+   */
+  private getMediaType(post: RedditPost): PostMediaType {
+    if (post.video || post.is_video) {
+      return "video";
+    }
+    if (post.gallery?.length || this.isDirectImageUrl(post.url)) {
+      return "image";
+    }
+    return isSelfPost(post) ? "text" : "link";
   }
 }
@@ -4,9 +4,75 @@
  */
 
 import Snoowrap from "snoowrap";
-import { RedditPost, RedditConfig, Result, BotError } from "../types";
+import {
+  RedditPost,
+  RedditComment,
+  RedditConfig,
+  ListingConfig,
+  ListingCursor,
+  Result,
+  BotError,
+} from "../types";
 import { logger } from "../utils/logger";
 import { RedditOAuth2Manager } from "../utils/oauth";
+import {
+  RedditGalleryFields,
+  RedditVideoFields,
+  getGalleryItems,
+  getVideo,
+} from "../utils/reddit-media";
+import { MAX_CATCH_UP_PAGES, hasReachedCursor } from "../utils/listing-cursor";
+
+/**
+ * Original post embedded in a crosspost
+ * Unlike submissions, its author and subreddit are plain names
+ */
+interface CrosspostParentData extends RedditGalleryFields, RedditVideoFields {
+  id: string;
+  title: string;
+  author: string;
+  url: string;
+  selftext?: string;
+  permalink: string;
+  thumbnail?: string;
+  link_flair_text?: string | null;
+  ups: number;
+  num_comments: number;
+  created_utc: number;
+  subreddit: string;
+  removed_by_category?: string | null;
+  over_18?: boolean;
+  spoiler?: boolean;
+  is_self?: boolean;
+}
+
+/**
+ * Crosspost fields of a raw Reddit submission
+ */
+interface CrosspostFields {
+  crosspost_parent_list?: CrosspostParentData[];
+}
+
+/**
+ * Listing used when a feed doesn't configure one
+ */
+const DEFAULT_LISTING: ListingConfig = { sort: "new" };
+
+/**
+ * Most pages of the new listing fetched for a time range
+ * Reddit stops listings at about 1000 posts
+ */
+const MAX_RANGE_PAGES = 10;
+
+/**
+ * Posts per page when fetching a time range (Reddit's maximum)
+ */
+const RANGE_PAGE_SIZE = 100;
+
+/**
+ * Bodies Reddit gives comments that were deleted or removed
+ */
+const DELETED_COMMENT_BODIES = ["[deleted]", "[removed]"];
 
 /**
  * Service class for interacting with the Reddit API
@@ -66,12 +132,22 @@ export class RedditService {
   }
 
   /**
-   * Fetch new posts from the configured subreddit
+   * Fetch posts from a subreddit listing, new posts by default
+   * With a cursor, the new listing is paged back until it reaches the
+   * cursor's post so bursts of posts between syncs aren't missed
    *
-   * @param limit - Maximum number of posts to fetch (defaults to config value)
+   * @param limit - Maximum number of posts per page (defaults to config value)
+   * @param subredditName - Subreddit to fetch from (defaults to config value)
+   * @param listing - Listing to fetch (defaults to new posts)
+   * @param cursor - Newest post seen on an earlier sync (new listing only)
    * @returns Promise resolving to Result with array of RedditPost objects
    */
-  async fetchNewPosts(limit?: number): Promise<Result<RedditPost[]>> {
+  async fetchNewPosts(
+    limit?: number,
+    subredditName: string = this.config.subreddit,
+    listing: ListingConfig = DEFAULT_LISTING,
+    cursor?: ListingCursor,
+  ): Promise<Result<RedditPost[]>> {
     try {
       await this.enforceRateLimit();
 
@@ -90,19 +166,33 @@ export class RedditService {
       const postLimit = limit ?? this.config.postLimit;
 
       logger.debug("Fetching posts from Reddit", {
-        subreddit: this.config.subreddit,
+        subreddit: subredditName,
+        listing: listing.sort,
         limit: postLimit,
       });
 
-      const subreddit = this.client!.getSubreddit(this.config.subreddit);
-      const submissions = await subreddit.getNew({ limit: postLimit });
+      const submissions = await this.getListing(
+        subredditName,
+        listing,
+        postLimit,
+      );
 
-      const posts: RedditPost[] = submissions.map((submission) =>
+      let posts: RedditPost[] = submissions.map((submission) =>
         this.convertToRedditPost(submission),
       );
 
+      if (cursor && listing.sort === "new") {
+        posts = await this.catchUpToCursor(
+          subredditName,
+          posts,
+          postLimit,
+          cursor,
+        );
+      }
+
       logger.info("Successfully fetched Reddit posts", {
-        subreddit: this.config.subreddit,
+        subreddit: subredditName,
+        listing: listing.sort,
         postCount: posts.length,
       });
 
@@ -112,19 +202,438 @@ export class RedditService {
       };
     } catch (error) {
       const botError: BotError = {
-        message: `Failed to fetch posts from r/${this.config.subreddit}`,
+        message: `Failed to fetch posts from r/${subredditName}`,
         code: "REDDIT_FETCH_ERROR",
         originalError:
           error instanceof Error ? error : new Error(String(error)),
         context: {
-          subreddit: this.config.subreddit,
+          subreddit: subredditName,
+          listing: listing.sort,
           limit: limit ?? this.config.postLimit,
         },
       };
 
       logger.error("Failed to fetch Reddit posts", {
         error: botError.message,
-        subreddit: this.config.subreddit,
+        subreddit: subredditName,
+        originalError: botError.originalError?.message,
+      });
+
+      return {
+        success: false,
+        error: botError,
+      };
+    }
+  }
+
+  /**
+   * Fetch the submissions of a listing
+   *
+   * @param subredditName - Subreddit to fetch from (or search in)
+   * @param listing - Listing to fetch
+   * @param limit - Maximum number of posts to fetch
+   * @returns Promise resolving to the listing's submissions
+   * @private
+   */
+  private async getListing(
+    subredditName: string,
+    listing: ListingConfig,
+    limit: number,
+  ): Promise<Snoowrap.Submission[]> {
+    const subreddit = this.client!.getSubreddit(subredditName);
+    const { time } = listing;
+
+    switch (listing.sort) {
+      case "hot":
+        return await subreddit.getHot({ limit });
+      case "rising":
+        return await subreddit.getRising({ limit });
+      case "top":
+        return await subreddit.getTop({ limit, time });
+      case "controversial":
+        return await subreddit.getControversial({ limit, time });
+      case "search":
+        return await this.client!.search({
+          query: listing.query ?? "",
+          subreddit: subredditName,
+          restrictSr: listing.restrictSr ?? true,
+          sort: listing.searchSort,
+          time,
+          limit,
+        });
+      default:
+        return await subreddit.getNew({ limit });
+    }
+  }
+
+  /**
+   * Page back through the new listing until it reaches a cursor
+   * Stops after MAX_CATCH_UP_PAGES pages and warns that posts may have been
+   * missed if the cursor still wasn't reached
+   *
+   * @param subredditName - Subreddit to fetch from
+   * @param firstPage - Posts from the first page, newest first
+   * @param limit - Maximum number of posts per page
+   * @param cursor - Newest post seen on an earlier sync
+   * @returns Promise resolving to the posts from every page, newest first
+   * @private
+   */
+  private async catchUpToCursor(
+    subredditName: string,
+    firstPage: RedditPost[],
+    limit: number,
+    cursor: ListingCursor,
+  ): Promise<RedditPost[]> {
+    const subreddit = this.client!.getSubreddit(subredditName);
+    const posts = [...firstPage];
+    let page = firstPage;
+    let pages = 1;
+
+    while (
+      page.length === limit &&
+      !hasReachedCursor(page, cursor) &&
+      pages < MAX_CATCH_UP_PAGES
+    ) {
+      await this.enforceRateLimit();
+      const after = `t3_${page[page.length - 1].id}`;
+      const submissions = await subreddit.getNew({ limit, after });
+      page = submissions.map((submission) =>
+        this.convertToRedditPost(submission),
+      );
+      posts.push(...page);
+      pages++;
+    }
+
+    if (!hasReachedCursor(posts, cursor)) {
+      logger.warn(
+        "Could not page back to the last seen post - some posts may have been missed",
+        {
+          subreddit: subredditName,
+          cursor: cursor.fullname,
+          pages,
+          postCount: posts.length,
+        },
+      );
+    } else if (pages > 1) {
+      logger.info("Paged back to the last seen post", {
+        subreddit: subredditName,
+        pages,
+        postCount: posts.length,
+      });
+    }
+
+    return posts;
+  }
+
+  /**
+   * Fetch the current version of specific posts
+   * Posts that no longer exist are left out of the result
+   *
+   * @param postIds - Reddit post IDs (without the t3_ prefix)
+   * @returns Promise resolving to Result with the posts found
+   */
+  async fetchPostsByIds(postIds: string[]): Promise<Result<RedditPost[]>> {
+    if (postIds.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    try {
+      await this.enforceRateLimit();
+
+      const tokenResult = await this.oauthManager.getValidAccessToken();
+      if (!tokenResult.success) {
+        return {
+          success: false,
+          error: tokenResult.error,
+        };
+      }
+
+      this.initializeClient(tokenResult.data);
+
+      const posts: RedditPost[] = [];
+
+      // Reddit returns at most 100 items per lookup
+      for (let start = 0; start < postIds.length; start += 100) {
+        const fullnames = postIds
+          .slice(start, start + 100)
+          .map((postId) => `t3_${postId}`);
+        const submissions = await this.client!.getContentByIds(fullnames);
+
+        posts.push(
+          ...submissions.map((submission) =>
+            this.convertToRedditPost(submission as Snoowrap.Submission),
+          ),
+        );
+      }
+
+      logger.debug("Fetched Reddit posts by ID", {
+        requested: postIds.length,
+        found: posts.length,
+      });
+
+      return {
+        success: true,
+        data: posts,
+      };
+    } catch (error) {
+      const botError: BotError = {
+        message: "Failed to fetch Reddit posts by ID",
+        code: "REDDIT_FETCH_ERROR",
+        originalError:
+          error instanceof Error ? error : new Error(String(error)),
+        context: {
+          postIds: postIds.length,
+        },
+      };
+
+      logger.error("Failed to fetch Reddit posts by ID", {
+        error: botError.message,
+        originalError: botError.originalError?.message,
+      });
+
+      return {
+        success: false,
+        error: botError,
+      };
+    }
+  }
+
+  /**
+   * Fetch posts created within a time range
+   * Reddit listings can't be queried by date, so the new listing is paged
+   * back until it passes the start of the range. Reddit keeps about 1000
+   * posts per listing, so older posts of busy subreddits can't be reached.
+   *
+   * @param subredditName - Subreddit to fetch from
+   * @param from - Start of the range (Unix timestamp in milliseconds)
+   * @param to - End of the range (Unix timestamp in milliseconds)
+   * @returns Promise resolving to Result with the posts in the range, newest first
+   */
+  async fetchPostsInRange(
+    subredditName: string,
+    from: number,
+    to: number,
+  ): Promise<Result<RedditPost[]>> {
+    try {
+      const tokenResult = await this.oauthManager.getValidAccessToken();
+      if (!tokenResult.success) {
+        return {
+          success: false,
+          error: tokenResult.error,
+        };
+      }
+
+      this.initializeClient(tokenResult.data);
+
+      const subreddit = this.client!.getSubreddit(subredditName);
+      const posts: RedditPost[] = [];
+      let after: string | undefined;
+      let pages = 0;
+      let reachedStart = false;
+
+      while (!reachedStart && pages < MAX_RANGE_PAGES) {
+        await this.enforceRateLimit();
+        const submissions = await subreddit.getNew({
+          limit: RANGE_PAGE_SIZE,
+          ...(after ? { after } : {}),
+        });
+        const page = submissions.map((submission) =>
+          this.convertToRedditPost(submission),
+        );
+        pages++;
+
+        posts.push(
+          ...page.filter(
+            (post) =>
+              post.created_utc * 1000 >= from && post.created_utc * 1000 <= to,
+          ),
+        );
+
+        reachedStart =
+          page.length < RANGE_PAGE_SIZE ||
+          page[page.length - 1].created_utc * 1000 < from;
+        after = page.length > 0 ? `t3_${page[page.length - 1].id}` : after;
+      }
+
+      if (!reachedStart) {
+        logger.warn(
+          "Could not page back to the start of the time range - older posts are out of reach",
+          {
+            subreddit: subredditName,
+            from: new Date(from).toISOString(),
+            pages,
+            postCount: posts.length,
+          },
+        );
+      }
+
+      logger.info("Fetched Reddit posts in time range", {
+        subreddit: subredditName,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        pages,
+        postCount: posts.length,
+      });
+
+      return {
+        success: true,
+        data: posts,
+      };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to fetch posts in time range from r/${subredditName}`,
+        code: "REDDIT_FETCH_ERROR",
+        originalError:
+          error instanceof Error ? error : new Error(String(error)),
+        context: {
+          subreddit: subredditName,
+          from,
+          to,
+        },
+      };
+
+      logger.error("Failed to fetch Reddit posts in time range", {
+        error: botError.message,
+        subreddit: subredditName,
+        originalError: botError.originalError?.message,
+      });
+
+      return {
+        success: false,
+        error: botError,
+      };
+    }
+  }
+
+  /**
+   * Fetch the top-level comments of a post, highest score first
+   * Stickied comments and comments that were deleted or removed are left out
+   *
+   * @param postId - Reddit post ID (without the t3_ prefix)
+   * @param limit - Maximum number of comments to request
+   * @returns Promise resolving to Result with the comments
+   */
+  async fetchTopComments(
+    postId: string,
+    limit: number,
+  ): Promise<Result<RedditComment[]>> {
+    try {
+      await this.enforceRateLimit();
+
+      const tokenResult = await this.oauthManager.getValidAccessToken();
+      if (!tokenResult.success) {
+        return {
+          success: false,
+          error: tokenResult.error,
+        };
+      }
+
+      this.initializeClient(tokenResult.data);
+
+      // The comments endpoint returns the post listing then the comment listing
+      const [, comments] = (await this.client!.oauthRequest({
+        uri: `comments/${postId}`,
+        qs: { sort: "top", limit, depth: 1 },
+      })) as [unknown, Snoowrap.Comment[]];
+
+      const topComments = comments
+        .filter(
+          (comment) =>
+            !comment.stickied &&
+            !DELETED_COMMENT_BODIES.includes(comment.body) &&
+            comment.author.name !== "[deleted]",
+        )
+        .map((comment) => this.convertToRedditComment(comment))
+        .sort((a, b) => b.score - a.score);
+
+      logger.debug("Fetched top Reddit comments", {
+        postId,
+        commentCount: topComments.length,
+      });
+
+      return {
+        success: true,
+        data: topComments,
+      };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to fetch comments for post ${postId}`,
+        code: "REDDIT_FETCH_ERROR",
+        originalError:
+          error instanceof Error ? error : new Error(String(error)),
+        context: {
+          postId,
+        },
+      };
+
+      logger.error("Failed to fetch Reddit comments", {
+        error: botError.message,
+        postId,
+        originalError: botError.originalError?.message,
+      });
+
+      return {
+        success: false,
+        error: botError,
+      };
+    }
+  }
+
+  /**
+   * Fetch the link flairs users can choose for posts in a subreddit
+   *
+   * @param subredditName - Subreddit to read (defaults to config value)
+   * @returns Promise resolving to the flair texts, in the subreddit's order
+   */
+  async fetchLinkFlairs(
+    subredditName: string = this.config.subreddit,
+  ): Promise<Result<string[]>> {
+    try {
+      await this.enforceRateLimit();
+
+      const tokenResult = await this.oauthManager.getValidAccessToken();
+      if (!tokenResult.success) {
+        return {
+          success: false,
+          error: tokenResult.error,
+        };
+      }
+
+      this.initializeClient(tokenResult.data);
+
+      const templates =
+        await this.client!.getSubreddit(subredditName).getLinkFlairTemplates();
+      const flairs = [
+        ...new Set(
+          templates
+            .map((template) => template.flair_text.trim())
+            .filter(Boolean),
+        ),
+      ];
+
+      logger.debug("Fetched Reddit link flairs", {
+        subreddit: subredditName,
+        flairCount: flairs.length,
+      });
+
+      return {
+        success: true,
+        data: flairs,
+      };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to fetch link flairs from r/${subredditName}`,
+        code: "REDDIT_FETCH_ERROR",
+        originalError:
+          error instanceof Error ? error : new Error(String(error)),
+        context: {
+          subreddit: subredditName,
+        },
+      };
+
+      logger.error("Failed to fetch Reddit link flairs", {
+        error: botError.message,
+        subreddit: subredditName,
         originalError: botError.originalError?.message,
       });
 
@@ -205,6 +714,69 @@ export class RedditService {
       num_comments: submission.num_comments,
       created_utc: submission.created_utc,
       subreddit: submission.subreddit.display_name,
+      removed_by_category: submission.removed_by_category || undefined,
+      gallery: getGalleryItems(submission as RedditGalleryFields),
+      is_video: submission.is_video,
+      video: getVideo(submission as RedditVideoFields),
+      crosspost_parent: this.convertCrosspostParent(
+        (submission as CrosspostFields).crosspost_parent_list?.[0],
+      ),
+      over_18: submission.over_18,
+      spoiler: submission.spoiler,
+      is_self: submission.is_self,
+    };
+  }
+
+  /**
+   * Convert snoowrap Comment to our RedditComment interface
+   *
+   * @param comment - Snoowrap comment object
+   * @returns RedditComment object
+   */
+  private convertToRedditComment(comment: Snoowrap.Comment): RedditComment {
+    return {
+      id: comment.id,
+      author: comment.author.name,
+      body: comment.body,
+      score: comment.score,
+      permalink: `https://reddit.com${comment.permalink}`,
+      created_utc: comment.created_utc,
+    };
+  }
+
+  /**
+   * Convert the original post embedded in a crosspost
+   *
+   * @param parent - First entry of the crosspost's crosspost_parent_list
+   * @returns RedditPost object, or undefined if the post isn't a crosspost
+   */
+  private convertCrosspostParent(
+    parent: CrosspostParentData | undefined,
+  ): RedditPost | undefined {
+    if (!parent) {
+      return undefined;
+    }
+
+    return {
+      id: parent.id,
+      title: parent.title,
+      author: parent.author,
+      url: parent.url,
+      selftext: parent.selftext || "",
+      permalink: `https://reddit.com${parent.permalink}`,
+      thumbnail: parent.thumbnail || "",
+      link_flair_text: parent.link_flair_text || null,
+      ups: parent.ups,
+      num_comments: parent.num_comments,
+      created_utc: parent.created_utc,
+      subreddit: parent.subreddit,
+      removed_by_category: parent.removed_by_category || undefined,
+      gallery: getGalleryItems(parent),
+      is_video: parent.is_video,
+      video: getVideo(parent),
+      over_18: parent.over_18,
+      spoiler: parent.spoiler,
+      is_self: parent.is_self,
     };
   }
 
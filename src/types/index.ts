@@ -30,6 +30,64 @@ export interface RedditPost {
   created_utc: number;
   /** Name of the subreddit (without r/ prefix) */
   subreddit: string;
+  /** Why the post was removed (e.g. "moderator", "deleted"), missing if it wasn't */
+  removed_by_category?: string;
+  /** Images of a gallery post in gallery order, missing for other posts */
+  gallery?: RedditGalleryItem[];
+  /** Whether the post is a video hosted on v.redd.it */
+  is_video?: boolean;
+  /** Reddit-hosted video or GIF, missing for other posts */
+  video?: RedditVideo;
+  /** Original post of a crosspost, missing for other posts */
+  crosspost_parent?: RedditPost;
+  /** Whether the post is marked NSFW */
+  over_18?: boolean;
+  /** Whether the post is marked as a spoiler */
+  spoiler?: boolean;
+  /** Whether the post is a text post rather than a link */
+  is_self?: boolean;
+}
+
+/**
+ * Represents a comment on a Reddit post
+ */
+export interface RedditComment {
+  /** Unique identifier for the comment */
+  id: string;
+  /** Username of the comment author */
+  author: string;
+  /** Markdown text of the comment */
+  body: string;
+  /** Comment score */
+  score: number;
+  /** Full URL of the comment */
+  permalink: string;
+  /** Unix timestamp when the comment was created */
+  created_utc: number;
+}
+
+/**
+ * Video or GIF hosted by Reddit
+ */
+export interface RedditVideo {
+  /** Directly playable MP4 URL (without sound) */
+  url: string;
+  /** Length in seconds */
+  duration?: number;
+  /** Whether the video is a GIF converted by Reddit */
+  isGif: boolean;
+  /** Preview frame image URL */
+  previewUrl?: string;
+}
+
+/**
+ * Image in a Reddit gallery post
+ */
+export interface RedditGalleryItem {
+  /** Full-size image URL */
+  url: string;
+  /** Caption set by the poster */
+  caption?: string;
 }
 
 /**
@@ -108,6 +166,16 @@ export interface DiscordEmbed {
   fields?: DiscordEmbedField[];
 }
 
+/**
+ * File uploaded with a webhook message
+ */
+export interface DiscordAttachment {
+  /** Index of the file in the multipart request */
+  id: number;
+  /** File name, referenced from embeds as attachment://<filename> */
+  filename: string;
+}
+
 /**
  * Discord webhook payload structure
  */
@@ -126,6 +194,43 @@ export interface DiscordWebhookPayload {
   thread_name?: string;
   /** Array of tag IDs to apply to forum channel threads (max 5) */
   applied_tags?: string[];
+  /** Files uploaded with the message; on edits, replaces the message's files */
+  attachments?: DiscordAttachment[];
+  /** Mentions in the content that may ping */
+  allowed_mentions?: DiscordAllowedMentions;
+}
+
+/**
+ * Mentions Discord may turn into pings
+ * Mentions that aren't allowed are shown without pinging anyone
+ */
+export interface DiscordAllowedMentions {
+  /** Kinds of mention allowed wherever they appear (empty to allow none) */
+  parse: ("roles" | "users" | "everyone")[];
+  /** IDs of roles that may be pinged */
+  roles?: string[];
+  /** IDs of users that may be pinged */
+  users?: string[];
+}
+
+/**
+ * Tag available in a Discord forum channel
+ */
+export interface DiscordForumTag {
+  /** Tag ID, as used in applied_tags */
+  id: string;
+  /** Tag name shown in Discord */
+  name: string;
+}
+
+/**
+ * Discord message created by a webhook send
+ */
+export interface DiscordMessageRef {
+  /** ID of the message (missing if Discord did not return the message) */
+  messageId?: string;
+  /** ID of the thread the message was posted in, if any */
+  threadId?: string;
 }
 
 /**
@@ -154,8 +259,35 @@ export interface RedditConfig {
 
 /**
  * Discord message format options
+ * - embed: rich cards
+ * - normal: plain messages
+ * - template: embeds and content built from user-defined templates
  */
-export type DiscordMessageFormat = "embed" | "normal";
+export type DiscordMessageFormat = "embed" | "normal" | "template";
+
+/**
+ * User-defined templates for the parts of a Discord message
+ * Parts without a template are left out of the message
+ */
+export interface MessageTemplates {
+  /** Message content (text above the embed) */
+  content?: string;
+  /** Embed title */
+  title?: string;
+  /** Embed description */
+  description?: string;
+  /** Embed footer text */
+  footer?: string;
+  /** Embed fields */
+  fields?: {
+    /** Field name */
+    name: string;
+    /** Field value */
+    value: string;
+    /** Whether the field displays inline with others */
+    inline?: boolean;
+  }[];
+}
 
 /**
  * Discord webhook configuration
@@ -163,8 +295,10 @@ export type DiscordMessageFormat = "embed" | "normal";
 export interface DiscordConfig {
   /** Discord webhook URL */
   webhookUrl: string;
-  /** Message format: 'embed' (rich cards) or 'normal' (plain messages) */
+  /** Message format: 'embed' (rich cards), 'normal' (plain messages) or 'template' */
   messageFormat?: DiscordMessageFormat;
+  /** Templates for the 'template' message format */
+  templates?: MessageTemplates;
   /** Default username for webhook messages */
   defaultUsername?: string;
   /** Default avatar URL for webhook messages */
@@ -185,6 +319,200 @@ export interface DiscordConfig {
   threadNameMaxLength?: number;
   /** Mapping of Reddit flair text to Discord tag IDs */
   tagMapping?: Record<string, string>;
+  /** Rules adding Discord forum tags to each post's thread */
+  tagRules?: TagRule[];
+  /** Bot token used for channel actions webhooks can't perform (archiving threads) */
+  botToken?: string;
+  /** How posts marked NSFW are forwarded */
+  nsfwPolicy?: SensitivePostPolicy;
+  /** How posts marked as spoilers are forwarded */
+  spoilerPolicy?: SensitivePostPolicy;
+  /** Upload embed images to Discord instead of linking to their source */
+  uploadImages?: boolean;
+  /** Largest total size of a message's uploaded images in bytes */
+  maxUploadBytes?: number;
+  /** Roles and users mentioned in messages for matching posts */
+  mentions?: MentionRule[];
+}
+
+/**
+ * Kind of content a Reddit post shares
+ */
+export type PostMediaType = "image" | "video" | "link" | "text";
+
+/**
+ * Forum tag applied to posts that match every condition of the rule
+ * A rule needs at least one condition; list conditions match any of their values
+ */
+export interface TagRule {
+  /** ID of the Discord forum tag to apply */
+  tag: string;
+  /** Post flairs that match (ignoring case) */
+  flairs?: string[];
+  /** Regular expression the flair must match (ignoring case) */
+  flairPattern?: string;
+  /** Words or phrases in the title that match (ignoring case) */
+  keywords?: string[];
+  /** Kinds of post that match */
+  mediaTypes?: PostMediaType[];
+  /** Lowest score that matches */
+  minScore?: number;
+  /** Highest score that matches */
+  maxScore?: number;
+}
+
+/**
+ * Roles and users to mention when a post has one of the flairs or keywords
+ */
+export interface MentionRule {
+  /** Post flairs that trigger the mentions (ignoring case) */
+  flairs?: string[];
+  /** Words or phrases in the title or text that trigger the mentions (ignoring case) */
+  keywords?: string[];
+  /** IDs of Discord roles to mention */
+  roles?: string[];
+  /** IDs of Discord users to mention */
+  users?: string[];
+}
+
+/**
+ * How a destination receives NSFW or spoiler posts
+ * - skip: don't forward the post
+ * - spoiler: hide the title and text behind Discord spoilers and leave out images
+ * - allow: forward the post like any other
+ */
+export type SensitivePostPolicy = "skip" | "spoiler" | "allow";
+
+/**
+ * A feed pairs a monitored subreddit with its own Discord destination
+ */
+export interface FeedConfig {
+  /** Unique feed name used in logs, stats and storage keys */
+  name: string;
+  /** Subreddit to monitor (without r/ prefix) */
+  subreddit: string;
+  /** Discord destination, message format, thread prefix and tag mapping */
+  discord: DiscordConfig;
+  /** Rules deciding which of the subreddit's posts are forwarded */
+  filters?: PostFilterConfig;
+  /** Thresholds posts must reach before they are forwarded */
+  traction?: TractionConfig;
+  /** Reddit listing posts are fetched from (defaults to new posts) */
+  listing?: ListingConfig;
+  /** Top comments posted into each post's forum thread */
+  comments?: CommentsConfig;
+}
+
+/**
+ * Reddit listing a feed's posts are fetched from
+ */
+export interface ListingConfig {
+  /** Subreddit listing, or a Reddit search */
+  sort: ListingSort;
+  /** Time range for top, controversial and search listings */
+  time?: ListingTime;
+  /** Search query (search only) */
+  query?: string;
+  /** Order of search results (search only, defaults to relevance) */
+  searchSort?: SearchSort;
+  /** Only search the feed's subreddit rather than all of Reddit (search only, defaults to true) */
+  restrictSr?: boolean;
+}
+
+/**
+ * Subreddit listings, plus "search" for a Reddit search
+ */
+export type ListingSort =
+  | "new"
+  | "hot"
+  | "rising"
+  | "top"
+  | "controversial"
+  | "search";
+
+/**
+ * Time range of a top, controversial or search listing
+ */
+export type ListingTime = "hour" | "day" | "week" | "month" | "year" | "all";
+
+/**
+ * Order of Reddit search results
+ */
+export type SearchSort = "relevance" | "hot" | "top" | "new" | "comments";
+
+/**
+ * Thresholds a post must reach before it is forwarded
+ * Posts below the thresholds wait in the pending queue and are re-checked
+ * on every sync until they reach them or expire
+ */
+export interface TractionConfig {
+  /** Score a post needs before it is forwarded */
+  minScore?: number;
+  /** Number of comments a post needs before it is forwarded */
+  minComments?: number;
+  /** Posts that don't reach the thresholds within this age are dropped (milliseconds) */
+  maxAge: number;
+}
+
+/**
+ * Settings for posting a post's top comments into its forum thread
+ */
+export interface CommentsConfig {
+  /** Number of top comments posted whatever their score, and most posted per check */
+  count: number;
+  /** Wait after sending before the first follow-up, and between later checks (milliseconds) */
+  delay: number;
+  /** Score a comment needs to be appended once the top comments are posted */
+  minScore: number;
+  /** Stop checking a post's comments this long after it was sent (milliseconds) */
+  maxAge: number;
+}
+
+/**
+ * Declarative rules deciding which posts a feed forwards
+ * Each include rule that is set lets through only posts matching one of its
+ * values; each exclude rule rejects posts matching any of its values.
+ * Text comparisons ignore case.
+ */
+export interface PostFilterConfig {
+  /** Only forward posts with one of these flairs */
+  includeFlairs?: string[];
+  /** Reject posts with any of these flairs */
+  excludeFlairs?: string[];
+  /** Only forward posts whose title or text contains one of these words */
+  includeKeywords?: string[];
+  /** Reject posts whose title or text contains any of these words */
+  excludeKeywords?: string[];
+  /** Only forward posts whose title or text matches one of these regular expressions */
+  includePatterns?: string[];
+  /** Reject posts whose title or text matches any of these regular expressions */
+  excludePatterns?: string[];
+  /** Only forward posts by these authors */
+  includeAuthors?: string[];
+  /** Reject posts by these authors */
+  excludeAuthors?: string[];
+  /** Only forward links to these domains (subdomains included) */
+  includeDomains?: string[];
+  /** Reject links to these domains (subdomains included) */
+  excludeDomains?: string[];
+  /** Reject posts with a lower score */
+  minScore?: number;
+  /** Reject posts with fewer comments */
+  minComments?: number;
+  /** Reject posts older than this many hours */
+  maxAgeHours?: number;
+  /** Only forward text posts ("self") or link posts ("link") */
+  postType?: "self" | "link";
+}
+
+/**
+ * Filter rule that rejected a post
+ */
+export interface FilterRejection {
+  /** Name of the rule, e.g. "excludeKeywords" */
+  rule: keyof PostFilterConfig;
+  /** What the post had that broke the rule */
+  detail: string;
 }
 
 /**
@@ -223,20 +551,36 @@ export interface Config {
   logging: LoggingConfig;
   /** Scheduling configuration */
   schedule: ScheduleConfig;
+  /** Feeds to synchronise, each routed to its own Discord destination */
+  feeds: FeedConfig[];
+  /** Storage implementation used for tracking posted IDs */
+  storageBackend: StorageBackend;
   /** Path to storage file for tracking posted IDs */
   storageFilePath: string;
+  /** Retention policy for tracked posts */
+  storageRetention: StorageRetention;
+  /** Retry settings for posts that failed to send */
+  outbox: OutboxConfig;
+  /** Settings for editing sent messages when their Reddit post changes */
+  refresh: RefreshConfig;
+  /** Settings for skipping content that was already forwarded */
+  dedupe: DedupeConfig;
+  /** Order each sync sends its posts in */
+  postOrder: PostOrder;
   /** Environment (development, production) */
   environment: "development" | "production";
 }
 
 /**
- * Structure for storing posted Reddit post IDs and metadata
+ * Structure for storing posted Reddit posts and metadata
  */
 export interface StorageData {
-  /** Set of Reddit post IDs that have already been posted to Discord */
-  postedIds: string[];
+  /** Posts that have already been sent to Discord, oldest first */
+  posts: PostRecord[];
   /** Timestamp of last successful check */
   lastCheck?: number;
+  /** Newest post seen by each feed, keyed by feed name */
+  cursors?: Record<string, ListingCursor>;
   /** Version of the storage format for future migrations */
   version: number;
   /** Additional metadata for debugging/monitoring */
@@ -250,6 +594,313 @@ export interface StorageData {
   };
 }
 
+/**
+ * Newest post a feed has seen in its subreddit's new listing
+ * Used to page back through posts that arrived since the last sync
+ */
+export interface ListingCursor {
+  /** Fullname of the post (t3_ prefixed ID) */
+  fullname: string;
+  /** Creation time of the post (seconds since the epoch) */
+  createdUtc: number;
+}
+
+/**
+ * Available storage implementations
+ */
+export type StorageBackend = "json" | "sqlite";
+
+/**
+ * A post that has been sent to Discord
+ */
+export interface PostRecord {
+  /** Storage key of the post (Reddit post ID, scoped by feed) */
+  postId: string;
+  /** Subreddit the post came from */
+  subreddit?: string;
+  /** Timestamp when the post was sent */
+  sentAt: number;
+  /** Discord message ID of the sent post */
+  messageId?: string;
+  /** Discord thread ID the post was sent to (forum posts) */
+  threadId?: string;
+  /** Name of the feed whose destination received the post */
+  destination?: string;
+  /** Post fields as last shown in the Discord message */
+  snapshot?: PostSnapshot;
+  /** Timestamp when the post's removal from Reddit was handled */
+  removedAt?: number;
+  /** Reddit post ID of the original post (the parent for crossposts) */
+  sourceId?: string;
+  /** Normalised external link of the post, missing for self posts */
+  url?: string;
+  /** IDs of the Reddit comments posted into the post's thread */
+  commentIds?: string[];
+  /** Timestamp when the post's comments were last checked */
+  commentsCheckedAt?: number;
+}
+
+/**
+ * Content of a post used to recognise the same content posted again
+ */
+export type PostContent = Pick<PostRecord, "sourceId" | "url">;
+
+/**
+ * Fields of a Reddit post shown in its Discord message
+ * Compared against the live post to decide whether the message needs editing
+ */
+export interface PostSnapshot {
+  /** Post title */
+  title: string;
+  /** Post flair text */
+  flair: string | null;
+  /** Number of upvotes */
+  score: number;
+  /** Number of comments */
+  numComments: number;
+}
+
+/**
+ * Details recorded alongside a sent post ID
+ */
+export type PostRecordDetails = Partial<Omit<PostRecord, "postId">>;
+
+/**
+ * Persistent store of posts already sent to Discord
+ * Implemented by the JSON file storage and the SQLite storage
+ */
+export interface PostStore {
+  /** Load or create the store */
+  load(): Promise<Result<unknown>>;
+  /** Check if a post ID has already been sent */
+  hasPostId(postId: string): Promise<boolean>;
+  /** Record a sent post ID */
+  addPostId(postId: string, details?: PostRecordDetails): Promise<Result<void>>;
+  /** Record several sent post IDs at once */
+  addPostIds(postIds: string[]): Promise<Result<void>>;
+  /** Record several sent posts with their details */
+  addPostRecords(records: PostRecord[]): Promise<Result<void>>;
+  /** Get all sent post IDs */
+  getPostedIds(): Promise<string[]>;
+  /** Get sent posts with a Discord message ID sent at or after a time, oldest first */
+  getRecentPostRecords(since: number): Promise<PostRecord[]>;
+  /** Get posts sent at or after a time with the same original post or link */
+  findPostRecordsByContent(
+    since: number,
+    content: PostContent,
+  ): Promise<PostRecord[]>;
+  /** Update the details of a sent post */
+  updatePostRecord(
+    postId: string,
+    details: PostRecordDetails,
+  ): Promise<Result<void>>;
+  /** Get storage statistics */
+  getStats(): Promise<StorageData["metadata"]>;
+  /** Add posts counted elsewhere to the total processed, e.g. on import */
+  addToTotalProcessed(count: number): Promise<Result<void>>;
+  /** Remove all sent post IDs */
+  clear(): Promise<Result<void>>;
+  /** Update the last check timestamp */
+  updateLastCheck(): Promise<Result<void>>;
+  /** Get the last check timestamp */
+  getLastCheck(): Promise<number | undefined>;
+  /** Get the newest post a feed has seen */
+  getCursor(feed: string): Promise<ListingCursor | undefined>;
+  /** Record the newest post a feed has seen */
+  updateCursor(feed: string, cursor: ListingCursor): Promise<Result<void>>;
+  /** Release any resources held by the store */
+  close(): Promise<void>;
+}
+
+/**
+ * Version 1 storage format, which kept bare post IDs without timestamps
+ */
+export interface StorageDataV1 extends Omit<StorageData, "posts"> {
+  /** Reddit post IDs that have already been posted to Discord */
+  postedIds: string[];
+}
+
+/**
+ * Upgrade of the storage file format from one version to the next
+ */
+export interface StorageMigration {
+  /** Version the migration upgrades from */
+  fromVersion: number;
+  /** Version the migration produces */
+  toVersion: number;
+  /** Short description used when reporting migrations */
+  description: string;
+  /** Transform data in the fromVersion format to the toVersion format */
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Record of a storage migration that was applied
+ */
+export type AppliedMigration = Omit<StorageMigration, "migrate">;
+
+/**
+ * Retention policy limiting how many sent posts are remembered
+ */
+export interface StorageRetention {
+  /** Forget posts sent more than this many days ago */
+  maxAgeDays?: number;
+  /** Keep at most this many of the most recent posts */
+  maxEntries?: number;
+}
+
+/**
+ * Order posts are sent in within a sync, by creation time
+ */
+export type PostOrder = "oldest" | "newest";
+
+/**
+ * Settings for skipping crossposts and links that were already forwarded
+ */
+export interface DedupeConfig {
+  /** Whether duplicates are skipped */
+  enabled: boolean;
+  /** How long forwarded content counts as a duplicate, in milliseconds */
+  window: number;
+}
+
+/**
+ * Settings for keeping sent Discord messages in sync with their Reddit posts
+ */
+export interface RefreshConfig {
+  /** Whether sent messages are edited when their Reddit post changes */
+  enabled: boolean;
+  /** Messages sent longer ago than this are no longer refreshed (milliseconds) */
+  maxAge: number;
+  /** Relative change in score or comments that triggers an edit (percent) */
+  changePercent: number;
+  /** Smallest change in score or comments that triggers an edit */
+  minChange: number;
+  /** What to do with the message when its Reddit post is removed */
+  removedPostAction: RemovedPostAction;
+}
+
+/**
+ * How a sent message is handled once its Reddit post is removed or deleted
+ * - none: leave the message as it is
+ * - stub: replace the message with a short removal notice
+ * - delete: delete the message
+ * - archive: replace the message with a notice and archive its forum thread
+ */
+export type RemovedPostAction = "none" | "stub" | "delete" | "archive";
+
+/**
+ * Retry settings for the outbox of failed Discord sends
+ */
+export interface OutboxConfig {
+  /** Send attempts before a post is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds (doubles each attempt) */
+  retryDelay: number;
+}
+
+/**
+ * A post waiting in the outbox to be resent to Discord
+ */
+export interface OutboxItem {
+  /** Storage key of the post (scoped by feed) */
+  key: string;
+  /** Name of the feed the post belongs to */
+  feed: string;
+  /** The Reddit post to resend */
+  post: RedditPost;
+  /** Number of failed send attempts */
+  attempts: number;
+  /** Timestamp of the first failed attempt */
+  firstFailedAt: number;
+  /** Timestamp after which the next attempt may be made */
+  nextAttemptAt: number;
+  /** Error message from the most recent attempt */
+  lastError: string;
+  /** Timestamp when the post was dead-lettered */
+  deadLetteredAt?: number;
+}
+
+/**
+ * Structure of the outbox file
+ */
+export interface OutboxData {
+  /** Posts waiting to be retried */
+  pending: OutboxItem[];
+  /** Posts that ran out of attempts */
+  deadLetters: OutboxItem[];
+  /** Version of the outbox format for future migrations */
+  version: number;
+}
+
+/**
+ * A post waiting in the pending queue to reach its feed's traction thresholds
+ */
+export interface PendingPost {
+  /** Storage key of the post (scoped by feed) */
+  key: string;
+  /** Name of the feed the post belongs to */
+  feed: string;
+  /** The Reddit post as last checked */
+  post: RedditPost;
+  /** Timestamp when the post was queued */
+  queuedAt: number;
+  /** Timestamp of the most recent check */
+  lastCheckedAt: number;
+}
+
+/**
+ * Structure of the pending queue file
+ */
+export interface PendingQueueData {
+  /** Posts waiting to reach their feed's thresholds */
+  pending: PendingPost[];
+  /** Version of the pending queue format for future migrations */
+  version: number;
+}
+
+/**
+ * Options for forwarding a feed's historical posts
+ */
+export interface BackfillOptions {
+  /** Name of the feed to backfill */
+  feed: string;
+  /** Start of the time range (Unix timestamp in milliseconds) */
+  from: number;
+  /** End of the time range (Unix timestamp in milliseconds) */
+  to: number;
+  /** Delay between Discord messages in milliseconds */
+  delayMs: number;
+}
+
+/**
+ * Progress of a backfill, saved as its checkpoint after every post
+ */
+export interface BackfillProgress {
+  /** Name of the feed being backfilled */
+  feed: string;
+  /** Start of the time range (Unix timestamp in milliseconds) */
+  from: number;
+  /** End of the time range (Unix timestamp in milliseconds) */
+  to: number;
+  /** Number of posts found in the time range */
+  found: number;
+  /** Number of posts sent to Discord */
+  sent: number;
+  /** Number of posts that failed to send (left to the outbox) */
+  failed: number;
+  /** Number of posts skipped as already sent, filtered or duplicated */
+  skipped: number;
+  /** Creation time of the last post handled (seconds since the epoch) */
+  processedThrough?: number;
+  /** Timestamp when the backfill started */
+  startedAt: number;
+  /** Timestamp of the latest progress */
+  updatedAt: number;
+  /** Timestamp when the backfill finished */
+  completedAt?: number;
+}
+
 /**
  * Error types for better error handling
  */
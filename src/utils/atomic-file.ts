@@ -0,0 +1,81 @@
+/**
+ * Crash-safe file writing
+ * Writes go to a temporary file that is flushed to disk and renamed over the target,
+ * so readers only ever see the old or the new contents
+ */
+
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Options for atomic writes
+ */
+interface AtomicWriteOptions {
+  /** Copy the current file here before replacing it */
+  backupPath?: string;
+}
+
+/**
+ * Write a file atomically
+ * The content is written to a temporary file beside the target, fsynced,
+ * and renamed into place. The directory is fsynced so the rename survives a crash.
+ *
+ * @param filePath - File to write
+ * @param content - UTF-8 content to write
+ * @param options - Write options
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+  options: AtomicWriteOptions = {},
+): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+
+  try {
+    const handle = await fs.open(tempPath, "w");
+    try {
+      await handle.writeFile(content, "utf-8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    if (options.backupPath) {
+      try {
+        await fs.copyFile(filePath, options.backupPath);
+      } catch (error) {
+        // Nothing to back up on the first write
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+    }
+
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  await syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Flush a directory entry to disk
+ * Not supported on every platform, so failures are ignored
+ *
+ * @param dirPath - Directory to sync
+ */
+async function syncDirectory(dirPath: string): Promise<void> {
+  try {
+    const handle = await fs.open(dirPath, "r");
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Directory fsync is best-effort (unsupported on Windows)
+  }
+}
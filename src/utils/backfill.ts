@@ -0,0 +1,232 @@
+/**
+ * Backfill helpers
+ * Parses backfill requests and persists backfill checkpoints next to the
+ * storage file so an interrupted backfill resumes where it stopped
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { BackfillOptions, BackfillProgress, BotError, Result } from "../types";
+import { writeFileAtomic } from "./atomic-file";
+
+/**
+ * Default delay between Discord messages sent by a backfill
+ */
+export const DEFAULT_BACKFILL_DELAY_MS = 2000;
+
+/**
+ * Units accepted in relative times such as "7d", in milliseconds
+ */
+const RELATIVE_TIME_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Backfill request as received from the command line or admin endpoint
+ */
+export interface BackfillRequest {
+  /** Feed name (defaults to the first feed) */
+  feed?: string;
+  /** Start of the time range */
+  from?: string | number;
+  /** End of the time range (defaults to now) */
+  to?: string | number;
+  /** Delay between Discord messages in milliseconds */
+  delayMs?: string | number;
+}
+
+/**
+ * Get the backfill checkpoint file path for a storage file
+ * The checkpoint sits beside the storage file, e.g. data/posted-ids.backfill.json
+ *
+ * @param storageFilePath - Path to the storage file
+ * @returns Path to the backfill checkpoint JSON file
+ */
+export function getBackfillCheckpointFilePath(storageFilePath: string): string {
+  const parsed = path.parse(path.resolve(storageFilePath));
+  return path.join(parsed.dir, `${parsed.name}.backfill.json`);
+}
+
+/**
+ * Parse a backfill time
+ * Accepts Unix timestamps in milliseconds, ISO 8601 dates, and times
+ * relative to now such as "30m", "12h", "7d" or "2w"
+ *
+ * @param value - Time to parse
+ * @param now - Current timestamp in milliseconds
+ * @returns Timestamp in milliseconds, or undefined if the value is invalid
+ */
+export function parseBackfillTime(
+  value: string | number,
+  now: number = Date.now(),
+): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  const trimmed = value.trim();
+  const relative = /^(\d+)([mhdw])$/.exec(trimmed);
+  if (relative) {
+    return now - parseInt(relative[1], 10) * RELATIVE_TIME_UNITS[relative[2]];
+  }
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  const timestamp = Date.parse(trimmed);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * Parse the delay between a backfill's Discord messages
+ *
+ * @param delayMs - Delay in milliseconds, as a number or string
+ * @returns Delay in milliseconds (the default when not given), or undefined
+ * if it isn't a whole number of zero or more
+ */
+export function parseBackfillDelay(
+  delayMs: string | number | undefined,
+): number | undefined {
+  const delay =
+    delayMs === undefined || delayMs === ""
+      ? DEFAULT_BACKFILL_DELAY_MS
+      : Number(delayMs);
+  return Number.isInteger(delay) && delay >= 0 ? delay : undefined;
+}
+
+/**
+ * Turn a backfill request into backfill options
+ *
+ * @param request - Backfill request
+ * @param defaultFeed - Feed to backfill when the request doesn't name one
+ * @param now - Current timestamp in milliseconds
+ * @returns Result with the backfill options
+ */
+export function parseBackfillRequest(
+  request: BackfillRequest,
+  defaultFeed: string,
+  now: number = Date.now(),
+): Result<BackfillOptions> {
+  const invalid = (message: string): Result<BackfillOptions> => ({
+    success: false,
+    error: {
+      message,
+      code: "INVALID_BACKFILL_OPTIONS",
+      context: { request },
+    },
+  });
+
+  if (request.from === undefined || request.from === "") {
+    return invalid("A start time (from) is required");
+  }
+
+  const from = parseBackfillTime(request.from, now);
+  if (from === undefined) {
+    return invalid(`Invalid start time: ${request.from}`);
+  }
+
+  const to =
+    request.to === undefined || request.to === ""
+      ? now
+      : parseBackfillTime(request.to, now);
+  if (to === undefined) {
+    return invalid(`Invalid end time: ${request.to}`);
+  }
+
+  if (from >= to) {
+    return invalid("The start time must be before the end time");
+  }
+
+  const delayMs = parseBackfillDelay(request.delayMs);
+  if (delayMs === undefined) {
+    return invalid(`Invalid delay: ${request.delayMs}`);
+  }
+
+  return {
+    success: true,
+    data: { feed: request.feed || defaultFeed, from, to, delayMs },
+  };
+}
+
+/**
+ * Load the backfill checkpoint
+ *
+ * @param filePath - Path to the backfill checkpoint JSON file
+ * @returns Promise resolving to the checkpoint, or undefined if there is none
+ */
+export async function loadBackfillCheckpoint(
+  filePath: string,
+): Promise<Result<BackfillProgress | undefined>> {
+  try {
+    const fileContent = await fs.readFile(filePath, "utf-8");
+    return {
+      success: true,
+      data: JSON.parse(fileContent) as BackfillProgress,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { success: true, data: undefined };
+    }
+
+    const botError: BotError = {
+      message: `Failed to load backfill checkpoint from ${filePath}`,
+      code: "BACKFILL_CHECKPOINT_LOAD_ERROR",
+      originalError: error as Error,
+      context: { filePath },
+    };
+
+    return { success: false, error: botError };
+  }
+}
+
+/**
+ * Save the backfill checkpoint
+ *
+ * @param filePath - Path to the backfill checkpoint JSON file
+ * @param progress - Backfill progress to save
+ * @returns Promise resolving to success/failure result
+ */
+export async function saveBackfillCheckpoint(
+  filePath: string,
+  progress: BackfillProgress,
+): Promise<Result<void>> {
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await writeFileAtomic(filePath, JSON.stringify(progress, null, 2));
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    const botError: BotError = {
+      message: `Failed to save backfill checkpoint to ${filePath}`,
+      code: "BACKFILL_CHECKPOINT_SAVE_ERROR",
+      originalError: error as Error,
+      context: { filePath },
+    };
+
+    return { success: false, error: botError };
+  }
+}
+
+/**
+ * Check if a checkpoint belongs to an unfinished run of the same backfill
+ *
+ * @param checkpoint - Saved checkpoint, if any
+ * @param options - Backfill about to run
+ * @returns True if the backfill should resume from the checkpoint
+ */
+export function canResumeBackfill(
+  checkpoint: BackfillProgress | undefined,
+  options: BackfillOptions,
+): checkpoint is BackfillProgress {
+  return (
+    checkpoint !== undefined &&
+    checkpoint.completedAt === undefined &&
+    checkpoint.feed === options.feed &&
+    checkpoint.from === options.from &&
+    checkpoint.to === options.to
+  );
+}
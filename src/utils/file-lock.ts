@@ -0,0 +1,205 @@
+/**
+ * Advisory lock files
+ * Stops two bot instances from writing to the same storage file
+ */
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import { Result } from "../types";
+import { logger } from "./logger";
+
+/**
+ * Locks from another host that haven't been refreshed for this long are stale
+ */
+const DEFAULT_STALE_AFTER = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Contents of a lock file
+ */
+interface LockInfo {
+  /** Process ID of the lock holder */
+  pid: number;
+  /** Hostname of the lock holder */
+  hostname: string;
+  /** Random token identifying the acquisition (missing from older lock files) */
+  token?: string;
+  /** Timestamp when the lock was acquired */
+  acquiredAt: number;
+}
+
+/**
+ * Check if a process is running on this host
+ *
+ * @param pid - Process ID to check
+ * @returns True if the process exists
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Advisory lock held through a lock file containing the holder's PID, hostname
+ * and a random token
+ * Only the instance whose token is in the file holds the lock, as containers
+ * can share a hostname and PID. Locks left by a dead process on this host, or
+ * not refreshed by another host for an hour, are taken over.
+ */
+export class FileLock {
+  private lockPath: string;
+  private staleAfter: number;
+  private isHeld: boolean = false;
+  private token?: string;
+
+  /**
+   * Creates a new FileLock instance
+   *
+   * @param lockPath - Path to the lock file
+   * @param staleAfter - Age in milliseconds after which another host's lock is stale
+   */
+  constructor(lockPath: string, staleAfter: number = DEFAULT_STALE_AFTER) {
+    this.lockPath = lockPath;
+    this.staleAfter = staleAfter;
+  }
+
+  /**
+   * Acquire the lock
+   *
+   * @returns Promise resolving to success, or STORAGE_LOCKED if another instance holds it
+   */
+  async acquire(): Promise<Result<void>> {
+    if (this.isHeld) {
+      return { success: true, data: undefined };
+    }
+
+    const info: LockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      token: randomUUID(),
+      acquiredAt: Date.now(),
+    };
+
+    try {
+      await fs.writeFile(this.lockPath, JSON.stringify(info), { flag: "wx" });
+      this.token = info.token;
+      this.isHeld = true;
+      return { success: true, data: undefined };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        return {
+          success: false,
+          error: {
+            message: `Failed to create lock file ${this.lockPath}`,
+            code: "STORAGE_LOCK_ERROR",
+            originalError: error as Error,
+            context: { lockPath: this.lockPath },
+          },
+        };
+      }
+    }
+
+    const holder = await this.readHolder();
+
+    if (holder && !(await this.isStale(holder))) {
+      return {
+        success: false,
+        error: {
+          message: `Storage is locked by another bot instance (pid ${holder.pid} on ${holder.hostname}). Delete ${this.lockPath} if no other instance is running.`,
+          code: "STORAGE_LOCKED",
+          context: {
+            lockPath: this.lockPath,
+            pid: holder.pid,
+            hostname: holder.hostname,
+            acquiredAt: holder.acquiredAt,
+          },
+        },
+      };
+    }
+
+    logger.warn("Taking over stale storage lock", {
+      lockPath: this.lockPath,
+      previousHolder: holder,
+    });
+
+    await fs.writeFile(this.lockPath, JSON.stringify(info));
+    this.token = info.token;
+    this.isHeld = true;
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Mark the lock as in use so other hosts don't treat it as stale
+   */
+  async refresh(): Promise<void> {
+    if (!this.isHeld) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      await fs.utimes(this.lockPath, now, now);
+    } catch {
+      // Refreshing is best-effort; the lock is re-checked on next acquire
+    }
+  }
+
+  /**
+   * Release the lock if this instance holds it
+   */
+  async release(): Promise<void> {
+    if (!this.isHeld) {
+      return;
+    }
+
+    this.isHeld = false;
+    const holder = await this.readHolder();
+    if (holder && holder.token === this.token) {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Read the current lock holder
+   *
+   * @returns Lock holder, or undefined if the lock file is missing or unreadable
+   * @private
+   */
+  private async readHolder(): Promise<LockInfo | undefined> {
+    try {
+      const info = JSON.parse(
+        await fs.readFile(this.lockPath, "utf-8"),
+      ) as LockInfo;
+      return typeof info.pid === "number" && typeof info.hostname === "string"
+        ? info
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check if a lock left by its holder can be taken over
+   *
+   * @param holder - Current lock holder
+   * @returns True if the lock is stale
+   * @private
+   */
+  private async isStale(holder: LockInfo): Promise<boolean> {
+    if (holder.hostname === os.hostname()) {
+      return !isProcessAlive(holder.pid);
+    }
+
+    try {
+      const { mtimeMs } = await fs.stat(this.lockPath);
+      return Date.now() - mtimeMs > this.staleAfter;
+    } catch {
+      return true;
+    }
+  }
+}
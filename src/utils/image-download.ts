@@ -0,0 +1,111 @@
+/**
+ * Image downloads
+ * Fetches images so they can be uploaded to Discord rather than hotlinked
+ */
+
+import axios from "axios";
+import { Result } from "../types";
+
+/**
+ * Image types that are uploaded, with the file extension used for each
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/**
+ * Time allowed for an image download in milliseconds
+ */
+const DOWNLOAD_TIMEOUT = 15000;
+
+/**
+ * Image downloaded for upload
+ */
+export interface DownloadedImage {
+  /** Image bytes */
+  data: Buffer;
+  /** MIME type reported by the image host */
+  contentType: string;
+  /** File extension matching the MIME type */
+  extension: string;
+}
+
+/**
+ * Download an image, refusing files over the size limit or of other types
+ *
+ * @param url - Image URL
+ * @param maxBytes - Largest image size accepted
+ * @returns Promise resolving to the image; the error code is IMAGE_TOO_LARGE
+ * when the image is over the limit
+ */
+export async function downloadImage(
+  url: string,
+  maxBytes: number,
+): Promise<Result<DownloadedImage>> {
+  const failure = (
+    message: string,
+    code: string,
+    originalError?: Error,
+  ): Result<DownloadedImage> => ({
+    success: false,
+    error: {
+      message,
+      code,
+      ...(originalError && { originalError }),
+      context: { url, maxBytes },
+    },
+  });
+
+  if (maxBytes <= 0) {
+    return failure("No upload space left for the image", "IMAGE_TOO_LARGE");
+  }
+
+  try {
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: "arraybuffer",
+      timeout: DOWNLOAD_TIMEOUT,
+      maxContentLength: maxBytes,
+      headers: { "User-Agent": "TassieRedditBot/1.0.0" },
+    });
+
+    const contentType = String(response.headers["content-type"] ?? "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    const extension = IMAGE_EXTENSIONS[contentType];
+    if (!extension) {
+      return failure(
+        `Unsupported image type: ${contentType || "unknown"}`,
+        "IMAGE_TYPE_NOT_ALLOWED",
+      );
+    }
+
+    const data = Buffer.from(response.data);
+    if (data.length > maxBytes) {
+      return failure("Image is over the upload limit", "IMAGE_TOO_LARGE");
+    }
+
+    return { success: true, data: { data, contentType, extension } };
+  } catch (error) {
+    const originalError =
+      error instanceof Error ? error : new Error(String(error));
+
+    // axios stops reading once the body passes maxContentLength
+    if (originalError.message.includes("maxContentLength")) {
+      return failure(
+        "Image is over the upload limit",
+        "IMAGE_TOO_LARGE",
+        originalError,
+      );
+    }
+
+    return failure(
+      `Failed to download image from ${url}`,
+      "IMAGE_DOWNLOAD_ERROR",
+      originalError,
+    );
+  }
+}
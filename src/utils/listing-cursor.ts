@@ -0,0 +1,69 @@
+/**
+ * Listing cursors
+ * Track the newest post a feed has seen so later syncs can page back to it
+ */
+
+import { ListingCursor, RedditPost } from "../types";
+
+/**
+ * Most pages of the new listing fetched to catch up with a cursor
+ */
+export const MAX_CATCH_UP_PAGES = 10;
+
+/**
+ * Get the cursor for the newest of a set of posts
+ *
+ * @param posts - Reddit posts
+ * @returns Cursor for the newest post, or undefined if there are no posts
+ */
+export function getListingCursor(
+  posts: RedditPost[],
+): ListingCursor | undefined {
+  const newest = posts.reduce<RedditPost | undefined>(
+    (latest, post) =>
+      !latest || post.created_utc > latest.created_utc ? post : latest,
+    undefined,
+  );
+
+  return newest
+    ? { fullname: `t3_${newest.id}`, createdUtc: newest.created_utc }
+    : undefined;
+}
+
+/**
+ * Check if a page of the new listing reaches back to a cursor
+ * A post made no later than the cursor's post also counts, in case the
+ * cursor's post has since been deleted
+ *
+ * @param posts - Page of posts, newest first
+ * @param cursor - Newest post seen on an earlier sync
+ * @returns True if the page includes the cursor's post or an older one
+ */
+export function hasReachedCursor(
+  posts: RedditPost[],
+  cursor: ListingCursor,
+): boolean {
+  return posts.some(
+    (post) =>
+      `t3_${post.id}` === cursor.fullname ||
+      post.created_utc <= cursor.createdUtc,
+  );
+}
+
+/**
+ * Pick the newer of two cursors
+ *
+ * @param current - Stored cursor, if any
+ * @param candidate - Cursor from the latest fetch, if any
+ * @returns The newer cursor
+ */
+export function getNewerCursor(
+  current: ListingCursor | undefined,
+  candidate: ListingCursor | undefined,
+): ListingCursor | undefined {
+  if (!current || !candidate) {
+    return candidate ?? current;
+  }
+
+  return candidate.createdUtc > current.createdUtc ? candidate : current;
+}
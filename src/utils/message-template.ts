@@ -0,0 +1,445 @@
+/**
+ * Message templates
+ * Mustache-style templates for the text of Discord messages, e.g.
+ * "{{title}} by u/{{author}}", "{{truncate text 300}}" or
+ * "{{#if flair}}[{{flair}}] {{/if}}{{number score}} upvotes"
+ */
+
+import { MessageTemplates } from "../types";
+
+/**
+ * Values available to templates
+ */
+export interface TemplateContext {
+  /** Post title */
+  title: string;
+  /** Username of the post author */
+  author: string;
+  /** Subreddit name (without r/ prefix) */
+  subreddit: string;
+  /** Link the post points to (the permalink for text posts) */
+  url: string;
+  /** Full URL of the Reddit post */
+  permalink: string;
+  /** Text of a self post */
+  text: string;
+  /** Post flair text (empty without a flair) */
+  flair: string;
+  /** Number of upvotes */
+  score: number;
+  /** Number of comments */
+  comments: number;
+  /** Unix timestamp (seconds) when the post was made */
+  created: number;
+  /** Whether the post is marked NSFW */
+  nsfw: boolean;
+  /** Whether the post is marked as a spoiler */
+  spoiler: boolean;
+}
+
+/**
+ * Names of the values available to templates
+ */
+export const TEMPLATE_VARIABLES: readonly (keyof TemplateContext)[] = [
+  "title",
+  "author",
+  "subreddit",
+  "url",
+  "permalink",
+  "text",
+  "flair",
+  "score",
+  "comments",
+  "created",
+  "nsfw",
+  "spoiler",
+];
+
+/**
+ * Value filled into a template
+ */
+type TemplateValue = string | number | boolean;
+
+/**
+ * Template helper
+ */
+interface TemplateHelper {
+  /** Number of arguments the helper takes */
+  arity: number;
+  /** Format the arguments */
+  render: (args: TemplateValue[], now: number) => string;
+}
+
+/**
+ * Helpers available to templates, e.g. {{truncate text 200}}
+ */
+const TEMPLATE_HELPERS: Record<string, TemplateHelper> = {
+  truncate: {
+    arity: 2,
+    render: ([value, length]) => {
+      const text = String(value);
+      const max = Number(length);
+      return text.length > max ? `${text.substring(0, max)}...` : text;
+    },
+  },
+  relativeTime: {
+    arity: 1,
+    render: ([value], now) => formatRelativeTime(Number(value), now),
+  },
+  number: {
+    arity: 1,
+    render: ([value]) =>
+      new Intl.NumberFormat("en", {
+        notation: "compact",
+        maximumFractionDigits: 1,
+      }).format(Number(value)),
+  },
+};
+
+/**
+ * Units used by the relativeTime helper, largest first
+ */
+const RELATIVE_TIME_UNITS: [string, number][] = [
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+/**
+ * Argument of a placeholder: a template value or a literal
+ */
+type TemplateArgument =
+  | { variable: keyof TemplateContext }
+  | { literal: TemplateValue };
+
+/**
+ * Parsed piece of a template
+ */
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "value"; helper?: string; args: TemplateArgument[] }
+  | {
+      type: "if";
+      condition: TemplateArgument;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+/**
+ * Block being parsed
+ */
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: "if" }>;
+  inElse: boolean;
+  position: number;
+}
+
+/**
+ * Format a timestamp as a time relative to now, e.g. "3 hours ago"
+ *
+ * @param timestamp - Unix timestamp in seconds
+ * @param now - Current timestamp in milliseconds
+ * @returns Relative time
+ */
+function formatRelativeTime(timestamp: number, now: number): string {
+  const seconds = Math.max(0, Math.floor(now / 1000 - timestamp));
+
+  for (const [unit, unitSeconds] of RELATIVE_TIME_UNITS) {
+    const count = Math.floor(seconds / unitSeconds);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+    }
+  }
+
+  return "just now";
+}
+
+/**
+ * A compiled message template
+ * Templates are parsed and checked once, when they are created
+ */
+export class MessageTemplate {
+  private source: string;
+  private name: string;
+  private nodes: TemplateNode[];
+
+  /**
+   * Creates a new MessageTemplate instance
+   *
+   * @param source - Template text
+   * @param name - Name of the template, for error messages
+   * @throws Error naming the line, column and placeholder of the first problem
+   */
+  constructor(source: string, name: string) {
+    this.source = source;
+    this.name = name;
+    this.nodes = this.parse();
+  }
+
+  /**
+   * Render the template
+   *
+   * @param context - Values to fill in
+   * @param now - Current timestamp in milliseconds, for relative times
+   * @returns Rendered text
+   */
+  render(context: TemplateContext, now: number = Date.now()): string {
+    return this.renderNodes(this.nodes, context, now);
+  }
+
+  /**
+   * Parse the template into nodes
+   *
+   * @returns Parsed nodes
+   * @throws Error if a placeholder or block is invalid
+   */
+  private parse(): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const blocks: OpenBlock[] = [];
+    const current = (): TemplateNode[] => {
+      const block = blocks[blocks.length - 1];
+      if (!block) {
+        return root;
+      }
+      return block.inElse ? block.node.otherwise : block.node.then;
+    };
+
+    const placeholder = /\{\{([\s\S]*?)\}\}/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = placeholder.exec(this.source)) !== null) {
+      if (match.index > lastIndex) {
+        current().push({
+          type: "text",
+          text: this.source.slice(lastIndex, match.index),
+        });
+      }
+      lastIndex = match.index + match[0].length;
+
+      const position = match.index;
+      const placeholderText = match[0];
+      const error = (problem: string): Error =>
+        this.createError(problem, position, placeholderText);
+      const [keyword, ...args] = match[1].match(/"[^"]*"|\S+/g) ?? [];
+
+      if (keyword === undefined) {
+        throw error("empty placeholder");
+      } else if (keyword === "#if") {
+        if (args.length !== 1) {
+          throw error("#if takes one value");
+        }
+        const node: OpenBlock["node"] = {
+          type: "if",
+          condition: this.parseArgument(args[0], error),
+          then: [],
+          otherwise: [],
+        };
+        current().push(node);
+        blocks.push({ node, inElse: false, position });
+      } else if (keyword === "else") {
+        const block = blocks[blocks.length - 1];
+        if (!block || block.inElse || args.length > 0) {
+          throw error("{{else}} must be inside an {{#if}} block");
+        }
+        block.inElse = true;
+      } else if (keyword === "/if") {
+        if (!blocks.pop() || args.length > 0) {
+          throw error("{{/if}} without an open {{#if}}");
+        }
+      } else if (keyword.startsWith("#") || keyword.startsWith("/")) {
+        throw error(`unknown block "${keyword}" (only #if is supported)`);
+      } else if (args.length === 0) {
+        if (TEMPLATE_HELPERS[keyword]) {
+          throw error(`helper "${keyword}" needs a value`);
+        }
+        current().push({
+          type: "value",
+          args: [this.parseArgument(keyword, error)],
+        });
+      } else {
+        const helper = TEMPLATE_HELPERS[keyword];
+        if (!helper) {
+          throw error(
+            `unknown helper "${keyword}" (available: ${Object.keys(TEMPLATE_HELPERS).join(", ")})`,
+          );
+        }
+        if (args.length !== helper.arity) {
+          throw error(
+            `helper "${keyword}" takes ${helper.arity} argument${helper.arity === 1 ? "" : "s"}`,
+          );
+        }
+        current().push({
+          type: "value",
+          helper: keyword,
+          args: args.map((arg) => this.parseArgument(arg, error)),
+        });
+      }
+    }
+
+    const unclosed = blocks.pop();
+    if (unclosed) {
+      throw this.createError(
+        "{{#if}} is never closed with {{/if}}",
+        unclosed.position,
+      );
+    }
+
+    const rest = this.source.slice(lastIndex);
+    const stray = rest.indexOf("{{");
+    if (stray !== -1) {
+      throw this.createError(
+        "placeholder is never closed with }}",
+        lastIndex + stray,
+      );
+    }
+    if (rest) {
+      root.push({ type: "text", text: rest });
+    }
+
+    return root;
+  }
+
+  /**
+   * Parse a placeholder argument
+   *
+   * @param token - Argument as written
+   * @param error - Creates the error for an invalid argument
+   * @returns Parsed argument
+   * @throws Error if the argument isn't a template value or literal
+   */
+  private parseArgument(
+    token: string,
+    error: (problem: string) => Error,
+  ): TemplateArgument {
+    if (/^"[^"]*"$/.test(token)) {
+      return { literal: token.slice(1, -1) };
+    }
+    if (/^\d+(\.\d+)?$/.test(token)) {
+      return { literal: Number(token) };
+    }
+    if ((TEMPLATE_VARIABLES as readonly string[]).includes(token)) {
+      return { variable: token as keyof TemplateContext };
+    }
+    throw error(
+      `unknown value "${token}" (available: ${TEMPLATE_VARIABLES.join(", ")})`,
+    );
+  }
+
+  /**
+   * Create an error pointing at a position in the template
+   *
+   * @param problem - What is wrong
+   * @param position - Offset of the problem in the template
+   * @param placeholder - Placeholder at fault, if any
+   * @returns Error describing the problem
+   */
+  private createError(
+    problem: string,
+    position: number,
+    placeholder?: string,
+  ): Error {
+    const before = this.source.slice(0, position).split("\n");
+    const line = before.length;
+    const column = before[before.length - 1].length + 1;
+    const at = placeholder ? ` in ${placeholder}` : "";
+
+    return new Error(
+      `Invalid template ${this.name} at line ${line}, column ${column}${at}: ${problem}`,
+    );
+  }
+
+  /**
+   * Render parsed nodes
+   *
+   * @param nodes - Nodes to render
+   * @param context - Values to fill in
+   * @param now - Current timestamp in milliseconds
+   * @returns Rendered text
+   */
+  private renderNodes(
+    nodes: TemplateNode[],
+    context: TemplateContext,
+    now: number,
+  ): string {
+    return nodes
+      .map((node) => {
+        if (node.type === "text") {
+          return node.text;
+        }
+
+        if (node.type === "if") {
+          const value = this.resolve(node.condition, context);
+          return this.renderNodes(
+            value ? node.then : node.otherwise,
+            context,
+            now,
+          );
+        }
+
+        const values = node.args.map((arg) => this.resolve(arg, context));
+        return node.helper
+          ? TEMPLATE_HELPERS[node.helper].render(values, now)
+          : String(values[0]);
+      })
+      .join("");
+  }
+
+  /**
+   * Get the value of an argument
+   *
+   * @param arg - Parsed argument
+   * @param context - Values to fill in
+   * @returns Argument value
+   */
+  private resolve(
+    arg: TemplateArgument,
+    context: TemplateContext,
+  ): TemplateValue {
+    return "literal" in arg ? arg.literal : context[arg.variable];
+  }
+}
+
+/**
+ * Compiled templates for the parts of a message
+ */
+export interface CompiledMessageTemplates {
+  content?: MessageTemplate;
+  title?: MessageTemplate;
+  description?: MessageTemplate;
+  footer?: MessageTemplate;
+  fields?: {
+    name: MessageTemplate;
+    value: MessageTemplate;
+    inline?: boolean;
+  }[];
+}
+
+/**
+ * Compile the templates for the parts of a message
+ *
+ * @param templates - Template text for each part
+ * @returns Compiled templates
+ * @throws Error naming the part, line, column and placeholder of the first problem
+ */
+export function compileMessageTemplates(
+  templates: MessageTemplates,
+): CompiledMessageTemplates {
+  const compile = (
+    source: string | undefined,
+    name: string,
+  ): MessageTemplate | undefined =>
+    source === undefined ? undefined : new MessageTemplate(source, name);
+
+  return {
+    content: compile(templates.content, "content"),
+    title: compile(templates.title, "title"),
+    description: compile(templates.description, "description"),
+    footer: compile(templates.footer, "footer"),
+    fields: templates.fields?.map((field, index) => ({
+      name: new MessageTemplate(field.name, `fields[${index}].name`),
+      value: new MessageTemplate(field.value, `fields[${index}].value`),
+      inline: field.inline,
+    })),
+  };
+}
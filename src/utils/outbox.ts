@@ -0,0 +1,298 @@
+/**
+ * Outbox for Reddit posts that failed to send to Discord
+ * Persists failed posts next to the storage file so they are retried on later syncs
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  OutboxConfig,
+  OutboxData,
+  OutboxItem,
+  RedditPost,
+  BotError,
+  Result,
+} from "../types";
+import { writeFileAtomic } from "./atomic-file";
+
+/**
+ * Longest delay between retries (6 hours)
+ */
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000;
+
+/**
+ * Create the default outbox data structure
+ *
+ * @returns Empty outbox data
+ */
+function createDefaultOutboxData(): OutboxData {
+  return {
+    pending: [],
+    deadLetters: [],
+    version: 1,
+  };
+}
+
+/**
+ * Get the outbox file path for a storage file
+ * The outbox sits beside the storage file, e.g. data/posted-ids.outbox.json
+ *
+ * @param storageFilePath - Path to the storage JSON file
+ * @returns Path to the outbox JSON file
+ */
+export function getOutboxFilePath(storageFilePath: string): string {
+  const parsed = path.parse(path.resolve(storageFilePath));
+  return path.join(parsed.dir, `${parsed.name}.outbox.json`);
+}
+
+/**
+ * Outbox class for managing posts awaiting a Discord resend
+ * Tracks attempt counts and backoff, and dead-letters posts that keep failing
+ */
+export class PostOutbox {
+  private filePath: string;
+  private config: OutboxConfig;
+  private data: OutboxData;
+  private isLoaded: boolean = false;
+
+  /**
+   * Creates a new PostOutbox instance
+   *
+   * @param filePath - Path to the outbox JSON file
+   * @param config - Retry settings
+   */
+  constructor(filePath: string, config: OutboxConfig) {
+    this.filePath = path.resolve(filePath);
+    this.config = config;
+    this.data = createDefaultOutboxData();
+  }
+
+  /**
+   * Load outbox data from file
+   * Starts with an empty outbox if the file doesn't exist
+   *
+   * @returns Promise resolving to success/failure result
+   */
+  async load(): Promise<Result<OutboxData>> {
+    try {
+      let fileContent: string;
+      try {
+        fileContent = await fs.readFile(this.filePath, "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+        this.data = createDefaultOutboxData();
+        this.isLoaded = true;
+        return { success: true, data: this.data };
+      }
+
+      const parsedData = JSON.parse(fileContent) as OutboxData;
+      if (
+        !Array.isArray(parsedData.pending) ||
+        !Array.isArray(parsedData.deadLetters)
+      ) {
+        return {
+          success: false,
+          error: {
+            message: "Outbox data is missing pending or deadLetters arrays",
+            code: "INVALID_OUTBOX_FORMAT",
+            context: { filePath: this.filePath },
+          },
+        };
+      }
+
+      this.data = parsedData;
+      this.isLoaded = true;
+
+      return { success: true, data: this.data };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to load outbox from ${this.filePath}`,
+        code: "OUTBOX_LOAD_ERROR",
+        originalError: error as Error,
+        context: { filePath: this.filePath },
+      };
+
+      return { success: false, error: botError };
+    }
+  }
+
+  /**
+   * Save current outbox data to file
+   *
+   * @returns Promise resolving to success/failure result
+   */
+  async save(): Promise<Result<void>> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFileAtomic(this.filePath, JSON.stringify(this.data, null, 2));
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to save outbox to ${this.filePath}`,
+        code: "OUTBOX_SAVE_ERROR",
+        originalError: error as Error,
+        context: { filePath: this.filePath },
+      };
+
+      return { success: false, error: botError };
+    }
+  }
+
+  /**
+   * Check if a post is in the outbox (pending or dead-lettered)
+   *
+   * @param key - Storage key of the post
+   * @returns Promise resolving to boolean
+   */
+  async has(key: string): Promise<boolean> {
+    await this.ensureLoaded();
+    return (
+      this.data.pending.some((item) => item.key === key) ||
+      this.data.deadLetters.some((item) => item.key === key)
+    );
+  }
+
+  /**
+   * Get pending posts for a feed whose next attempt is due
+   *
+   * @param feed - Feed name
+   * @param now - Current timestamp
+   * @returns Promise resolving to due outbox items, oldest failure first
+   */
+  async getDueItems(
+    feed: string,
+    now: number = Date.now(),
+  ): Promise<OutboxItem[]> {
+    await this.ensureLoaded();
+    return this.data.pending
+      .filter((item) => item.feed === feed && item.nextAttemptAt <= now)
+      .sort((a, b) => a.firstFailedAt - b.firstFailedAt);
+  }
+
+  /**
+   * Record a failed send attempt
+   * Adds the post to the outbox or bumps its attempt count, and moves it
+   * to the dead letters once the maximum number of attempts is reached
+   *
+   * @param feed - Feed name
+   * @param key - Storage key of the post
+   * @param post - Reddit post that failed to send
+   * @param error - Error message from the attempt
+   * @returns Promise resolving to the updated outbox item
+   */
+  async recordFailure(
+    feed: string,
+    key: string,
+    post: RedditPost,
+    error: string,
+  ): Promise<Result<OutboxItem>> {
+    await this.ensureLoaded();
+
+    const now = Date.now();
+    let item = this.data.pending.find((pending) => pending.key === key);
+
+    if (item) {
+      item.attempts++;
+      item.lastError = error;
+    } else {
+      item = {
+        key,
+        feed,
+        post,
+        attempts: 1,
+        firstFailedAt: now,
+        nextAttemptAt: now,
+        lastError: error,
+      };
+      this.data.pending.push(item);
+    }
+
+    if (item.attempts >= this.config.maxAttempts) {
+      item.deadLetteredAt = now;
+      this.data.pending = this.data.pending.filter(
+        (pending) => pending.key !== key,
+      );
+      this.data.deadLetters.push(item);
+    } else {
+      item.nextAttemptAt = now + this.calculateRetryDelay(item.attempts);
+    }
+
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    return { success: true, data: { ...item } };
+  }
+
+  /**
+   * Remove a pending post after it has been sent
+   *
+   * @param key - Storage key of the post
+   * @returns Promise resolving to success/failure result
+   */
+  async remove(key: string): Promise<Result<void>> {
+    await this.ensureLoaded();
+
+    const remaining = this.data.pending.filter((item) => item.key !== key);
+    if (remaining.length === this.data.pending.length) {
+      return { success: true, data: undefined };
+    }
+
+    this.data.pending = remaining;
+    return await this.save();
+  }
+
+  /**
+   * Get all posts waiting to be retried
+   *
+   * @returns Promise resolving to pending outbox items
+   */
+  async getPending(): Promise<OutboxItem[]> {
+    await this.ensureLoaded();
+    return this.data.pending.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Get all dead-lettered posts
+   *
+   * @returns Promise resolving to dead-lettered outbox items
+   */
+  async getDeadLetters(): Promise<OutboxItem[]> {
+    await this.ensureLoaded();
+    return this.data.deadLetters.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Calculate the delay before the next attempt with exponential backoff
+   *
+   * @param attempts - Failed attempts so far
+   * @returns Delay in milliseconds
+   * @private
+   */
+  private calculateRetryDelay(attempts: number): number {
+    return Math.min(
+      this.config.retryDelay * Math.pow(2, attempts - 1),
+      MAX_RETRY_DELAY,
+    );
+  }
+
+  /**
+   * Ensure the outbox is loaded before operations
+   *
+   * @private
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (!this.isLoaded) {
+      const result = await this.load();
+      if (!result.success) {
+        throw new Error(`Failed to load outbox: ${result.error.message}`);
+      }
+    }
+  }
+}
+
+export default PostOutbox;
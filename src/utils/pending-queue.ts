@@ -0,0 +1,253 @@
+/**
+ * Pending queue for Reddit posts waiting to gain traction
+ * Persists candidate posts next to the storage file so they are re-checked
+ * on later syncs, across restarts
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  PendingPost,
+  PendingQueueData,
+  RedditPost,
+  TractionConfig,
+  BotError,
+  Result,
+} from "../types";
+import { writeFileAtomic } from "./atomic-file";
+
+/**
+ * Create the default pending queue data structure
+ *
+ * @returns Empty pending queue data
+ */
+function createDefaultPendingQueueData(): PendingQueueData {
+  return {
+    pending: [],
+    version: 1,
+  };
+}
+
+/**
+ * Get the pending queue file path for a storage file
+ * The queue sits beside the storage file, e.g. data/posted-ids.pending.json
+ *
+ * @param storageFilePath - Path to the storage file
+ * @returns Path to the pending queue JSON file
+ */
+export function getPendingQueueFilePath(storageFilePath: string): string {
+  const parsed = path.parse(path.resolve(storageFilePath));
+  return path.join(parsed.dir, `${parsed.name}.pending.json`);
+}
+
+/**
+ * Check if a post has reached a feed's traction thresholds
+ *
+ * @param post - Reddit post
+ * @param config - Traction thresholds
+ * @returns True if the post reaches every threshold that is set
+ */
+export function hasTraction(post: RedditPost, config: TractionConfig): boolean {
+  return (
+    (config.minScore === undefined || post.ups >= config.minScore) &&
+    (config.minComments === undefined ||
+      post.num_comments >= config.minComments)
+  );
+}
+
+/**
+ * Pending queue class for managing posts waiting to reach their thresholds
+ */
+export class PendingQueue {
+  private filePath: string;
+  private data: PendingQueueData;
+  private isLoaded: boolean = false;
+
+  /**
+   * Creates a new PendingQueue instance
+   *
+   * @param filePath - Path to the pending queue JSON file
+   */
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.data = createDefaultPendingQueueData();
+  }
+
+  /**
+   * Load pending queue data from file
+   * Starts with an empty queue if the file doesn't exist
+   *
+   * @returns Promise resolving to success/failure result
+   */
+  async load(): Promise<Result<PendingQueueData>> {
+    try {
+      let fileContent: string;
+      try {
+        fileContent = await fs.readFile(this.filePath, "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+        this.data = createDefaultPendingQueueData();
+        this.isLoaded = true;
+        return { success: true, data: this.data };
+      }
+
+      const parsedData = JSON.parse(fileContent) as PendingQueueData;
+      if (!Array.isArray(parsedData.pending)) {
+        return {
+          success: false,
+          error: {
+            message: "Pending queue data is missing the pending array",
+            code: "INVALID_PENDING_QUEUE_FORMAT",
+            context: { filePath: this.filePath },
+          },
+        };
+      }
+
+      this.data = parsedData;
+      this.isLoaded = true;
+
+      return { success: true, data: this.data };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to load pending queue from ${this.filePath}`,
+        code: "PENDING_QUEUE_LOAD_ERROR",
+        originalError: error as Error,
+        context: { filePath: this.filePath },
+      };
+
+      return { success: false, error: botError };
+    }
+  }
+
+  /**
+   * Save current pending queue data to file
+   *
+   * @returns Promise resolving to success/failure result
+   */
+  async save(): Promise<Result<void>> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFileAtomic(this.filePath, JSON.stringify(this.data, null, 2));
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to save pending queue to ${this.filePath}`,
+        code: "PENDING_QUEUE_SAVE_ERROR",
+        originalError: error as Error,
+        context: { filePath: this.filePath },
+      };
+
+      return { success: false, error: botError };
+    }
+  }
+
+  /**
+   * Check if a post is waiting in the queue
+   *
+   * @param key - Storage key of the post
+   * @returns Promise resolving to boolean
+   */
+  async has(key: string): Promise<boolean> {
+    await this.ensureLoaded();
+    return this.data.pending.some((item) => item.key === key);
+  }
+
+  /**
+   * Get a feed's queued posts
+   *
+   * @param feed - Feed name
+   * @returns Promise resolving to the feed's queued posts, oldest first
+   */
+  async getFeedItems(feed: string): Promise<PendingPost[]> {
+    await this.ensureLoaded();
+    return this.data.pending
+      .filter((item) => item.feed === feed)
+      .sort((a, b) => a.queuedAt - b.queuedAt)
+      .map((item) => ({ ...item }));
+  }
+
+  /**
+   * Add posts to the queue, or update the posts already queued with their
+   * latest version
+   *
+   * @param feed - Feed name
+   * @param items - Storage keys and posts to queue
+   * @returns Promise resolving to success/failure result
+   */
+  async upsert(
+    feed: string,
+    items: { key: string; post: RedditPost }[],
+  ): Promise<Result<void>> {
+    await this.ensureLoaded();
+
+    const now = Date.now();
+    for (const { key, post } of items) {
+      const existing = this.data.pending.find((item) => item.key === key);
+      if (existing) {
+        existing.post = post;
+        existing.lastCheckedAt = now;
+      } else {
+        this.data.pending.push({
+          key,
+          feed,
+          post,
+          queuedAt: now,
+          lastCheckedAt: now,
+        });
+      }
+    }
+
+    return await this.save();
+  }
+
+  /**
+   * Remove posts that were forwarded or dropped
+   *
+   * @param keys - Storage keys of the posts
+   * @returns Promise resolving to success/failure result
+   */
+  async remove(keys: string[]): Promise<Result<void>> {
+    await this.ensureLoaded();
+
+    const remaining = this.data.pending.filter(
+      (item) => !keys.includes(item.key),
+    );
+    if (remaining.length === this.data.pending.length) {
+      return { success: true, data: undefined };
+    }
+
+    this.data.pending = remaining;
+    return await this.save();
+  }
+
+  /**
+   * Get all queued posts
+   *
+   * @returns Promise resolving to queued posts
+   */
+  async getPending(): Promise<PendingPost[]> {
+    await this.ensureLoaded();
+    return this.data.pending.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Ensure the queue is loaded before operations
+   *
+   * @private
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (!this.isLoaded) {
+      const result = await this.load();
+      if (!result.success) {
+        throw new Error(
+          `Failed to load pending queue: ${result.error.message}`,
+        );
+      }
+    }
+  }
+}
+
+export default PendingQueue;
@@ -0,0 +1,69 @@
+/**
+ * Recognition of the same content posted more than once
+ * Crossposts share their parent's ID and link posts share a normalised URL
+ */
+
+import { PostContent, RedditPost } from "../types";
+
+/**
+ * Query parameters that only track where a link was shared from
+ */
+const TRACKING_PARAMS = /^(utm_.+|fbclid|gclid|igshid|ref|ref_src)$/i;
+
+/**
+ * Get the content of a post used to recognise duplicates
+ *
+ * @param post - Reddit post
+ * @returns Original post ID and normalised external link
+ */
+export function getPostContent(post: RedditPost): PostContent {
+  const original = post.crosspost_parent ?? post;
+
+  return {
+    sourceId: original.id,
+    url: normalizeContentUrl(original.url),
+  };
+}
+
+/**
+ * Check if two posts share their original post or external link
+ *
+ * @param a - Content of the first post
+ * @param b - Content of the second post
+ * @returns True if the posts are the same content
+ */
+export function isSameContent(a: PostContent, b: PostContent): boolean {
+  return (
+    (a.sourceId !== undefined && a.sourceId === b.sourceId) ||
+    (a.url !== undefined && a.url === b.url)
+  );
+}
+
+/**
+ * Normalise an external link so the same page shared twice compares equal
+ * Drops the scheme, "www.", fragments, tracking parameters and trailing slashes
+ *
+ * @param url - Link of a Reddit post
+ * @returns Normalised link, or undefined for links to Reddit itself
+ */
+export function normalizeContentUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  if (host === "reddit.com" || host.endsWith(".reddit.com")) {
+    return undefined;
+  }
+
+  const params = [...parsed.searchParams]
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const pathname = parsed.pathname.replace(/\/+$/, "");
+
+  return `${host}${pathname}${query ? `?${query}` : ""}`;
+}
@@ -0,0 +1,242 @@
+/**
+ * Rule-based post filter
+ * Evaluates a feed's declarative filter rules against Reddit posts
+ */
+
+import { FilterRejection, PostFilterConfig, RedditPost } from "../types";
+
+/**
+ * Filter rules that take a list of values
+ */
+export const LIST_FILTER_RULES = [
+  "includeFlairs",
+  "excludeFlairs",
+  "includeKeywords",
+  "excludeKeywords",
+  "includePatterns",
+  "excludePatterns",
+  "includeAuthors",
+  "excludeAuthors",
+  "includeDomains",
+  "excludeDomains",
+] as const satisfies readonly (keyof PostFilterConfig)[];
+
+/**
+ * Filter rules that take a number
+ */
+export const NUMBER_FILTER_RULES = [
+  "minScore",
+  "minComments",
+  "maxAgeHours",
+] as const satisfies readonly (keyof PostFilterConfig)[];
+
+/**
+ * Evaluates filter rules against posts
+ * Regular expressions are compiled once when the filter is created
+ */
+export class PostFilter {
+  private config: PostFilterConfig;
+  private includePatterns: RegExp[];
+  private excludePatterns: RegExp[];
+
+  /**
+   * Creates a new PostFilter instance
+   *
+   * @param config - Filter rules
+   * @throws Error if a pattern isn't a valid regular expression
+   */
+  constructor(config: PostFilterConfig = {}) {
+    this.config = config;
+    this.includePatterns = (config.includePatterns ?? []).map(
+      (pattern) => new RegExp(pattern, "i"),
+    );
+    this.excludePatterns = (config.excludePatterns ?? []).map(
+      (pattern) => new RegExp(pattern, "i"),
+    );
+  }
+
+  /**
+   * Check a post against the filter rules
+   *
+   * @param post - Reddit post to check
+   * @param now - Current time in milliseconds, for the age rule
+   * @returns The first rule the post breaks, or undefined if it passes
+   */
+  evaluate(
+    post: RedditPost,
+    now: number = Date.now(),
+  ): FilterRejection | undefined {
+    const { config } = this;
+    const text = `${post.title}\n${post.selftext}`;
+    const lowerText = text.toLowerCase();
+    const flair = post.link_flair_text ?? "";
+    const domain = this.getDomain(post);
+
+    if (config.postType) {
+      const postType = isSelfPost(post) ? "self" : "link";
+      if (postType !== config.postType) {
+        return { rule: "postType", detail: `${postType} post` };
+      }
+    }
+
+    if (
+      config.maxAgeHours !== undefined &&
+      now - post.created_utc * 1000 > config.maxAgeHours * 60 * 60 * 1000
+    ) {
+      const ageHours = (now - post.created_utc * 1000) / (60 * 60 * 1000);
+      return {
+        rule: "maxAgeHours",
+        detail: `${ageHours.toFixed(1)} hours old`,
+      };
+    }
+
+    if (config.minScore !== undefined && post.ups < config.minScore) {
+      return { rule: "minScore", detail: `score ${post.ups}` };
+    }
+
+    if (
+      config.minComments !== undefined &&
+      post.num_comments < config.minComments
+    ) {
+      return { rule: "minComments", detail: `${post.num_comments} comments` };
+    }
+
+    return (
+      this.checkList("Flairs", (value) => this.equals(flair, value), {
+        included: `flair "${flair}"`,
+      }) ??
+      this.checkList(
+        "Keywords",
+        (value) => lowerText.includes(value.toLowerCase()),
+        { included: "no matching keyword" },
+      ) ??
+      this.checkPatterns(text) ??
+      this.checkList("Authors", (value) => this.equals(post.author, value), {
+        included: `author u/${post.author}`,
+      }) ??
+      this.checkList(
+        "Domains",
+        (value) => domain !== undefined && this.isSameDomain(domain, value),
+        { included: domain ? `domain ${domain}` : "text post" },
+      )
+    );
+  }
+
+  /**
+   * Check an include and exclude rule pair
+   *
+   * @param name - Rule name without its include/exclude prefix
+   * @param matches - Whether the post matches a rule value
+   * @param detail - Rejection detail when no include value matches
+   * @returns Rejection, or undefined if the post passes both rules
+   * @private
+   */
+  private checkList(
+    name: "Flairs" | "Keywords" | "Authors" | "Domains",
+    matches: (value: string) => boolean,
+    detail: { included: string },
+  ): FilterRejection | undefined {
+    const include = this.config[`include${name}`];
+    if (include?.length && !include.some(matches)) {
+      return { rule: `include${name}`, detail: detail.included };
+    }
+
+    const excluded = this.config[`exclude${name}`]?.find(matches);
+    if (excluded !== undefined) {
+      return { rule: `exclude${name}`, detail: `matched "${excluded}"` };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check the regular expression rules against a post's title and text
+   *
+   * @param text - Title and text of the post
+   * @returns Rejection, or undefined if the post passes both rules
+   * @private
+   */
+  private checkPatterns(text: string): FilterRejection | undefined {
+    if (
+      this.includePatterns.length > 0 &&
+      !this.includePatterns.some((pattern) => pattern.test(text))
+    ) {
+      return { rule: "includePatterns", detail: "no matching pattern" };
+    }
+
+    const excluded = this.excludePatterns.find((pattern) => pattern.test(text));
+    if (excluded) {
+      return {
+        rule: "excludePatterns",
+        detail: `matched /${excluded.source}/`,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Compare two strings ignoring case
+   *
+   * @private
+   */
+  private equals(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+
+  /**
+   * Check if a domain is a configured domain or one of its subdomains
+   *
+   * @param domain - Domain of the post's link
+   * @param configured - Domain from the filter rules
+   * @returns True if the domains match
+   * @private
+   */
+  private isSameDomain(domain: string, configured: string): boolean {
+    const target = configured.toLowerCase().replace(/^www\./, "");
+    return domain === target || domain.endsWith(`.${target}`);
+  }
+
+  /**
+   * Get the domain a link post points to
+   *
+   * @param post - Reddit post
+   * @returns Lowercase domain without "www.", or undefined for text posts
+   * @private
+   */
+  private getDomain(post: RedditPost): string | undefined {
+    if (isSelfPost(post)) {
+      return undefined;
+    }
+
+    try {
+      return new URL(post.url).hostname.toLowerCase().replace(/^www\./, "");
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Check if a post is a text post
+ * Posts without the is_self flag are text posts when they link to
+ * their own comments page
+ *
+ * @param post - Reddit post
+ * @returns True for text posts
+ */
+export function isSelfPost(post: RedditPost): boolean {
+  if (post.is_self !== undefined) {
+    return post.is_self;
+  }
+
+  try {
+    const base = "https://www.reddit.com";
+    return (
+      new URL(post.url, base).pathname ===
+      new URL(post.permalink, base).pathname
+    );
+  } catch {
+    return false;
+  }
+}
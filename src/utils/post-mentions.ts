@@ -0,0 +1,77 @@
+/**
+ * Role and user mentions for posts with particular flairs or keywords
+ */
+
+import { DiscordAllowedMentions, MentionRule, RedditPost } from "../types";
+
+/**
+ * Roles and users to mention for a post
+ */
+export interface PostMentions {
+  /** IDs of Discord roles */
+  roles: string[];
+  /** IDs of Discord users */
+  users: string[];
+}
+
+/**
+ * Get the roles and users a post's message should mention
+ * A post gets the mentions of every rule it matches, each ID once
+ *
+ * @param post - Reddit post
+ * @param rules - Mention rules of the destination
+ * @returns Roles and users to mention (empty if no rule matches)
+ */
+export function getPostMentions(
+  post: RedditPost,
+  rules: MentionRule[] = [],
+): PostMentions {
+  const flair = (post.link_flair_text ?? "").trim().toLowerCase();
+  const text = `${post.title}\n${post.selftext}`.toLowerCase();
+  const roles = new Set<string>();
+  const users = new Set<string>();
+
+  for (const rule of rules) {
+    const matches =
+      (rule.flairs ?? []).some((value) => value.toLowerCase() === flair) ||
+      (rule.keywords ?? []).some((value) => text.includes(value.toLowerCase()));
+
+    if (matches) {
+      rule.roles?.forEach((id) => roles.add(id));
+      rule.users?.forEach((id) => users.add(id));
+    }
+  }
+
+  return { roles: [...roles], users: [...users] };
+}
+
+/**
+ * Format mentions as message text, e.g. "<@&123> <@456>"
+ *
+ * @param mentions - Roles and users to mention
+ * @returns Mention text (empty without mentions)
+ */
+export function formatMentions(mentions: PostMentions): string {
+  return [
+    ...mentions.roles.map((id) => `<@&${id}>`),
+    ...mentions.users.map((id) => `<@${id}>`),
+  ].join(" ");
+}
+
+/**
+ * Get the allowed mentions for a message
+ * Only the given roles and users can be pinged; "@everyone", "@here" and
+ * any other mention in the text are shown without pinging
+ *
+ * @param mentions - Roles and users the message mentions, if any
+ * @returns Allowed mentions for the webhook payload
+ */
+export function getAllowedMentions(
+  mentions: PostMentions = { roles: [], users: [] },
+): DiscordAllowedMentions {
+  return {
+    parse: [],
+    ...(mentions.roles.length > 0 && { roles: mentions.roles }),
+    ...(mentions.users.length > 0 && { users: mentions.users }),
+  };
+}
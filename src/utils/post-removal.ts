@@ -0,0 +1,45 @@
+/**
+ * Detection of Reddit posts that were removed or deleted after being sent
+ */
+
+import { RedditPost } from "../types";
+
+/**
+ * removed_by_category values for posts taken down by Reddit itself
+ */
+const REDDIT_REMOVAL_CATEGORIES = new Set([
+  "reddit",
+  "anti_evil_ops",
+  "community_ops",
+  "content_takedown",
+  "copyright_takedown",
+]);
+
+/**
+ * Describe why a post is no longer available on Reddit
+ *
+ * @param post - Current version of the Reddit post
+ * @returns Reason such as "removed by the moderators of r/tasmania", or
+ *   undefined if the post is still up
+ */
+export function getRemovalReason(post: RedditPost): string | undefined {
+  const category = post.removed_by_category;
+
+  if (category === "deleted" || category === "author") {
+    return "deleted by its author";
+  }
+
+  if (category && REDDIT_REMOVAL_CATEGORIES.has(category)) {
+    return "removed by Reddit";
+  }
+
+  if (category || post.selftext === "[removed]") {
+    return `removed by the moderators of r/${post.subreddit}`;
+  }
+
+  if (post.author === "[deleted]" || post.selftext === "[deleted]") {
+    return "deleted by its author";
+  }
+
+  return undefined;
+}
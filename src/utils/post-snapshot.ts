@@ -0,0 +1,65 @@
+/**
+ * Snapshots of the Reddit post fields shown in Discord messages
+ * Used to decide when a sent message is out of date and should be edited
+ */
+
+import { PostSnapshot, RedditPost, RefreshConfig } from "../types";
+
+/**
+ * Take a snapshot of the fields a Discord message shows for a post
+ *
+ * @param post - Reddit post
+ * @returns Snapshot of the post
+ */
+export function createPostSnapshot(post: RedditPost): PostSnapshot {
+  return {
+    title: post.title,
+    flair: post.link_flair_text,
+    score: post.ups,
+    numComments: post.num_comments,
+  };
+}
+
+/**
+ * Check if a count has moved enough to be worth an edit
+ * The change must reach both the minimum and the configured percentage
+ *
+ * @param before - Count shown in the message
+ * @param after - Current count
+ * @param config - Refresh settings
+ * @returns True if the change is significant
+ */
+function isSignificantChange(
+  before: number,
+  after: number,
+  config: Pick<RefreshConfig, "changePercent" | "minChange">,
+): boolean {
+  const threshold = Math.max(
+    config.minChange,
+    (Math.abs(before) * config.changePercent) / 100,
+  );
+  return Math.abs(after - before) >= threshold;
+}
+
+/**
+ * Check if a post has changed enough since a message was sent to need an edit
+ * Title and flair edits always count; score and comment counts only when
+ * they have moved significantly
+ *
+ * @param previous - Snapshot shown in the message
+ * @param current - Snapshot of the current post
+ * @param config - Refresh settings
+ * @returns True if the message should be edited
+ */
+export function hasPostChanged(
+  previous: PostSnapshot,
+  current: PostSnapshot,
+  config: Pick<RefreshConfig, "changePercent" | "minChange">,
+): boolean {
+  return (
+    previous.title !== current.title ||
+    previous.flair !== current.flair ||
+    isSignificantChange(previous.score, current.score, config) ||
+    isSignificantChange(previous.numComments, current.numComments, config)
+  );
+}
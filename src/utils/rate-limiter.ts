@@ -0,0 +1,184 @@
+/**
+ * Discord rate limit tracking
+ * Follows per-webhook buckets and the global limit using Discord's response headers
+ */
+
+import { logger } from "./logger";
+
+/**
+ * State of a single rate limit bucket
+ */
+interface RateLimitBucket {
+  /** Requests left before the bucket resets */
+  remaining: number;
+  /** Unix timestamp (ms) when the bucket resets */
+  resetAt: number;
+  /** Discord bucket identifier if provided */
+  bucketId?: string;
+}
+
+/**
+ * Outcome of a 429 response
+ */
+export interface RateLimitHit {
+  /** Milliseconds to wait before retrying */
+  retryAfter: number;
+  /** Whether the global rate limit was hit */
+  global: boolean;
+}
+
+/**
+ * Response headers in the shape returned by axios or Node's http module
+ */
+type ResponseHeaders = Record<string, unknown>;
+
+/**
+ * Read a header value as a string (header names are lowercase in axios and http)
+ *
+ * @param headers - Response headers
+ * @param name - Lowercase header name
+ * @returns Header value or undefined
+ */
+function readHeader(
+  headers: ResponseHeaders | undefined,
+  name: string,
+): string | undefined {
+  const value = headers?.[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return Array.isArray(value) ? String(value[0]) : String(value);
+}
+
+/**
+ * Tracks Discord rate limits across webhook routes
+ * One instance should be shared by every DiscordService so the global limit
+ * applies to all webhooks the bot talks to
+ */
+export class DiscordRateLimiter {
+  private readonly buckets = new Map<string, RateLimitBucket>();
+  private globalResetAt = 0;
+
+  /**
+   * Get how long a request on a route must wait before it may be sent
+   *
+   * @param route - Route key (usually the webhook URL)
+   * @returns Wait time in milliseconds (0 when the request may go now)
+   */
+  getWaitTime(route: string): number {
+    const now = Date.now();
+    let waitTime = Math.max(0, this.globalResetAt - now);
+
+    const bucket = this.buckets.get(route);
+    if (bucket && bucket.remaining <= 0) {
+      waitTime = Math.max(waitTime, bucket.resetAt - now);
+    }
+
+    return waitTime;
+  }
+
+  /**
+   * Wait until a request on the route is allowed, then reserve a slot
+   *
+   * @param route - Route key (usually the webhook URL)
+   */
+  async acquire(route: string): Promise<void> {
+    const waitTime = this.getWaitTime(route);
+
+    if (waitTime > 0) {
+      logger.debug("Rate limiting: waiting before Discord request", {
+        waitTime,
+        global: this.globalResetAt > Date.now(),
+      });
+      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    }
+
+    const bucket = this.buckets.get(route);
+    if (bucket) {
+      if (bucket.resetAt <= Date.now()) {
+        // Bucket has reset - its state is unknown until the next response
+        this.buckets.delete(route);
+      } else {
+        bucket.remaining -= 1;
+      }
+    }
+  }
+
+  /**
+   * Update bucket state from X-RateLimit-* headers of a response
+   *
+   * @param route - Route key (usually the webhook URL)
+   * @param headers - Response headers
+   */
+  update(route: string, headers: ResponseHeaders | undefined): void {
+    const remaining = readHeader(headers, "x-ratelimit-remaining");
+    const resetAfter = readHeader(headers, "x-ratelimit-reset-after");
+
+    if (remaining === undefined || resetAfter === undefined) {
+      return;
+    }
+
+    const bucket: RateLimitBucket = {
+      remaining: parseInt(remaining, 10),
+      resetAt: Date.now() + parseFloat(resetAfter) * 1000,
+      bucketId: readHeader(headers, "x-ratelimit-bucket"),
+    };
+
+    if (isNaN(bucket.remaining) || isNaN(bucket.resetAt)) {
+      return;
+    }
+
+    this.buckets.set(route, bucket);
+  }
+
+  /**
+   * Record a 429 response and work out how long to wait before retrying
+   * Uses retry_after and global from the body, falling back to headers
+   *
+   * @param route - Route key (usually the webhook URL)
+   * @param headers - Response headers
+   * @param body - Response body
+   * @returns Retry delay and whether the limit is global
+   */
+  handleRateLimited(
+    route: string,
+    headers: ResponseHeaders | undefined,
+    body: unknown,
+  ): RateLimitHit {
+    const data = (body && typeof body === "object" ? body : {}) as {
+      retry_after?: number;
+      global?: boolean;
+    };
+
+    const retryAfterSeconds =
+      typeof data.retry_after === "number"
+        ? data.retry_after
+        : parseFloat(
+            readHeader(headers, "retry-after") ??
+              readHeader(headers, "x-ratelimit-reset-after") ??
+              "1",
+          );
+    const retryAfter = Math.ceil(
+      (isNaN(retryAfterSeconds) ? 1 : retryAfterSeconds) * 1000,
+    );
+
+    const global =
+      data.global === true ||
+      readHeader(headers, "x-ratelimit-global") === "true" ||
+      readHeader(headers, "x-ratelimit-scope") === "global";
+
+    const resetAt = Date.now() + retryAfter;
+
+    if (global) {
+      this.globalResetAt = Math.max(this.globalResetAt, resetAt);
+    } else {
+      this.buckets.set(route, {
+        remaining: 0,
+        resetAt,
+        bucketId: readHeader(headers, "x-ratelimit-bucket"),
+      });
+    }
+
+    return { retryAfter, global };
+  }
+}
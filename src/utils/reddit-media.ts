@@ -0,0 +1,119 @@
+/**
+ * Extraction of media details from raw Reddit submission data
+ * snoowrap types few of these fields, so the parts used are described here
+ */
+
+import { RedditGalleryItem, RedditVideo } from "../types";
+
+/**
+ * Entry of a submission's media_metadata
+ * Images have a source URL in s.u; animated images in s.gif
+ */
+interface RedditMediaMetadata {
+  status?: string;
+  e?: string;
+  s?: { u?: string; gif?: string; mp4?: string };
+}
+
+/**
+ * Gallery fields of a raw Reddit submission
+ */
+export interface RedditGalleryFields {
+  is_gallery?: boolean;
+  media_metadata?: Record<string, RedditMediaMetadata> | null;
+  gallery_data?: {
+    items?: { media_id: string; caption?: string }[];
+  } | null;
+}
+
+/**
+ * Video details in a submission's media or preview
+ */
+interface RedditVideoData {
+  fallback_url?: string;
+  duration?: number;
+  is_gif?: boolean;
+}
+
+/**
+ * Video fields of a raw Reddit submission
+ * GIF links from other sites get a Reddit-converted video in preview
+ */
+export interface RedditVideoFields {
+  is_video?: boolean;
+  secure_media?: { reddit_video?: RedditVideoData } | null;
+  media?: { reddit_video?: RedditVideoData } | null;
+  preview?: {
+    images?: { source?: { url?: string } }[];
+    reddit_video_preview?: RedditVideoData;
+  };
+}
+
+/**
+ * Undo the HTML escaping Reddit applies to URLs in its JSON
+ *
+ * @param url - URL as returned by Reddit
+ * @returns Usable URL
+ */
+export function decodeRedditUrl(url: string): string {
+  return url.replace(/&amp;/g, "&");
+}
+
+/**
+ * Get the images of a gallery post in gallery order
+ * Items whose media failed to process or was removed are skipped
+ *
+ * @param submission - Raw submission data
+ * @returns Gallery images, or undefined if the post isn't a gallery
+ */
+export function getGalleryItems(
+  submission: RedditGalleryFields,
+): RedditGalleryItem[] | undefined {
+  if (!submission.is_gallery || !submission.gallery_data?.items) {
+    return undefined;
+  }
+
+  const items: RedditGalleryItem[] = [];
+
+  for (const item of submission.gallery_data.items) {
+    const media = submission.media_metadata?.[item.media_id];
+    const source = media?.s?.u ?? media?.s?.gif;
+    if (media?.status !== "valid" || !source) {
+      continue;
+    }
+
+    items.push({
+      url: decodeRedditUrl(source),
+      ...(item.caption && { caption: item.caption }),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Get the Reddit-hosted video or GIF of a post
+ *
+ * @param submission - Raw submission data
+ * @returns Video details, or undefined if the post has no Reddit video
+ */
+export function getVideo(
+  submission: RedditVideoFields,
+): RedditVideo | undefined {
+  const video =
+    submission.secure_media?.reddit_video ??
+    submission.media?.reddit_video ??
+    submission.preview?.reddit_video_preview;
+  if (!video?.fallback_url) {
+    return undefined;
+  }
+
+  const previewUrl = submission.preview?.images?.[0]?.source?.url;
+
+  return {
+    url: decodeRedditUrl(video.fallback_url),
+    isGif: video.is_gif === true,
+    ...(video.duration && { duration: video.duration }),
+    ...(previewUrl && { previewUrl: decodeRedditUrl(previewUrl) }),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Handling of NSFW and spoiler posts for each Discord destination
+ */
+
+import { DiscordConfig, RedditPost, SensitivePostPolicy } from "../types";
+
+/**
+ * Valid policies, from most to least permissive
+ * A post that is both NSFW and a spoiler gets the stricter of its policies
+ */
+export const SENSITIVE_POST_POLICIES: readonly SensitivePostPolicy[] = [
+  "allow",
+  "spoiler",
+  "skip",
+];
+
+/**
+ * Policy for destinations that don't configure one
+ */
+export const DEFAULT_SENSITIVE_POST_POLICY: SensitivePostPolicy = "spoiler";
+
+/**
+ * Get how a destination should receive a post
+ *
+ * @param post - Reddit post
+ * @param config - Discord settings of the destination
+ * @returns "allow" for posts that are neither NSFW nor spoilers
+ */
+export function getSensitivePostPolicy(
+  post: RedditPost,
+  config: Pick<DiscordConfig, "nsfwPolicy" | "spoilerPolicy">,
+): SensitivePostPolicy {
+  const policies: SensitivePostPolicy[] = [];
+  if (post.over_18) {
+    policies.push(config.nsfwPolicy ?? DEFAULT_SENSITIVE_POST_POLICY);
+  }
+  if (post.spoiler) {
+    policies.push(config.spoilerPolicy ?? DEFAULT_SENSITIVE_POST_POLICY);
+  }
+
+  return policies.reduce<SensitivePostPolicy>(
+    (strictest, policy) =>
+      SENSITIVE_POST_POLICIES.indexOf(policy) >
+      SENSITIVE_POST_POLICIES.indexOf(strictest)
+        ? policy
+        : strictest,
+    "allow",
+  );
+}
+
+/**
+ * Describe why a post is sensitive
+ *
+ * @param post - Reddit post
+ * @returns Label such as "NSFW" or "NSFW, spoiler", or undefined for other posts
+ */
+export function getSensitiveLabel(post: RedditPost): string | undefined {
+  const labels = [post.over_18 && "NSFW", post.spoiler && "spoiler"].filter(
+    (label): label is string => Boolean(label),
+  );
+
+  if (labels.length === 0) {
+    return undefined;
+  }
+
+  const label = labels.join(", ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
@@ -0,0 +1,670 @@
+/**
+ * SQLite storage for tracking posted Reddit post IDs
+ * Keeps one row per sent post so lookups and inserts don't rewrite the whole history
+ */
+
+import Database from "better-sqlite3";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  StorageData,
+  PostStore,
+  PostRecord,
+  PostRecordDetails,
+  PostContent,
+  ListingCursor,
+  StorageRetention,
+  BotError,
+  Result,
+} from "../types";
+
+/**
+ * Schema for the posts and metadata tables
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS posts (
+    post_id TEXT PRIMARY KEY,
+    subreddit TEXT,
+    sent_at INTEGER NOT NULL,
+    message_id TEXT,
+    thread_id TEXT,
+    destination TEXT,
+    snapshot TEXT,
+    removed_at INTEGER,
+    source_id TEXT,
+    url TEXT,
+    comment_ids TEXT,
+    comments_checked_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS posts_sent_at ON posts (sent_at);
+  CREATE TABLE IF NOT EXISTS metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/**
+ * Columns added to the posts table after it was first released
+ * Databases created before then are upgraded when opened
+ */
+const ADDED_POST_COLUMNS: Readonly<Record<string, string>> = {
+  thread_id: "TEXT",
+  snapshot: "TEXT",
+  removed_at: "INTEGER",
+  source_id: "TEXT",
+  url: "TEXT",
+  comment_ids: "TEXT",
+  comments_checked_at: "INTEGER",
+};
+
+/**
+ * Posts table column for each post record detail
+ */
+const RECORD_COLUMNS = {
+  subreddit: "subreddit",
+  sentAt: "sent_at",
+  messageId: "message_id",
+  threadId: "thread_id",
+  destination: "destination",
+  snapshot: "snapshot",
+  removedAt: "removed_at",
+  sourceId: "source_id",
+  url: "url",
+  commentIds: "comment_ids",
+  commentsCheckedAt: "comments_checked_at",
+} as const satisfies Record<keyof PostRecordDetails, string>;
+
+/**
+ * Milliseconds in a day, for retention ages
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Row shape of the posts table
+ */
+interface PostRow {
+  post_id: string;
+  subreddit: string | null;
+  sent_at: number;
+  message_id: string | null;
+  thread_id: string | null;
+  destination: string | null;
+  snapshot: string | null;
+  removed_at: number | null;
+  source_id: string | null;
+  url: string | null;
+  comment_ids: string | null;
+  comments_checked_at: number | null;
+}
+
+/**
+ * Convert a posts table row to a post record
+ *
+ * @param row - Row from the posts table
+ * @returns Post record
+ */
+function toPostRecord(row: PostRow): PostRecord {
+  return {
+    postId: row.post_id,
+    subreddit: row.subreddit ?? undefined,
+    sentAt: row.sent_at,
+    messageId: row.message_id ?? undefined,
+    threadId: row.thread_id ?? undefined,
+    destination: row.destination ?? undefined,
+    snapshot: row.snapshot ? JSON.parse(row.snapshot) : undefined,
+    removedAt: row.removed_at ?? undefined,
+    sourceId: row.source_id ?? undefined,
+    url: row.url ?? undefined,
+    commentIds: row.comment_ids ? JSON.parse(row.comment_ids) : undefined,
+    commentsCheckedAt: row.comments_checked_at ?? undefined,
+  };
+}
+
+/**
+ * SQLite-backed post store
+ * Records the post ID, subreddit, sent time, Discord message ID and destination
+ */
+export class SqlitePostStore implements PostStore {
+  private filePath: string;
+  private retention: StorageRetention;
+  private db: Database.Database | null = null;
+
+  /**
+   * Creates a new SqlitePostStore instance
+   *
+   * @param filePath - Path to the SQLite database file
+   * @param retention - Retention policy applied when posts are added
+   */
+  constructor(filePath: string, retention: StorageRetention = {}) {
+    this.filePath = path.resolve(filePath);
+    this.retention = retention;
+  }
+
+  /**
+   * Open the database, creating the file and tables if they don't exist
+   *
+   * @returns Promise resolving to storage metadata
+   */
+  async load(): Promise<Result<StorageData["metadata"]>> {
+    try {
+      if (!this.db) {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        const db = new Database(this.filePath);
+        db.pragma("journal_mode = WAL");
+        db.exec(SCHEMA);
+        this.addMissingColumns(db);
+
+        const now = String(Date.now());
+        const insertMeta = db.prepare(
+          "INSERT OR IGNORE INTO metadata (key, value) VALUES (?, ?)",
+        );
+        insertMeta.run("createdAt", now);
+        insertMeta.run("lastUpdated", now);
+        // Databases from before the count was kept start from their rows
+        insertMeta.run("totalProcessed", String(this.countPosts(db)));
+
+        this.db = db;
+      }
+
+      return { success: true, data: this.readStats(this.db) };
+    } catch (error) {
+      const botError: BotError = {
+        message: `Failed to open SQLite storage at ${this.filePath}`,
+        code: "STORAGE_LOAD_ERROR",
+        originalError: error as Error,
+        context: { filePath: this.filePath },
+      };
+
+      return { success: false, error: botError };
+    }
+  }
+
+  /**
+   * Check if a Reddit post ID has already been posted
+   *
+   * @param postId - Reddit post ID to check
+   * @returns Promise resolving to boolean indicating if ID exists
+   */
+  async hasPostId(postId: string): Promise<boolean> {
+    const db = await this.ensureLoaded();
+    return (
+      db.prepare("SELECT 1 FROM posts WHERE post_id = ?").get(postId) !==
+      undefined
+    );
+  }
+
+  /**
+   * Add a new Reddit post ID with optional details
+   *
+   * @param postId - Reddit post ID to add
+   * @param details - Details about the sent post
+   * @returns Promise resolving to success/failure result
+   */
+  async addPostId(
+    postId: string,
+    details: PostRecordDetails = {},
+  ): Promise<Result<void>> {
+    return await this.addPostRecords([
+      { ...details, postId, sentAt: details.sentAt ?? Date.now() },
+    ]);
+  }
+
+  /**
+   * Add multiple Reddit post IDs at once
+   *
+   * @param postIds - Array of Reddit post IDs to add
+   * @returns Promise resolving to success/failure result
+   */
+  async addPostIds(postIds: string[]): Promise<Result<void>> {
+    const sentAt = Date.now();
+    return await this.addPostRecords(
+      postIds.map((postId) => ({ postId, sentAt })),
+    );
+  }
+
+  /**
+   * Add sent posts with their details in a single transaction
+   * Posts that are already stored are left unchanged, new posts are added to
+   * the total processed, and the retention policy is applied afterwards
+   *
+   * @param records - Sent post records
+   * @returns Promise resolving to success/failure result
+   */
+  async addPostRecords(records: PostRecord[]): Promise<Result<void>> {
+    try {
+      const db = await this.ensureLoaded();
+      const insert = db.prepare(
+        `INSERT OR IGNORE INTO posts
+          (post_id, subreddit, sent_at, message_id, thread_id, destination, snapshot, removed_at, source_id, url, comment_ids, comments_checked_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+
+      db.transaction(() => {
+        let added = 0;
+        for (const record of records) {
+          added += insert.run(
+            record.postId,
+            record.subreddit ?? null,
+            record.sentAt,
+            record.messageId ?? null,
+            record.threadId ?? null,
+            record.destination ?? null,
+            record.snapshot ? JSON.stringify(record.snapshot) : null,
+            record.removedAt ?? null,
+            record.sourceId ?? null,
+            record.url ?? null,
+            record.commentIds ? JSON.stringify(record.commentIds) : null,
+            record.commentsCheckedAt ?? null,
+          ).changes;
+        }
+        this.incrementTotalProcessed(db, added);
+        this.applyRetention(db);
+        this.touch(db);
+      })();
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return this.createSaveError(error);
+    }
+  }
+
+  /**
+   * Get the stored record for a post
+   *
+   * @param postId - Reddit post ID to look up
+   * @returns Promise resolving to the record or undefined
+   */
+  async getPostRecord(postId: string): Promise<PostRecord | undefined> {
+    const db = await this.ensureLoaded();
+    const row = db
+      .prepare("SELECT * FROM posts WHERE post_id = ?")
+      .get(postId) as PostRow | undefined;
+
+    return row ? toPostRecord(row) : undefined;
+  }
+
+  /**
+   * Get sent posts with a Discord message ID sent at or after a time
+   *
+   * @param since - Earliest sent timestamp to include
+   * @returns Promise resolving to the matching records, oldest first
+   */
+  async getRecentPostRecords(since: number): Promise<PostRecord[]> {
+    const db = await this.ensureLoaded();
+    const rows = db
+      .prepare(
+        `SELECT * FROM posts
+          WHERE message_id IS NOT NULL AND sent_at >= ?
+          ORDER BY sent_at, rowid`,
+      )
+      .all(since) as PostRow[];
+    return rows.map(toPostRecord);
+  }
+
+  /**
+   * Get posts sent at or after a time with the same original post or link
+   *
+   * @param since - Earliest sent timestamp to include
+   * @param content - Original post ID and normalised link to look for
+   * @returns Promise resolving to the matching records, oldest first
+   */
+  async findPostRecordsByContent(
+    since: number,
+    content: PostContent,
+  ): Promise<PostRecord[]> {
+    const db = await this.ensureLoaded();
+    const rows = db
+      .prepare(
+        `SELECT * FROM posts
+          WHERE sent_at >= ? AND (source_id = ? OR url = ?)
+          ORDER BY sent_at, rowid`,
+      )
+      .all(since, content.sourceId ?? null, content.url ?? null) as PostRow[];
+    return rows.map(toPostRecord);
+  }
+
+  /**
+   * Update the details of a sent post
+   * Unknown post IDs are ignored
+   *
+   * @param postId - Storage key of the post
+   * @param details - Details to store
+   * @returns Promise resolving to success/failure result
+   */
+  async updatePostRecord(
+    postId: string,
+    details: PostRecordDetails,
+  ): Promise<Result<void>> {
+    try {
+      const db = await this.ensureLoaded();
+      const fields = (
+        Object.keys(details) as (keyof PostRecordDetails)[]
+      ).filter((field) => field in RECORD_COLUMNS);
+      if (fields.length === 0) {
+        return { success: true, data: undefined };
+      }
+
+      const assignments = fields
+        .map((field) => `${RECORD_COLUMNS[field]} = ?`)
+        .join(", ");
+      const values = fields.map((field) =>
+        field === "snapshot" || field === "commentIds"
+          ? JSON.stringify(details[field])
+          : (details[field] ?? null),
+      );
+
+      db.transaction(() => {
+        db.prepare(`UPDATE posts SET ${assignments} WHERE post_id = ?`).run(
+          ...values,
+          postId,
+        );
+        this.touch(db);
+      })();
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return this.createSaveError(error);
+    }
+  }
+
+  /**
+   * Get all posted Reddit post IDs in the order they were sent
+   *
+   * @returns Promise resolving to array of posted IDs
+   */
+  async getPostedIds(): Promise<string[]> {
+    const db = await this.ensureLoaded();
+    const rows = db
+      .prepare("SELECT post_id FROM posts ORDER BY sent_at, rowid")
+      .all() as Pick<PostRow, "post_id">[];
+    return rows.map((row) => row.post_id);
+  }
+
+  /**
+   * Get storage statistics
+   *
+   * @returns Promise resolving to storage metadata
+   */
+  async getStats(): Promise<StorageData["metadata"]> {
+    const db = await this.ensureLoaded();
+    return this.readStats(db);
+  }
+
+  /**
+   * Add posts counted elsewhere to the total processed
+   * Used to carry the count across when history is imported from another store
+   *
+   * @param count - Number of posts to add
+   * @returns Promise resolving to success/failure result
+   */
+  async addToTotalProcessed(count: number): Promise<Result<void>> {
+    try {
+      const db = await this.ensureLoaded();
+      db.transaction(() => {
+        this.incrementTotalProcessed(db, count);
+        this.touch(db);
+      })();
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return this.createSaveError(error);
+    }
+  }
+
+  /**
+   * Clear all posted IDs (for testing or reset purposes)
+   *
+   * @returns Promise resolving to success/failure result
+   */
+  async clear(): Promise<Result<void>> {
+    try {
+      const db = await this.ensureLoaded();
+      db.transaction(() => {
+        db.prepare("DELETE FROM posts").run();
+        this.setMetadata(db, "totalProcessed", "0");
+        this.touch(db);
+      })();
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return this.createSaveError(error);
+    }
+  }
+
+  /**
+   * Update the last check timestamp
+   *
+   * @returns Promise resolving to success/failure result
+   */
+  async updateLastCheck(): Promise<Result<void>> {
+    try {
+      const db = await this.ensureLoaded();
+      this.setMetadata(db, "lastCheck", String(Date.now()));
+      this.touch(db);
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return this.createSaveError(error);
+    }
+  }
+
+  /**
+   * Get the timestamp of the last check
+   *
+   * @returns Promise resolving to last check timestamp or undefined
+   */
+  async getLastCheck(): Promise<number | undefined> {
+    const db = await this.ensureLoaded();
+    const value = this.getMetadata(db, "lastCheck");
+    return value === undefined ? undefined : Number(value);
+  }
+
+  /**
+   * Get the newest post a feed has seen
+   *
+   * @param feed - Feed name
+   * @returns Promise resolving to the feed's cursor or undefined
+   */
+  async getCursor(feed: string): Promise<ListingCursor | undefined> {
+    const db = await this.ensureLoaded();
+    const value = this.getMetadata(db, `cursor:${feed}`);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  /**
+   * Record the newest post a feed has seen
+   *
+   * @param feed - Feed name
+   * @param cursor - Newest post seen
+   * @returns Promise resolving to success/failure result
+   */
+  async updateCursor(
+    feed: string,
+    cursor: ListingCursor,
+  ): Promise<Result<void>> {
+    try {
+      const db = await this.ensureLoaded();
+      this.setMetadata(db, `cursor:${feed}`, JSON.stringify(cursor));
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return this.createSaveError(error);
+    }
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Ensure the database is open before operations
+   *
+   * @returns Open database connection
+   * @private
+   */
+  private async ensureLoaded(): Promise<Database.Database> {
+    if (!this.db) {
+      const result = await this.load();
+      if (!result.success) {
+        throw new Error(`Failed to load storage: ${result.error.message}`);
+      }
+    }
+    return this.db as Database.Database;
+  }
+
+  /**
+   * Add columns introduced after the database was created
+   *
+   * @param db - Open database connection
+   * @private
+   */
+  private addMissingColumns(db: Database.Database): void {
+    const existing = new Set(
+      (db.prepare("PRAGMA table_info(posts)").all() as { name: string }[]).map(
+        (column) => column.name,
+      ),
+    );
+
+    for (const [column, type] of Object.entries(ADDED_POST_COLUMNS)) {
+      if (!existing.has(column)) {
+        db.exec(`ALTER TABLE posts ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+
+  /**
+   * Delete posts that fall outside the retention policy
+   *
+   * @param db - Open database connection
+   * @private
+   */
+  private applyRetention(db: Database.Database): void {
+    const { maxAgeDays, maxEntries } = this.retention;
+
+    if (maxAgeDays !== undefined) {
+      db.prepare("DELETE FROM posts WHERE sent_at < ?").run(
+        Date.now() - maxAgeDays * DAY_MS,
+      );
+    }
+
+    if (maxEntries !== undefined) {
+      db.prepare(
+        `DELETE FROM posts WHERE rowid NOT IN (
+          SELECT rowid FROM posts ORDER BY sent_at DESC, rowid DESC LIMIT ?
+        )`,
+      ).run(maxEntries);
+    }
+  }
+
+  /**
+   * Read storage statistics from the database
+   *
+   * @param db - Open database connection
+   * @returns Storage metadata
+   * @private
+   */
+  private readStats(db: Database.Database): StorageData["metadata"] {
+    return {
+      totalProcessed: Number(this.getMetadata(db, "totalProcessed")),
+      createdAt: Number(this.getMetadata(db, "createdAt")),
+      lastUpdated: Number(this.getMetadata(db, "lastUpdated")),
+    };
+  }
+
+  /**
+   * Count the posts currently stored
+   *
+   * @param db - Open database connection
+   * @returns Number of rows in the posts table
+   * @private
+   */
+  private countPosts(db: Database.Database): number {
+    const { count } = db
+      .prepare("SELECT COUNT(*) AS count FROM posts")
+      .get() as { count: number };
+    return count;
+  }
+
+  /**
+   * Add to the running count of posts sent, which retention doesn't reduce
+   *
+   * @param db - Open database connection
+   * @param count - Number of posts to add
+   * @private
+   */
+  private incrementTotalProcessed(db: Database.Database, count: number): void {
+    if (count <= 0) {
+      return;
+    }
+
+    this.setMetadata(
+      db,
+      "totalProcessed",
+      String(Number(this.getMetadata(db, "totalProcessed")) + count),
+    );
+  }
+
+  /**
+   * Record that the store was modified
+   *
+   * @param db - Open database connection
+   * @private
+   */
+  private touch(db: Database.Database): void {
+    this.setMetadata(db, "lastUpdated", String(Date.now()));
+  }
+
+  /**
+   * Read a metadata value
+   *
+   * @param db - Open database connection
+   * @param key - Metadata key
+   * @returns Stored value or undefined
+   * @private
+   */
+  private getMetadata(db: Database.Database, key: string): string | undefined {
+    const row = db
+      .prepare("SELECT value FROM metadata WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  /**
+   * Write a metadata value
+   *
+   * @param db - Open database connection
+   * @param key - Metadata key
+   * @param value - Value to store
+   * @private
+   */
+  private setMetadata(db: Database.Database, key: string, value: string): void {
+    db.prepare(
+      "INSERT INTO metadata (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+    ).run(key, value);
+  }
+
+  /**
+   * Wrap a write failure in a storage save error
+   *
+   * @param error - Error thrown by the database
+   * @returns Failed result
+   * @private
+   */
+  private createSaveError(error: unknown): Result<void> {
+    const botError: BotError = {
+      message: `Failed to save storage to ${this.filePath}`,
+      code: "STORAGE_SAVE_ERROR",
+      originalError: error instanceof Error ? error : new Error(String(error)),
+      context: { filePath: this.filePath },
+    };
+
+    return { success: false, error: botError };
+  }
+}
+
+export default SqlitePostStore;
@@ -0,0 +1,126 @@
+/**
+ * Storage format migrations
+ * Ordered registry of upgrades applied when an older storage file is loaded
+ */
+
+import {
+  AppliedMigration,
+  StorageData,
+  StorageDataV1,
+  StorageMigration,
+  Result,
+} from "../types";
+
+/**
+ * Current version of the storage file format
+ */
+export const STORAGE_VERSION = 2;
+
+/**
+ * Upgrade version 1 storage data (bare post IDs) to version 2 (timestamped posts)
+ * Version 1 did not record when posts were sent, so the migration time is used
+ * to keep retention from forgetting the migrated posts straight away
+ *
+ * @param data - Version 1 storage data
+ * @param migratedAt - Timestamp recorded as the sent time of every post
+ * @returns Version 2 storage data
+ */
+export function migrateStorageV1ToV2(
+  data: StorageDataV1,
+  migratedAt: number = Date.now(),
+): StorageData {
+  const { postedIds, ...rest } = data;
+
+  return {
+    ...rest,
+    posts: postedIds.map((postId) => ({ postId, sentAt: migratedAt })),
+    version: 2,
+  };
+}
+
+/**
+ * Registered migrations keyed by the version they upgrade from
+ * Add an entry here (and bump STORAGE_VERSION) when the format changes
+ */
+export const STORAGE_MIGRATIONS: Readonly<Record<number, StorageMigration>> = {
+  1: {
+    fromVersion: 1,
+    toVersion: 2,
+    description: "Store posts with the time they were sent",
+    migrate: (data) =>
+      migrateStorageV1ToV2(
+        data as unknown as StorageDataV1,
+      ) as unknown as Record<string, unknown>,
+  },
+};
+
+/**
+ * Apply migrations in order until data reaches the target version
+ *
+ * @param data - Parsed storage data with a numeric version
+ * @param targetVersion - Version to upgrade to
+ * @param migrations - Migration registry to use
+ * @returns Result with the upgraded data and the migrations that ran
+ */
+export function runStorageMigrations(
+  data: Record<string, unknown>,
+  targetVersion: number = STORAGE_VERSION,
+  migrations: Readonly<Record<number, StorageMigration>> = STORAGE_MIGRATIONS,
+): Result<{ data: Record<string, unknown>; applied: AppliedMigration[] }> {
+  const applied: AppliedMigration[] = [];
+  let current = data;
+
+  while ((current.version as number) < targetVersion) {
+    const version = current.version as number;
+    const migration = migrations[version];
+
+    if (!migration) {
+      return {
+        success: false,
+        error: {
+          message: `No storage migration registered from version ${version}`,
+          code: "STORAGE_MIGRATION_MISSING",
+          context: { version, targetVersion, applied },
+        },
+      };
+    }
+
+    try {
+      current = migration.migrate(current);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: `Storage migration from version ${version} failed`,
+          code: "STORAGE_MIGRATION_ERROR",
+          originalError:
+            error instanceof Error ? error : new Error(String(error)),
+          context: { version, targetVersion, applied },
+        },
+      };
+    }
+
+    // A migration must move forward to the version it declares
+    if (
+      current.version !== migration.toVersion ||
+      migration.toVersion <= version
+    ) {
+      return {
+        success: false,
+        error: {
+          message: `Storage migration from version ${version} produced version ${current.version} instead of ${migration.toVersion}`,
+          code: "STORAGE_MIGRATION_ERROR",
+          context: { version, targetVersion, applied },
+        },
+      };
+    }
+
+    applied.push({
+      fromVersion: migration.fromVersion,
+      toVersion: migration.toVersion,
+      description: migration.description,
+    });
+  }
+
+  return { success: true, data: { data: current, applied } };
+}
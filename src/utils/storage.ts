@@ -5,72 +5,157 @@
 
 import { promises as fs } from "fs";
 import path from "path";
-import { StorageData, BotError, Result } from "../types";
+import {
+  StorageData,
+  PostStore,
+  PostRecord,
+  PostRecordDetails,
+  PostContent,
+  ListingCursor,
+  StorageBackend,
+  StorageRetention,
+  AppliedMigration,
+  BotError,
+  Result,
+} from "../types";
+import { writeFileAtomic } from "./atomic-file";
+import { FileLock } from "./file-lock";
+import { SqlitePostStore } from "./sqlite-storage";
+import { isSameContent } from "./post-dedupe";
+import { STORAGE_VERSION, runStorageMigrations } from "./storage-migrations";
+import { logger } from "./logger";
 
 /**
- * Default storage data structure
+ * Milliseconds in a day, for retention ages
  */
-const DEFAULT_STORAGE_DATA: StorageData = {
-  postedIds: [],
-  version: 1,
-  metadata: {
-    totalProcessed: 0,
-    createdAt: Date.now(),
-    lastUpdated: Date.now(),
-  },
-};
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Storage class for managing posted Reddit IDs
+ * Create the default storage data structure
+ * A fresh object is returned so instances never share the posts array
+ *
+ * @returns Default storage data
+ */
+function createDefaultStorageData(): StorageData {
+  return {
+    posts: [],
+    version: STORAGE_VERSION,
+    metadata: {
+      totalProcessed: 0,
+      createdAt: Date.now(),
+      lastUpdated: Date.now(),
+    },
+  };
+}
+
+/**
+ * Storage class for managing posted Reddit IDs in a JSON file
  * Handles loading, saving, and querying of posted post IDs
+ *
+ * Writes are atomic and the previous version is kept in `<file>.bak`, which
+ * load falls back to if the main file is corrupt. A `<file>.lock` file stops
+ * two bot instances from using the same storage file.
  */
-export class RedditStorage {
+export class RedditStorage implements PostStore {
   private filePath: string;
+  private backupPath: string;
+  private lock: FileLock;
+  private retention: StorageRetention;
   private data: StorageData;
+  private index: Set<string> = new Set();
+  private appliedMigrations: AppliedMigration[] = [];
   private isLoaded: boolean = false;
 
   /**
    * Creates a new RedditStorage instance
    *
    * @param filePath - Path to the storage JSON file
+   * @param retention - Retention policy applied when saving
    */
-  constructor(filePath: string) {
+  constructor(filePath: string, retention: StorageRetention = {}) {
     this.filePath = path.resolve(filePath);
-    this.data = { ...DEFAULT_STORAGE_DATA };
+    this.backupPath = `${this.filePath}.bak`;
+    this.lock = new FileLock(`${this.filePath}.lock`);
+    this.retention = retention;
+    this.data = createDefaultStorageData();
   }
 
   /**
    * Load storage data from file
-   * Creates file with default data if it doesn't exist
+   * Creates file with default data if it doesn't exist, restores the backup
+   * if the file is corrupt, and migrates files from older versions to the
+   * current format
    *
    * @returns Promise resolving to success/failure result
    */
   async load(): Promise<Result<StorageData>> {
     try {
+      await this.ensureDirectoryExists();
+
+      const lockResult = await this.lock.acquire();
+      if (!lockResult.success) {
+        return lockResult;
+      }
+
       // Check if file exists
       try {
         await fs.access(this.filePath);
       } catch {
-        // File doesn't exist, create directory and file
-        await this.ensureDirectoryExists();
+        // File doesn't exist, create it
         await this.save();
         this.isLoaded = true;
         return { success: true, data: this.data };
       }
 
-      // Read and parse file
-      const fileContent = await fs.readFile(this.filePath, "utf-8");
-      const parsedData = JSON.parse(fileContent) as StorageData;
+      let fileResult = await this.readStorageFile(this.filePath);
+      if (!fileResult.success) {
+        const backupResult = await this.readStorageFile(this.backupPath);
+        if (!backupResult.success) {
+          return fileResult;
+        }
+
+        // Keep the corrupt file for inspection, then put the backup back in
+        // place without letting the corrupt file overwrite it
+        const corruptPath = `${this.filePath}.corrupt`;
+        await fs.copyFile(this.filePath, corruptPath);
+        await writeFileAtomic(this.filePath, backupResult.data.content);
+        logger.warn("Storage file is corrupt, restored from backup", {
+          filePath: this.filePath,
+          backupPath: this.backupPath,
+          corruptPath,
+          error: fileResult.error.message,
+        });
+
+        fileResult = backupResult;
+      }
 
-      // Validate data structure
-      const validationResult = this.validateStorageData(parsedData);
-      if (!validationResult.success) {
-        return validationResult;
+      const { data: storedData, content: fileContent } = fileResult.data;
+
+      this.appliedMigrations = [];
+      const needsMigration = storedData.version < STORAGE_VERSION;
+      if (needsMigration) {
+        const migrationResult = await this.migrate(
+          storedData as unknown as Record<string, unknown>,
+          fileContent,
+        );
+        if (!migrationResult.success) {
+          return migrationResult;
+        }
+        this.data = migrationResult.data;
+      } else {
+        this.data = storedData;
       }
 
-      this.data = parsedData;
+      this.rebuildIndex();
       this.isLoaded = true;
 
+      if (needsMigration) {
+        const saveResult = await this.save();
+        if (!saveResult.success) {
+          return saveResult;
+        }
+      }
+
       return { success: true, data: this.data };
     } catch (error) {
       const botError: BotError = {
@@ -84,8 +169,19 @@ export class RedditStorage {
     }
   }
 
+  /**
+   * Get the migrations applied by the last load
+   *
+   * @returns Migrations that ran, oldest first (empty if none were needed)
+   */
+  getAppliedMigrations(): AppliedMigration[] {
+    return this.appliedMigrations.map((migration) => ({ ...migration }));
+  }
+
   /**
    * Save current storage data to file
+   * Applies the retention policy before writing, then atomically replaces
+   * the file after copying the current version to the backup
    *
    * @returns Promise resolving to success/failure result
    */
@@ -93,13 +189,18 @@ export class RedditStorage {
     try {
       await this.ensureDirectoryExists();
 
+      this.applyRetention();
+
       // Update metadata
       if (this.data.metadata) {
         this.data.metadata.lastUpdated = Date.now();
       }
 
       const jsonData = JSON.stringify(this.data, null, 2);
-      await fs.writeFile(this.filePath, jsonData, "utf-8");
+      await writeFileAtomic(this.filePath, jsonData, {
+        backupPath: this.backupPath,
+      });
+      await this.lock.refresh();
 
       return { success: true, data: undefined };
     } catch (error) {
@@ -122,7 +223,7 @@ export class RedditStorage {
    */
   async hasPostId(postId: string): Promise<boolean> {
     await this.ensureLoaded();
-    return this.data.postedIds.includes(postId);
+    return this.index.has(postId);
   }
 
   /**
@@ -130,25 +231,16 @@ export class RedditStorage {
    * Automatically saves after adding
    *
    * @param postId - Reddit post ID to add
+   * @param details - Details about the sent post
    * @returns Promise resolving to success/failure result
    */
-  async addPostId(postId: string): Promise<Result<void>> {
-    await this.ensureLoaded();
-
-    // Don't add if already exists
-    if (this.data.postedIds.includes(postId)) {
-      return { success: true, data: undefined };
-    }
-
-    this.data.postedIds.push(postId);
-
-    // Update metadata
-    if (this.data.metadata) {
-      this.data.metadata.totalProcessed += 1;
-    }
-
-    // Save immediately after adding
-    return await this.save();
+  async addPostId(
+    postId: string,
+    details: PostRecordDetails = {},
+  ): Promise<Result<void>> {
+    return await this.addPostRecords([
+      { ...details, postId, sentAt: details.sentAt ?? Date.now() },
+    ]);
   }
 
   /**
@@ -159,12 +251,27 @@ export class RedditStorage {
    * @returns Promise resolving to success/failure result
    */
   async addPostIds(postIds: string[]): Promise<Result<void>> {
+    const sentAt = Date.now();
+    return await this.addPostRecords(
+      postIds.map((postId) => ({ postId, sentAt })),
+    );
+  }
+
+  /**
+   * Add sent posts with their details
+   * Posts that are already stored are left unchanged
+   *
+   * @param records - Sent post records
+   * @returns Promise resolving to success/failure result
+   */
+  async addPostRecords(records: PostRecord[]): Promise<Result<void>> {
     await this.ensureLoaded();
 
     let addedCount = 0;
-    for (const postId of postIds) {
-      if (!this.data.postedIds.includes(postId)) {
-        this.data.postedIds.push(postId);
+    for (const record of records) {
+      if (!this.index.has(record.postId)) {
+        this.data.posts.push({ ...record });
+        this.index.add(record.postId);
         addedCount++;
       }
     }
@@ -182,6 +289,24 @@ export class RedditStorage {
     return { success: true, data: undefined };
   }
 
+  /**
+   * Add posts counted elsewhere to the total processed
+   * Used to carry the count across when history is imported from another store
+   *
+   * @param count - Number of posts to add
+   * @returns Promise resolving to success/failure result
+   */
+  async addToTotalProcessed(count: number): Promise<Result<void>> {
+    await this.ensureLoaded();
+
+    if (!this.data.metadata || count <= 0) {
+      return { success: true, data: undefined };
+    }
+
+    this.data.metadata.totalProcessed += count;
+    return await this.save();
+  }
+
   /**
    * Get all posted Reddit post IDs
    *
@@ -189,7 +314,74 @@ export class RedditStorage {
    */
   async getPostedIds(): Promise<string[]> {
     await this.ensureLoaded();
-    return [...this.data.postedIds]; // Return copy to prevent external modification
+    return this.data.posts.map((record) => record.postId);
+  }
+
+  /**
+   * Get all sent post records, oldest first
+   *
+   * @returns Promise resolving to copies of the stored records
+   */
+  async getPostRecords(): Promise<PostRecord[]> {
+    await this.ensureLoaded();
+    return this.data.posts.map((record) => ({ ...record }));
+  }
+
+  /**
+   * Get sent posts with a Discord message ID sent at or after a time
+   *
+   * @param since - Earliest sent timestamp to include
+   * @returns Promise resolving to copies of the matching records, oldest first
+   */
+  async getRecentPostRecords(since: number): Promise<PostRecord[]> {
+    await this.ensureLoaded();
+    return this.data.posts
+      .filter(
+        (record) => record.messageId !== undefined && record.sentAt >= since,
+      )
+      .map((record) => ({ ...record }));
+  }
+
+  /**
+   * Get posts sent at or after a time with the same original post or link
+   *
+   * @param since - Earliest sent timestamp to include
+   * @param content - Original post ID and normalised link to look for
+   * @returns Promise resolving to copies of the matching records, oldest first
+   */
+  async findPostRecordsByContent(
+    since: number,
+    content: PostContent,
+  ): Promise<PostRecord[]> {
+    await this.ensureLoaded();
+    return this.data.posts
+      .filter(
+        (record) => record.sentAt >= since && isSameContent(record, content),
+      )
+      .map((record) => ({ ...record }));
+  }
+
+  /**
+   * Update the details of a sent post
+   * Unknown post IDs are ignored
+   *
+   * @param postId - Storage key of the post
+   * @param details - Details to merge into the record
+   * @returns Promise resolving to success/failure result
+   */
+  async updatePostRecord(
+    postId: string,
+    details: PostRecordDetails,
+  ): Promise<Result<void>> {
+    await this.ensureLoaded();
+
+    const record = this.data.posts.find((post) => post.postId === postId);
+    if (!record) {
+      return { success: true, data: undefined };
+    }
+
+    Object.assign(record, details);
+    return await this.save();
   }
 
   /**
@@ -210,7 +402,8 @@ export class RedditStorage {
   async clear(): Promise<Result<void>> {
     await this.ensureLoaded();
 
-    this.data.postedIds = [];
+    this.data.posts = [];
+    this.index.clear();
     if (this.data.metadata) {
       this.data.metadata.totalProcessed = 0;
       this.data.metadata.lastUpdated = Date.now();
@@ -241,6 +434,171 @@ export class RedditStorage {
     return this.data.lastCheck;
   }
 
+  /**
+   * Get the newest post a feed has seen
+   *
+   * @param feed - Feed name
+   * @returns Promise resolving to the feed's cursor or undefined
+   */
+  async getCursor(feed: string): Promise<ListingCursor | undefined> {
+    await this.ensureLoaded();
+    return this.data.cursors?.[feed];
+  }
+
+  /**
+   * Record the newest post a feed has seen
+   *
+   * @param feed - Feed name
+   * @param cursor - Newest post seen
+   * @returns Promise resolving to success/failure result
+   */
+  async updateCursor(
+    feed: string,
+    cursor: ListingCursor,
+  ): Promise<Result<void>> {
+    await this.ensureLoaded();
+
+    this.data.cursors = { ...this.data.cursors, [feed]: cursor };
+    return await this.save();
+  }
+
+  /**
+   * Release the storage lock
+   * File handles are not kept open between operations
+   */
+  async close(): Promise<void> {
+    await this.lock.release();
+    this.isLoaded = false;
+  }
+
+  /**
+   * Upgrade data from an older storage version
+   * The original file is copied to a versioned backup before migrating
+   *
+   * @param data - Parsed storage data in an older format
+   * @param originalContent - Original file contents for the backup
+   * @returns Promise resolving to the migrated storage data
+   * @private
+   */
+  private async migrate(
+    data: Record<string, unknown>,
+    originalContent: string,
+  ): Promise<Result<StorageData>> {
+    const fromVersion = data.version as number;
+    const backupPath = `${this.filePath}.v${fromVersion}.bak`;
+    await fs.writeFile(backupPath, originalContent, "utf-8");
+
+    const migrationResult = runStorageMigrations(data);
+    if (!migrationResult.success) {
+      return {
+        success: false,
+        error: {
+          ...migrationResult.error,
+          context: {
+            ...migrationResult.error.context,
+            filePath: this.filePath,
+            backupPath,
+          },
+        },
+      };
+    }
+
+    const validationResult = this.validateStorageData(
+      migrationResult.data.data,
+    );
+    if (!validationResult.success) {
+      return validationResult;
+    }
+
+    this.appliedMigrations = migrationResult.data.applied;
+
+    logger.info("Storage migrated to the current format", {
+      filePath: this.filePath,
+      backupPath,
+      fromVersion,
+      toVersion: STORAGE_VERSION,
+      migrations: this.appliedMigrations.map(
+        (migration) =>
+          `v${migration.fromVersion} -> v${migration.toVersion}: ${migration.description}`,
+      ),
+    });
+
+    return validationResult;
+  }
+
+  /**
+   * Forget posts that fall outside the retention policy
+   * Posts older than maxAgeDays are dropped, then the oldest posts
+   * beyond maxEntries
+   *
+   * @private
+   */
+  private applyRetention(): void {
+    const { maxAgeDays, maxEntries } = this.retention;
+    const before = this.data.posts.length;
+
+    if (maxAgeDays !== undefined) {
+      const cutoff = Date.now() - maxAgeDays * DAY_MS;
+      this.data.posts = this.data.posts.filter(
+        (record) => record.sentAt >= cutoff,
+      );
+    }
+
+    if (maxEntries !== undefined && this.data.posts.length > maxEntries) {
+      this.data.posts = this.data.posts.slice(
+        this.data.posts.length - maxEntries,
+      );
+    }
+
+    if (this.data.posts.length !== before) {
+      this.rebuildIndex();
+    }
+  }
+
+  /**
+   * Rebuild the in-memory index of stored post IDs
+   *
+   * @private
+   */
+  private rebuildIndex(): void {
+    this.index = new Set(this.data.posts.map((record) => record.postId));
+  }
+
+  /**
+   * Read and validate a storage file
+   *
+   * @param filePath - File to read
+   * @returns Result with the validated data and the raw file contents
+   * @private
+   */
+  private async readStorageFile(
+    filePath: string,
+  ): Promise<Result<{ data: StorageData; content: string }>> {
+    let content: string;
+    let parsedData: unknown;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+      parsedData = JSON.parse(content);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: `Failed to load storage from ${filePath}`,
+          code: "STORAGE_LOAD_ERROR",
+          originalError: error as Error,
+          context: { filePath },
+        },
+      };
+    }
+
+    const validationResult = this.validateStorageData(parsedData);
+    if (!validationResult.success) {
+      return validationResult;
+    }
+
+    return { success: true, data: { data: validationResult.data, content } };
+  }
+
   /**
    * Ensure storage is loaded before operations
    *
@@ -271,6 +629,7 @@ export class RedditStorage {
 
   /**
    * Validate storage data structure
+   * Version 1 files are checked for postedIds, later versions for posts
    *
    * @param data - Data to validate
    * @returns Result indicating validation success/failure
@@ -289,35 +648,75 @@ export class RedditStorage {
 
     const storageData = data as Record<string, unknown>;
 
-    if (!Array.isArray(storageData.postedIds)) {
+    if (typeof storageData.version !== "number") {
       return {
         success: false,
         error: {
-          message: "Storage data postedIds is not an array",
+          message: "Storage data version is not a number",
           code: "INVALID_STORAGE_FORMAT",
         },
       };
     }
 
-    if (typeof storageData.version !== "number") {
+    if (storageData.version > STORAGE_VERSION) {
       return {
         success: false,
         error: {
-          message: "Storage data version is not a number",
+          message: `Storage data version ${storageData.version} is newer than supported version ${STORAGE_VERSION}`,
+          code: "INVALID_STORAGE_FORMAT",
+        },
+      };
+    }
+
+    if (storageData.version === 1) {
+      if (!Array.isArray(storageData.postedIds)) {
+        return {
+          success: false,
+          error: {
+            message: "Storage data postedIds is not an array",
+            code: "INVALID_STORAGE_FORMAT",
+          },
+        };
+      }
+
+      // Ensure all postedIds are strings
+      const invalidIds = storageData.postedIds.filter(
+        (id) => typeof id !== "string",
+      );
+      if (invalidIds.length > 0) {
+        return {
+          success: false,
+          error: {
+            message: `Storage data contains non-string post IDs: ${invalidIds.length}`,
+            code: "INVALID_STORAGE_FORMAT",
+          },
+        };
+      }
+
+      return { success: true, data: storageData as unknown as StorageData };
+    }
+
+    if (!Array.isArray(storageData.posts)) {
+      return {
+        success: false,
+        error: {
+          message: "Storage data posts is not an array",
           code: "INVALID_STORAGE_FORMAT",
         },
       };
     }
 
-    // Ensure all postedIds are strings
-    const invalidIds = storageData.postedIds.filter(
-      (id) => typeof id !== "string",
+    const invalidPosts = storageData.posts.filter(
+      (record) =>
+        !record ||
+        typeof record.postId !== "string" ||
+        typeof record.sentAt !== "number",
     );
-    if (invalidIds.length > 0) {
+    if (invalidPosts.length > 0) {
       return {
         success: false,
         error: {
-          message: `Storage data contains non-string post IDs: ${invalidIds.length}`,
+          message: `Storage data contains invalid posts: ${invalidPosts.length}`,
           code: "INVALID_STORAGE_FORMAT",
         },
       };
@@ -331,10 +730,94 @@ export class RedditStorage {
  * Create a new RedditStorage instance
  *
  * @param filePath - Path to the storage JSON file
+ * @param retention - Retention policy applied when saving
  * @returns New RedditStorage instance
  */
-export function createStorage(filePath: string): RedditStorage {
-  return new RedditStorage(filePath);
+export function createStorage(
+  filePath: string,
+  retention?: StorageRetention,
+): RedditStorage {
+  return new RedditStorage(filePath, retention);
+}
+
+/**
+ * Create the post store for the configured storage backend
+ *
+ * @param backend - Storage backend to use
+ * @param filePath - Path to the JSON file or SQLite database
+ * @param retention - Retention policy for tracked posts
+ * @returns New post store instance
+ */
+export function createPostStore(
+  backend: StorageBackend,
+  filePath: string,
+  retention?: StorageRetention,
+): PostStore {
+  return backend === "sqlite"
+    ? new SqlitePostStore(filePath, retention)
+    : new RedditStorage(filePath, retention);
+}
+
+/**
+ * Import the sent posts of a JSON storage file into another post store
+ * Used to move existing history to the SQLite backend
+ *
+ * @param jsonFilePath - Path to the existing JSON storage file
+ * @param target - Post store to import into
+ * @returns Promise resolving to the number of IDs read and newly imported
+ */
+export async function importJsonStorage(
+  jsonFilePath: string,
+  target: PostStore,
+): Promise<Result<{ total: number; imported: number }>> {
+  try {
+    await fs.access(path.resolve(jsonFilePath));
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: `JSON storage file not found: ${jsonFilePath}`,
+        code: "STORAGE_IMPORT_ERROR",
+        originalError: error as Error,
+        context: { filePath: jsonFilePath },
+      },
+    };
+  }
+
+  const source = new RedditStorage(jsonFilePath);
+  const loadResult = await source.load();
+  if (!loadResult.success) {
+    return loadResult;
+  }
+
+  const records = await source.getPostRecords();
+  const sourceStats = await source.getStats();
+  await source.close();
+  const newRecords: PostRecord[] = [];
+  for (const record of records) {
+    if (!(await target.hasPostId(record.postId))) {
+      newRecords.push(record);
+    }
+  }
+
+  const addResult = await target.addPostRecords(newRecords);
+  if (!addResult.success) {
+    return addResult;
+  }
+
+  // Carry over posts the JSON store counted but no longer keeps; the
+  // imported records were counted as they were added
+  const countResult = await target.addToTotalProcessed(
+    (sourceStats?.totalProcessed ?? 0) - records.length,
+  );
+  if (!countResult.success) {
+    return countResult;
+  }
+
+  return {
+    success: true,
+    data: { total: records.length, imported: newRecords.length },
+  };
 }
 
 /**
@@ -353,7 +836,11 @@ export async function hasPostIdInFile(
   postId: string,
 ): Promise<boolean> {
   const storage = new RedditStorage(filePath);
-  return await storage.hasPostId(postId);
+  try {
+    return await storage.hasPostId(postId);
+  } finally {
+    await storage.close();
+  }
 }
 
 /**
@@ -368,7 +855,11 @@ export async function addPostIdToFile(
   postId: string,
 ): Promise<Result<void>> {
   const storage = new RedditStorage(filePath);
-  return await storage.addPostId(postId);
+  try {
+    return await storage.addPostId(postId);
+  } finally {
+    await storage.close();
+  }
 }
 
 /**
@@ -381,7 +872,11 @@ export async function loadStorageFromFile(
   filePath: string,
 ): Promise<Result<StorageData>> {
   const storage = new RedditStorage(filePath);
-  return await storage.load();
+  try {
+    return await storage.load();
+  } finally {
+    await storage.close();
+  }
 }
 
 // Export the RedditStorage class as default
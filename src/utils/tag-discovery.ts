@@ -0,0 +1,100 @@
+/**
+ * Forum tag discovery
+ * Matches a subreddit's link flairs to the tags of a Discord forum channel,
+ * and finds configured tags the channel no longer has
+ */
+
+import { DiscordConfig, DiscordForumTag } from "../types";
+
+/**
+ * Flair to tag mapping proposed from matching names
+ */
+export interface TagMappingProposal {
+  /** Mapping of Reddit flair text to Discord tag IDs */
+  mapping: Record<string, string>;
+  /** Flairs without a tag of the same name */
+  unmatchedFlairs: string[];
+  /** Tags without a flair of the same name */
+  unusedTags: DiscordForumTag[];
+}
+
+/**
+ * Reduce a flair or tag name to the text that identifies it
+ * Case, emoji and punctuation are ignored, so "📰 News" matches "news"
+ *
+ * @param name - Flair or tag name
+ * @returns Normalised name
+ */
+function normaliseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Propose a flair to tag mapping by matching flairs and tags by name
+ *
+ * @param flairs - Link flair texts of the subreddit
+ * @param tags - Tags of the forum channel
+ * @returns Proposed mapping, with the flairs and tags left unmatched
+ */
+export function proposeTagMapping(
+  flairs: string[],
+  tags: DiscordForumTag[],
+): TagMappingProposal {
+  const mapping: Record<string, string> = {};
+  const unmatchedFlairs: string[] = [];
+  const usedTagIds = new Set<string>();
+
+  for (const flair of flairs) {
+    const tag = tags.find(
+      (candidate) => normaliseName(candidate.name) === normaliseName(flair),
+    );
+
+    if (tag) {
+      mapping[flair] = tag.id;
+      usedTagIds.add(tag.id);
+    } else {
+      unmatchedFlairs.push(flair);
+    }
+  }
+
+  return {
+    mapping,
+    unmatchedFlairs,
+    unusedTags: tags.filter((tag) => !usedTagIds.has(tag.id)),
+  };
+}
+
+/**
+ * Get the tag IDs a destination applies to its threads
+ *
+ * @param config - Discord settings of the destination
+ * @returns Tag IDs from the tag mapping and tag rules, each once
+ */
+export function getConfiguredTagIds(
+  config: Pick<DiscordConfig, "tagMapping" | "tagRules">,
+): string[] {
+  return [
+    ...new Set([
+      ...Object.values(config.tagMapping ?? {}),
+      ...(config.tagRules ?? []).map((rule) => rule.tag),
+    ]),
+  ];
+}
+
+/**
+ * Find configured tag IDs that a forum channel doesn't have
+ *
+ * @param config - Discord settings of the destination
+ * @param tags - Tags of the forum channel
+ * @returns Tag IDs missing from the channel
+ */
+export function findMissingTagIds(
+  config: Pick<DiscordConfig, "tagMapping" | "tagRules">,
+  tags: DiscordForumTag[],
+): string[] {
+  const available = new Set(tags.map((tag) => tag.id));
+  return getConfiguredTagIds(config).filter((id) => !available.has(id));
+}
@@ -0,0 +1,109 @@
+/**
+ * Forum tag rules
+ * Chooses the Discord forum tags for a post's thread from its flair, title,
+ * kind of media and score
+ */
+
+import { PostMediaType, RedditPost, TagRule } from "../types";
+
+/**
+ * Most tags Discord applies to a forum thread
+ */
+export const MAX_APPLIED_TAGS = 5;
+
+/**
+ * Kinds of post tag rules can match
+ */
+export const POST_MEDIA_TYPES: readonly PostMediaType[] = [
+  "image",
+  "video",
+  "link",
+  "text",
+];
+
+/**
+ * Turn a flair to tag ID mapping into tag rules
+ *
+ * @param tagMapping - Mapping of Reddit flair text to Discord tag IDs
+ * @returns One flair rule per mapping entry
+ */
+export function tagMappingToRules(
+  tagMapping: Record<string, string> = {},
+): TagRule[] {
+  return Object.entries(tagMapping).map(([flair, tag]) => ({
+    tag,
+    flairs: [flair],
+  }));
+}
+
+/**
+ * Evaluates tag rules against posts
+ * Flair patterns are compiled once when the rules are created
+ */
+export class TagRules {
+  private rules: TagRule[];
+  private flairPatterns: (RegExp | undefined)[];
+
+  /**
+   * Creates a new TagRules instance
+   *
+   * @param rules - Tag rules, in order of priority
+   * @throws Error if a flair pattern isn't a valid regular expression
+   */
+  constructor(rules: TagRule[] = []) {
+    this.rules = rules;
+    this.flairPatterns = rules.map((rule) =>
+      rule.flairPattern !== undefined
+        ? new RegExp(rule.flairPattern, "i")
+        : undefined,
+    );
+  }
+
+  /**
+   * Get the tags for a post
+   * When more than five rules match, the first five tags are kept
+   *
+   * @param post - Reddit post
+   * @param mediaType - Kind of content the post shares
+   * @returns Tag IDs of the matching rules, each once (at most five)
+   */
+  getTags(post: RedditPost, mediaType: PostMediaType): string[] {
+    const tags = new Set<string>();
+
+    this.rules.forEach((rule, index) => {
+      if (this.matches(rule, this.flairPatterns[index], post, mediaType)) {
+        tags.add(rule.tag);
+      }
+    });
+
+    return [...tags].slice(0, MAX_APPLIED_TAGS);
+  }
+
+  /**
+   * Check a post against every condition of a rule
+   *
+   * @private
+   */
+  private matches(
+    rule: TagRule,
+    flairPattern: RegExp | undefined,
+    post: RedditPost,
+    mediaType: PostMediaType,
+  ): boolean {
+    const flair = (post.link_flair_text ?? "").trim();
+    const title = post.title.toLowerCase();
+
+    return (
+      (!rule.flairs ||
+        rule.flairs.some(
+          (value) => value.trim().toLowerCase() === flair.toLowerCase(),
+        )) &&
+      (!flairPattern || (flair !== "" && flairPattern.test(flair))) &&
+      (!rule.keywords ||
+        rule.keywords.some((value) => title.includes(value.toLowerCase()))) &&
+      (!rule.mediaTypes || rule.mediaTypes.includes(mediaType)) &&
+      (rule.minScore === undefined || post.ups >= rule.minScore) &&
+      (rule.maxScore === undefined || post.ups <= rule.maxScore)
+    );
+  }
+}
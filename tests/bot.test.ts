@@ -0,0 +1,1693 @@
+/**
+ * Unit tests for RedditDiscordBot
+ * Tests feed orchestration, per-feed isolation, and storage tracking
+ */
+
+import { jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import type {
+  Config,
+  DiscordConfig,
+  DiscordMessageRef,
+  FeedConfig,
+  ListingConfig,
+  ListingCursor,
+  RedditComment,
+  RedditPost,
+  RemovedPostAction,
+  Result,
+} from "../src/types";
+import { RedditDiscordBot } from "../src/bot";
+import { RedditStorage } from "../src/utils/storage";
+import { PostOutbox, getOutboxFilePath } from "../src/utils/outbox";
+import { getPendingQueueFilePath } from "../src/utils/pending-queue";
+import { getBackfillCheckpointFilePath } from "../src/utils/backfill";
+import { createMockRedditPost } from "./setup";
+
+// Mock Reddit service - posts are served per subreddit
+const mockFetchNewPosts = jest.fn() as jest.MockedFunction<
+  (
+    limit?: number,
+    subreddit?: string,
+    listing?: ListingConfig,
+    cursor?: ListingCursor,
+  ) => Promise<Result<RedditPost[]>>
+>;
+
+const mockFetchPostsByIds = jest.fn() as jest.MockedFunction<
+  (postIds: string[]) => Promise<Result<RedditPost[]>>
+>;
+
+const mockFetchPostsInRange = jest.fn() as jest.MockedFunction<
+  (subreddit: string, from: number, to: number) => Promise<Result<RedditPost[]>>
+>;
+
+const mockFetchTopComments = jest.fn() as jest.MockedFunction<
+  (postId: string, limit: number) => Promise<Result<RedditComment[]>>
+>;
+
+jest.mock("../src/services/reddit.service", () => ({
+  RedditService: jest.fn().mockImplementation(() => ({
+    fetchNewPosts: mockFetchNewPosts,
+    fetchPostsByIds: mockFetchPostsByIds,
+    fetchPostsInRange: mockFetchPostsInRange,
+    fetchTopComments: mockFetchTopComments,
+    testConnection: jest.fn(),
+  })),
+}));
+
+// Mock Discord service - sends are recorded per webhook URL
+const mockSendRedditPost = jest.fn() as jest.MockedFunction<
+  (webhookUrl: string, post: RedditPost) => Promise<Result<DiscordMessageRef>>
+>;
+const mockEditRedditPost = jest.fn() as jest.MockedFunction<
+  (
+    webhookUrl: string,
+    message: DiscordMessageRef,
+    post: RedditPost,
+  ) => Promise<Result<DiscordMessageRef>>
+>;
+const mockMarkPostRemoved = jest.fn() as jest.MockedFunction<
+  (
+    message: DiscordMessageRef,
+    post: RedditPost,
+    reason: string,
+  ) => Promise<Result<DiscordMessageRef>>
+>;
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<
+  (message: DiscordMessageRef) => Promise<Result<void>>
+>;
+const mockArchiveThread = jest.fn() as jest.MockedFunction<
+  (threadId: string) => Promise<Result<void>>
+>;
+const mockSendComment = jest.fn() as jest.MockedFunction<
+  (
+    threadId: string,
+    comment: RedditComment,
+    post: RedditPost,
+  ) => Promise<Result<DiscordMessageRef>>
+>;
+
+jest.mock("../src/services/discord.service", () => ({
+  DiscordService: jest.fn().mockImplementation((...args: unknown[]) => {
+    const config = args[0] as DiscordConfig;
+    return {
+      sendRedditPost: (post: RedditPost) =>
+        mockSendRedditPost(config.webhookUrl, post),
+      editRedditPost: (message: DiscordMessageRef, post: RedditPost) =>
+        mockEditRedditPost(config.webhookUrl, message, post),
+      markPostRemoved: mockMarkPostRemoved,
+      deleteMessage: mockDeleteMessage,
+      archiveThread: mockArchiveThread,
+      sendComment: mockSendComment,
+      testConnection: jest.fn(),
+    };
+  }),
+}));
+
+jest.mock("node-cron", () => ({
+  schedule: jest.fn(),
+}));
+
+// Mock logger to prevent console output during tests
+jest.mock("../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const TASMANIA_WEBHOOK = "https://discord.com/api/webhooks/1/tasmania";
+const HOBART_WEBHOOK = "https://discord.com/api/webhooks/2/hobart";
+
+/**
+ * Create a feed configuration for tests
+ */
+const createFeed = (
+  name: string,
+  subreddit: string,
+  webhookUrl: string,
+): FeedConfig => ({
+  name,
+  subreddit,
+  discord: { webhookUrl },
+});
+
+/**
+ * Create a bot configuration for tests
+ */
+const createConfig = (
+  storageFilePath: string,
+  feeds: FeedConfig[],
+): Config => ({
+  reddit: {
+    clientId: "test_client_id",
+    clientSecret: "test_client_secret",
+    redirectUri: "http://localhost:8080/auth/callback",
+    userAgent: "TestBot/1.0.0 by u/test",
+    subreddit: feeds[0].subreddit,
+    postLimit: 25,
+  },
+  discord: feeds[0].discord,
+  logging: {
+    level: "error",
+    logDirectory: "./tests/temp/logs",
+    maxFileSize: "10m",
+    maxFiles: "14d",
+  },
+  schedule: { cronExpression: "*/15 * * * *" },
+  feeds,
+  storageBackend: "json",
+  storageFilePath,
+  storageRetention: {},
+  outbox: { maxAttempts: 3, retryDelay: 0 },
+  refresh: {
+    enabled: true,
+    maxAge: 24 * 60 * 60 * 1000,
+    changePercent: 20,
+    minChange: 5,
+    removedPostAction: "stub",
+  },
+  dedupe: { enabled: false, window: 48 * 60 * 60 * 1000 },
+  postOrder: "oldest",
+  environment: "development",
+});
+
+describe("RedditDiscordBot", () => {
+  const storageFilePath = "/tmp/bot-test-storage.json";
+  const outboxFilePath = getOutboxFilePath(storageFilePath);
+  const pendingFilePath = getPendingQueueFilePath(storageFilePath);
+  const backfillFilePath = getBackfillCheckpointFilePath(storageFilePath);
+
+  beforeEach(async () => {
+    for (const filePath of [
+      storageFilePath,
+      `${storageFilePath}.bak`,
+      `${storageFilePath}.lock`,
+      outboxFilePath,
+      pendingFilePath,
+      backfillFilePath,
+    ]) {
+      await fs.rm(filePath, { force: true });
+    }
+
+    // Skip the courtesy delay between Discord sends
+    jest.spyOn(global, "setTimeout").mockImplementation(((
+      callback: () => void,
+    ) => {
+      callback();
+      return 0 as unknown as NodeJS.Timeout;
+    }) as unknown as typeof setTimeout);
+
+    mockSendRedditPost.mockImplementation(async (_webhookUrl, post) => ({
+      success: true,
+      data: { messageId: `message-${post.id}` },
+    }));
+    mockFetchPostsByIds.mockResolvedValue({ success: true, data: [] });
+    mockEditRedditPost.mockImplementation(async (_webhookUrl, message) => ({
+      success: true,
+      data: message,
+    }));
+    mockMarkPostRemoved.mockImplementation(async (message) => ({
+      success: true,
+      data: message,
+    }));
+    mockDeleteMessage.mockResolvedValue({ success: true, data: undefined });
+    mockArchiveThread.mockResolvedValue({ success: true, data: undefined });
+    mockFetchTopComments.mockResolvedValue({ success: true, data: [] });
+    mockSendComment.mockImplementation(async (threadId, comment) => ({
+      success: true,
+      data: { messageId: `message-${comment.id}`, threadId },
+    }));
+  });
+
+  afterAll(async () => {
+    for (const filePath of [
+      storageFilePath,
+      `${storageFilePath}.bak`,
+      `${storageFilePath}.lock`,
+      outboxFilePath,
+      pendingFilePath,
+      backfillFilePath,
+    ]) {
+      await fs.rm(filePath, { force: true });
+    }
+  });
+
+  describe("performSync with multiple feeds", () => {
+    it("should route each feed's posts to its own webhook", async () => {
+      mockFetchNewPosts.mockImplementation(async (_limit, subreddit) => ({
+        success: true,
+        data: [createMockRedditPost({ id: `${subreddit}1`, subreddit })],
+      }));
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("tasmania", "tasmania", TASMANIA_WEBHOOK),
+          createFeed("hobart", "hobart", HOBART_WEBHOOK),
+        ]),
+      );
+
+      const result = await bot.performSync();
+
+      expect(result).toBeSuccessResult();
+      expect(mockFetchNewPosts).toHaveBeenCalledWith(
+        undefined,
+        "tasmania",
+        undefined,
+        undefined,
+      );
+      expect(mockFetchNewPosts).toHaveBeenCalledWith(
+        undefined,
+        "hobart",
+        undefined,
+        undefined,
+      );
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        TASMANIA_WEBHOOK,
+        expect.objectContaining({ id: "tasmania1" }),
+      );
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        HOBART_WEBHOOK,
+        expect.objectContaining({ id: "hobart1" }),
+      );
+
+      if (result.success) {
+        expect(result.data.postsSent).toBe(2);
+        expect(result.data.feeds?.tasmania.postsSent).toBe(1);
+        expect(result.data.feeds?.hobart.postsSent).toBe(1);
+      }
+    });
+
+    it("should fetch each feed from its own listing", async () => {
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [] });
+      const listing: ListingConfig = { sort: "top", time: "week" };
+
+      await new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          {
+            ...createFeed("weekly", "tasmania", TASMANIA_WEBHOOK),
+            listing,
+          },
+        ]),
+      ).performSync();
+
+      expect(mockFetchNewPosts).toHaveBeenCalledWith(
+        undefined,
+        "tasmania",
+        listing,
+        undefined,
+      );
+    });
+
+    it("should keep syncing other feeds when one feed fails", async () => {
+      mockFetchNewPosts.mockImplementation(async (_limit, subreddit) =>
+        subreddit === "tasmania"
+          ? {
+              success: false,
+              error: { message: "Reddit is down", code: "REDDIT_FETCH_ERROR" },
+            }
+          : {
+              success: true,
+              data: [createMockRedditPost({ id: "hobart1", subreddit })],
+            },
+      );
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("tasmania", "tasmania", TASMANIA_WEBHOOK),
+          createFeed("hobart", "hobart", HOBART_WEBHOOK),
+        ]),
+      );
+
+      const result = await bot.performSync();
+
+      expect(result).toBeSuccessResult();
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        HOBART_WEBHOOK,
+        expect.objectContaining({ id: "hobart1" }),
+      );
+
+      const health = await bot.getHealthStatus();
+      expect(health.feeds.tasmania.totalErrors).toBe(1);
+      expect(health.feeds.tasmania.lastError).toContain("Reddit is down");
+      expect(health.feeds.hobart.totalErrors).toBe(0);
+      expect(health.feeds.hobart.totalSyncs).toBe(1);
+      expect(health.feeds.hobart.lastStats?.postsSent).toBe(1);
+    });
+
+    it("should count send failures against the failing feed only", async () => {
+      mockFetchNewPosts.mockImplementation(async (_limit, subreddit) => ({
+        success: true,
+        data: [createMockRedditPost({ id: `${subreddit}1`, subreddit })],
+      }));
+      mockSendRedditPost.mockImplementation(async (webhookUrl) =>
+        webhookUrl === TASMANIA_WEBHOOK
+          ? {
+              success: false,
+              error: {
+                message: "Webhook failed",
+                code: "DISCORD_WEBHOOK_FAILED",
+              },
+            }
+          : { success: true, data: {} },
+      );
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("tasmania", "tasmania", TASMANIA_WEBHOOK),
+          createFeed("hobart", "hobart", HOBART_WEBHOOK),
+        ]),
+      );
+
+      const result = await bot.performSync();
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data.postsFailed).toBe(1);
+        expect(result.data.feeds?.tasmania.postsFailed).toBe(1);
+        expect(result.data.feeds?.hobart.postsSent).toBe(1);
+      }
+    });
+
+    it("should return an error when every feed fails", async () => {
+      mockFetchNewPosts.mockResolvedValue({
+        success: false,
+        error: { message: "Reddit is down", code: "REDDIT_FETCH_ERROR" },
+      });
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("tasmania", "tasmania", TASMANIA_WEBHOOK),
+          createFeed("hobart", "hobart", HOBART_WEBHOOK),
+        ]),
+      );
+
+      const result = await bot.performSync();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("SYNC_ERROR");
+      }
+      expect(bot.getStats().totalErrors).toBe(2);
+    });
+  });
+
+  describe("outbox", () => {
+    const failSend = async (): Promise<Result<DiscordMessageRef>> => ({
+      success: false,
+      error: { message: "Discord is down", code: "DISCORD_WEBHOOK_FAILED" },
+    });
+
+    it("should resend a failed post on the next sync even after it leaves the listing", async () => {
+      mockFetchNewPosts.mockResolvedValueOnce({
+        success: true,
+        data: [createMockRedditPost({ id: "abc123", subreddit: "tasmania" })],
+      });
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [] });
+      mockSendRedditPost.mockImplementationOnce(failSend);
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+
+      const first = await bot.performSync();
+      expect(first.success && first.data.postsFailed).toBe(1);
+
+      const outbox = new PostOutbox(outboxFilePath, {
+        maxAttempts: 3,
+        retryDelay: 0,
+      });
+      const pending = await outbox.getPending();
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toEqual(
+        expect.objectContaining({
+          key: "abc123",
+          feed: "default",
+          attempts: 1,
+          lastError: "Discord is down",
+        }),
+      );
+
+      const second = await bot.performSync();
+
+      expect(second.success && second.data.postsRetried).toBe(1);
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(2);
+
+      expect((await bot.getHealthStatus()).outbox).toEqual({
+        pending: 0,
+        deadLetters: 0,
+      });
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      expect(await storage.hasPostId("abc123")).toBe(true);
+    });
+
+    it("should not send a queued post twice while it is still listed", async () => {
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [createMockRedditPost({ id: "abc123", subreddit: "tasmania" })],
+      });
+      mockSendRedditPost.mockImplementationOnce(failSend);
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+
+      await bot.performSync();
+      mockSendRedditPost.mockClear();
+      await bot.performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+    });
+
+    it("should dead-letter a post after the maximum number of attempts", async () => {
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [createMockRedditPost({ id: "abc123", subreddit: "hobart" })],
+      });
+      mockSendRedditPost.mockImplementation(failSend);
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("hobart", "hobart", HOBART_WEBHOOK),
+        ]),
+      );
+
+      await bot.performSync();
+      await bot.performSync();
+      const third = await bot.performSync();
+
+      expect(third.success && third.data.postsDeadLettered).toBe(1);
+
+      const deadLetters = await bot.getDeadLetters();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0]).toEqual(
+        expect.objectContaining({
+          key: "hobart:abc123",
+          attempts: 3,
+          deadLetteredAt: expect.any(Number),
+        }),
+      );
+
+      // Dead-lettered posts are not retried
+      mockSendRedditPost.mockClear();
+      await bot.performSync();
+      expect(mockSendRedditPost).not.toHaveBeenCalled();
+      expect((await bot.getHealthStatus()).outbox).toEqual({
+        pending: 0,
+        deadLetters: 1,
+      });
+    });
+  });
+
+  describe("post order", () => {
+    // Reddit lists new posts newest first
+    const burst = [5, 4, 3, 2, 1].map((minute) =>
+      createMockRedditPost({
+        id: `burst${minute}`,
+        created_utc: 1_700_000_000 + minute * 60,
+      }),
+    );
+    const sentIds = () =>
+      mockSendRedditPost.mock.calls.map(([, post]) => post.id);
+
+    it("should send a burst of new posts oldest first", async () => {
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: burst });
+
+      await new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      ).performSync();
+
+      expect(sentIds()).toEqual([
+        "burst1",
+        "burst2",
+        "burst3",
+        "burst4",
+        "burst5",
+      ]);
+    });
+
+    it("should keep newest first when configured", async () => {
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [...burst].reverse(),
+      });
+
+      await new RedditDiscordBot({
+        ...createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+        postOrder: "newest",
+      }).performSync();
+
+      expect(sentIds()).toEqual([
+        "burst5",
+        "burst4",
+        "burst3",
+        "burst2",
+        "burst1",
+      ]);
+    });
+
+    it("should retry failed posts before newer posts", async () => {
+      mockFetchNewPosts.mockResolvedValueOnce({
+        success: true,
+        data: burst.slice(2),
+      });
+      mockSendRedditPost.mockImplementation(async (_webhookUrl, post) =>
+        post.id === "burst2"
+          ? {
+              success: false,
+              error: { message: "Discord is down", code: "DISCORD_ERROR" },
+            }
+          : { success: true, data: { messageId: `message-${post.id}` } },
+      );
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+
+      await bot.performSync();
+
+      expect(sentIds()).toEqual(["burst1", "burst2", "burst3"]);
+
+      // The failed post goes out ahead of the posts made since
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: burst });
+      mockSendRedditPost.mockClear();
+      mockSendRedditPost.mockImplementation(async (_webhookUrl, post) => ({
+        success: true,
+        data: { messageId: `message-${post.id}` },
+      }));
+      const second = await bot.performSync();
+
+      expect(second.success && second.data.postsRetried).toBe(1);
+      expect(sentIds()).toEqual(["burst2", "burst4", "burst5"]);
+    });
+  });
+
+  describe("storage keys", () => {
+    it("should keep bare post IDs for the default feed and scope others by feed name", async () => {
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [createMockRedditPost({ id: "abc123", subreddit: "tasmania" })],
+      });
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+          createFeed("weekly", "tasmania", HOBART_WEBHOOK),
+        ]),
+      );
+
+      await bot.performSync();
+
+      // The same post is forwarded once to each destination
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(2);
+
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      await storage.load();
+      expect(await storage.getPostedIds()).toEqual(
+        expect.arrayContaining(["abc123", "weekly:abc123"]),
+      );
+      await storage.close();
+
+      // A second sync forwards nothing new
+      mockSendRedditPost.mockClear();
+      await bot.performSync();
+      expect(mockSendRedditPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listing cursor", () => {
+    it("should page back from the newest post seen, across restarts", async () => {
+      const older = createMockRedditPost({ id: "older", created_utc: 1000 });
+      const newest = createMockRedditPost({ id: "newest", created_utc: 2000 });
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [newest, older],
+      });
+      const config = createConfig(storageFilePath, [
+        createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+      ]);
+
+      const first = new RedditDiscordBot(config);
+      await first.performSync();
+      await first.close();
+      const restarted = new RedditDiscordBot(config);
+      await restarted.performSync();
+      await restarted.close();
+
+      expect(mockFetchNewPosts).toHaveBeenLastCalledWith(
+        undefined,
+        "tasmania",
+        undefined,
+        { fullname: "t3_newest", createdUtc: 2000 },
+      );
+      expect(
+        await new RedditStorage(storageFilePath).getCursor("default"),
+      ).toEqual({ fullname: "t3_newest", createdUtc: 2000 });
+    });
+
+    it("should not use a cursor for other listings", async () => {
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [createMockRedditPost({ id: "top1" })],
+      });
+      const config = createConfig(storageFilePath, [
+        {
+          ...createFeed("weekly", "tasmania", TASMANIA_WEBHOOK),
+          listing: { sort: "top", time: "week" },
+        },
+      ]);
+
+      const bot = new RedditDiscordBot(config);
+      await bot.performSync();
+      await bot.performSync();
+      await bot.close();
+
+      expect(mockFetchNewPosts).toHaveBeenLastCalledWith(
+        undefined,
+        "tasmania",
+        { sort: "top", time: "week" },
+        undefined,
+      );
+      expect(
+        await new RedditStorage(storageFilePath).getCursor("weekly"),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("NSFW and spoiler posts", () => {
+    it("should skip posts the destination doesn't accept", async () => {
+      const nsfw = createMockRedditPost({ id: "nsfw1", over_18: true });
+      const safe = createMockRedditPost({ id: "safe1" });
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [nsfw, safe],
+      });
+      const feed = createFeed("default", "tasmania", TASMANIA_WEBHOOK);
+      feed.discord.nsfwPolicy = "skip";
+
+      const result = await new RedditDiscordBot(
+        createConfig(storageFilePath, [feed]),
+      ).performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+      expect(mockSendRedditPost).toHaveBeenCalledWith(TASMANIA_WEBHOOK, safe);
+      expect(result.success && result.data.postsFiltered).toBe(1);
+    });
+  });
+
+  describe("filter rules", () => {
+    it("should count posts rejected by the feed's filters separately", async () => {
+      const meme = createMockRedditPost({ id: "meme1", title: "Monday meme" });
+      const news = createMockRedditPost({ id: "news1", title: "Ferry news" });
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [meme, news],
+      });
+      const feed = createFeed("default", "tasmania", TASMANIA_WEBHOOK);
+      feed.filters = { excludeKeywords: ["meme"] };
+
+      const result = await new RedditDiscordBot(
+        createConfig(storageFilePath, [feed]),
+      ).performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+      expect(mockSendRedditPost).toHaveBeenCalledWith(TASMANIA_WEBHOOK, news);
+      expect(result.success && result.data.postsRejected).toBe(1);
+      expect(result.success && result.data.postsFiltered).toBe(0);
+    });
+  });
+
+  describe("traction thresholds", () => {
+    const hourMs = 60 * 60 * 1000;
+    const createTractionFeed = (): FeedConfig => ({
+      ...createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+      traction: { minScore: 50, maxAge: 6 * hourMs },
+    });
+
+    it("should queue posts until they reach the threshold", async () => {
+      const quiet = createMockRedditPost({ id: "quiet1", ups: 10 });
+      const popular = createMockRedditPost({ id: "popular1", ups: 80 });
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [quiet, popular],
+      });
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [createTractionFeed()]),
+      );
+
+      const first = await bot.performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        TASMANIA_WEBHOOK,
+        popular,
+      );
+      expect(first.success && first.data.postsQueued).toBe(1);
+      expect((await bot.getHealthStatus()).pending).toEqual([
+        expect.objectContaining({ feed: "default", postId: "quiet1" }),
+      ]);
+
+      // Still below the threshold: stays queued without being counted again
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...quiet, ups: 30 }],
+      });
+      mockSendRedditPost.mockClear();
+      const second = await bot.performSync();
+
+      expect(mockSendRedditPost).not.toHaveBeenCalled();
+      expect(second.success && second.data.postsQueued).toBe(0);
+      expect((await bot.getHealthStatus()).pending[0].score).toBe(30);
+
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...quiet, ups: 60 }],
+      });
+      await bot.performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        TASMANIA_WEBHOOK,
+        expect.objectContaining({ id: "quiet1", ups: 60 }),
+      );
+      expect((await bot.getHealthStatus()).pending).toEqual([]);
+      await bot.close();
+      expect(await new RedditStorage(storageFilePath).hasPostId("quiet1")).toBe(
+        true,
+      );
+    });
+
+    it("should keep the queue across restarts", async () => {
+      const quiet = createMockRedditPost({ id: "quiet1", ups: 10 });
+      mockFetchNewPosts.mockResolvedValueOnce({ success: true, data: [quiet] });
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [] });
+      const config = createConfig(storageFilePath, [createTractionFeed()]);
+
+      const first = new RedditDiscordBot(config);
+      await first.performSync();
+      await first.close();
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...quiet, ups: 50 }],
+      });
+      await new RedditDiscordBot(config).performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        TASMANIA_WEBHOOK,
+        expect.objectContaining({ id: "quiet1" }),
+      );
+    });
+
+    it("should drop posts that don't reach the threshold in time", async () => {
+      const old = createMockRedditPost({
+        id: "old1",
+        ups: 10,
+        created_utc: Math.floor((Date.now() - 7 * hourMs) / 1000),
+      });
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [old] });
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [createTractionFeed()]),
+      );
+
+      const first = await bot.performSync();
+      const second = await bot.performSync();
+
+      expect(mockSendRedditPost).not.toHaveBeenCalled();
+      expect(first.success && first.data.postsExpired).toBe(1);
+      expect(second.success && second.data.postsExpired).toBe(0);
+      expect((await bot.getHealthStatus()).pending).toEqual([]);
+    });
+
+    it("should keep queued posts when they cannot be re-checked", async () => {
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [createMockRedditPost({ id: "quiet1", ups: 10 })],
+      });
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [createTractionFeed()]),
+      );
+
+      await bot.performSync();
+      mockFetchPostsByIds.mockResolvedValue({
+        success: false,
+        error: { message: "Reddit is down", code: "REDDIT_FETCH_ERROR" },
+      });
+      await bot.performSync();
+
+      expect(mockSendRedditPost).not.toHaveBeenCalled();
+      expect((await bot.getHealthStatus()).pending).toHaveLength(1);
+    });
+  });
+
+  describe("duplicate content", () => {
+    const article = createMockRedditPost({
+      id: "news1",
+      subreddit: "news",
+      url: "https://www.abc.net.au/news/tasmania-story?utm_source=reddit",
+    });
+    const crosspost = createMockRedditPost({
+      id: "tas1",
+      subreddit: "tasmania",
+      selftext: "",
+      url: "https://www.reddit.com/r/news/comments/news1/story/",
+      crosspost_parent: article,
+    });
+
+    const createBot = (
+      feeds: FeedConfig[],
+      enabled = true,
+    ): RedditDiscordBot => {
+      const config = createConfig(storageFilePath, feeds);
+      return new RedditDiscordBot({
+        ...config,
+        dedupe: { ...config.dedupe, enabled },
+      });
+    };
+
+    beforeEach(() => {
+      mockFetchNewPosts.mockImplementation(async (_limit, subreddit) => ({
+        success: true,
+        data: subreddit === "news" ? [article] : [crosspost],
+      }));
+    });
+
+    it("should skip crossposts of posts already sent to the same webhook", async () => {
+      const bot = createBot([
+        createFeed("news", "news", TASMANIA_WEBHOOK),
+        createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+      ]);
+
+      const result = await bot.performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        TASMANIA_WEBHOOK,
+        article,
+      );
+      expect(result.success && result.data.feeds?.default.postsFiltered).toBe(
+        1,
+      );
+
+      // The skipped crosspost is remembered and not sent on later syncs
+      await bot.performSync();
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      expect(await storage.hasPostId("tas1")).toBe(true);
+    });
+
+    it("should skip posts linking to an already forwarded URL", async () => {
+      const repost = createMockRedditPost({
+        id: "tas2",
+        subreddit: "tasmania",
+        url: "https://abc.net.au/news/tasmania-story/",
+      });
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [article, repost],
+      });
+
+      await createBot([
+        createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+      ]).performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+    });
+
+    it("should send duplicates to other webhooks", async () => {
+      await createBot([
+        createFeed("news", "news", HOBART_WEBHOOK),
+        createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+      ]).performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(2);
+    });
+
+    it("should send duplicates when disabled", async () => {
+      await createBot(
+        [
+          createFeed("news", "news", TASMANIA_WEBHOOK),
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ],
+        false,
+      ).performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("storage retention", () => {
+    it("should skip posts older than the retention age", async () => {
+      const dayMs = 24 * 60 * 60 * 1000;
+      mockFetchNewPosts.mockResolvedValue({
+        success: true,
+        data: [
+          createMockRedditPost({
+            id: "old",
+            created_utc: (Date.now() - 31 * dayMs) / 1000,
+          }),
+          createMockRedditPost({
+            id: "recent",
+            created_utc: (Date.now() - dayMs) / 1000,
+          }),
+        ],
+      });
+
+      const bot = new RedditDiscordBot({
+        ...createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+        storageRetention: { maxAgeDays: 30 },
+      });
+
+      const result = await bot.performSync();
+
+      expect(mockSendRedditPost).toHaveBeenCalledTimes(1);
+      expect(mockSendRedditPost).toHaveBeenCalledWith(
+        TASMANIA_WEBHOOK,
+        expect.objectContaining({ id: "recent" }),
+      );
+      expect(result.success && result.data.postsFiltered).toBe(1);
+    });
+  });
+
+  describe("message refresh", () => {
+    const post = createMockRedditPost({
+      id: "abc123",
+      title: "Original title",
+      ups: 100,
+      num_comments: 10,
+    });
+
+    const createBot = (): RedditDiscordBot =>
+      new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+
+    beforeEach(() => {
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [post] });
+    });
+
+    it("should store the Discord message ID with the sent post", async () => {
+      const bot = createBot();
+      await bot.performSync();
+      await bot.close();
+
+      const storage = new RedditStorage(storageFilePath);
+      expect(await storage.getPostRecords()).toEqual([
+        expect.objectContaining({
+          postId: "abc123",
+          messageId: "message-abc123",
+          snapshot: {
+            title: "Original title",
+            flair: post.link_flair_text,
+            score: 100,
+            numComments: 10,
+          },
+        }),
+      ]);
+    });
+
+    it("should edit the message when the post title changes", async () => {
+      const bot = createBot();
+      await bot.performSync();
+
+      const edited = { ...post, title: "Edited title" };
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [edited] });
+      const result = await bot.performSync();
+
+      expect(mockFetchPostsByIds).toHaveBeenCalledWith(["abc123"]);
+      expect(mockEditRedditPost).toHaveBeenCalledTimes(1);
+      expect(mockEditRedditPost).toHaveBeenCalledWith(
+        TASMANIA_WEBHOOK,
+        { messageId: "message-abc123", threadId: undefined },
+        edited,
+      );
+      expect(result.success && result.data.postsRefreshed).toBe(1);
+
+      // The stored snapshot is updated, so the same edit is not repeated
+      await bot.performSync();
+      expect(mockEditRedditPost).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only edit for significant score or comment changes", async () => {
+      const bot = createBot();
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...post, ups: 110, num_comments: 12 }],
+      });
+      await bot.performSync();
+      expect(mockEditRedditPost).not.toHaveBeenCalled();
+
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...post, ups: 150 }],
+      });
+      await bot.performSync();
+      expect(mockEditRedditPost).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop refreshing messages that were deleted in Discord", async () => {
+      const bot = createBot();
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...post, title: "Edited title" }],
+      });
+      mockEditRedditPost.mockResolvedValue({
+        success: false,
+        error: {
+          message: "Failed to send Discord webhook after all retry attempts",
+          code: "DISCORD_WEBHOOK_FAILED",
+          context: { status: 404 },
+        },
+      });
+      await bot.performSync();
+      await bot.performSync();
+
+      expect(mockEditRedditPost).toHaveBeenCalledTimes(1);
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      const [record] = await storage.getPostRecords();
+      expect(record.messageId).toBeUndefined();
+    });
+
+    it("should not refresh messages when disabled", async () => {
+      const bot = new RedditDiscordBot({
+        ...createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+        refresh: {
+          enabled: false,
+          maxAge: 24 * 60 * 60 * 1000,
+          changePercent: 20,
+          minChange: 5,
+          removedPostAction: "none",
+        },
+      });
+
+      await bot.performSync();
+      await bot.performSync();
+
+      expect(mockFetchPostsByIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("removed posts", () => {
+    const post = createMockRedditPost({ id: "abc123", subreddit: "tasmania" });
+    const removed = {
+      ...post,
+      selftext: "[removed]",
+      removed_by_category: "moderator",
+    };
+
+    const createBot = (
+      removedPostAction: RemovedPostAction,
+      refreshEnabled = true,
+    ): RedditDiscordBot => {
+      const config = createConfig(storageFilePath, [
+        createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+      ]);
+      return new RedditDiscordBot({
+        ...config,
+        refresh: {
+          ...config.refresh,
+          enabled: refreshEnabled,
+          removedPostAction,
+        },
+      });
+    };
+
+    beforeEach(() => {
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [post] });
+    });
+
+    it("should replace the message with a notice once the post is removed", async () => {
+      const bot = createBot("stub");
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [removed] });
+      const result = await bot.performSync();
+
+      expect(mockMarkPostRemoved).toHaveBeenCalledWith(
+        { messageId: "message-abc123", threadId: undefined },
+        removed,
+        "removed by the moderators of r/tasmania",
+      );
+      expect(mockEditRedditPost).not.toHaveBeenCalled();
+      expect(result.success && result.data.postsRemoved).toBe(1);
+
+      // Handled posts are not checked again
+      await bot.performSync();
+      expect(mockMarkPostRemoved).toHaveBeenCalledTimes(1);
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      const [record] = await storage.getPostRecords();
+      expect(record.removedAt).toEqual(expect.any(Number));
+    });
+
+    it("should delete the message and forget its ID", async () => {
+      const bot = createBot("delete");
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...post, author: "[deleted]", selftext: "[deleted]" }],
+      });
+      await bot.performSync();
+
+      expect(mockDeleteMessage).toHaveBeenCalledWith({
+        messageId: "message-abc123",
+        threadId: undefined,
+      });
+      expect(mockMarkPostRemoved).not.toHaveBeenCalled();
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      const [record] = await storage.getPostRecords();
+      expect(record.messageId).toBeUndefined();
+      expect(record.removedAt).toEqual(expect.any(Number));
+    });
+
+    it("should archive the forum thread of a removed post", async () => {
+      mockSendRedditPost.mockResolvedValue({
+        success: true,
+        data: { messageId: "message-abc123", threadId: "thread-1" },
+      });
+      const bot = createBot("archive");
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [removed] });
+      await bot.performSync();
+
+      expect(mockMarkPostRemoved).toHaveBeenCalledTimes(1);
+      expect(mockArchiveThread).toHaveBeenCalledWith("thread-1");
+    });
+
+    it("should retry archiving a thread that could not be archived", async () => {
+      mockSendRedditPost.mockResolvedValue({
+        success: true,
+        data: { messageId: "message-abc123", threadId: "thread-1" },
+      });
+      const bot = createBot("archive");
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [removed] });
+      mockArchiveThread.mockResolvedValueOnce({
+        success: false,
+        error: {
+          message: "Failed to send Discord webhook after all retry attempts",
+          code: "DISCORD_WEBHOOK_FAILED",
+          context: { status: 500 },
+        },
+      });
+      const failed = await bot.performSync();
+      const retried = await bot.performSync();
+
+      expect(mockArchiveThread).toHaveBeenCalledTimes(2);
+      expect(failed.success && failed.data.postsRemoved).toBe(0);
+      expect(retried.success && retried.data.postsRemoved).toBe(1);
+    });
+
+    it("should retry removed posts whose message could not be updated", async () => {
+      const bot = createBot("stub");
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [removed] });
+      mockMarkPostRemoved.mockResolvedValueOnce({
+        success: false,
+        error: {
+          message: "Failed to send Discord webhook after all retry attempts",
+          code: "DISCORD_WEBHOOK_FAILED",
+          context: { status: 500 },
+        },
+      });
+      const failed = await bot.performSync();
+      const retried = await bot.performSync();
+
+      expect(mockMarkPostRemoved).toHaveBeenCalledTimes(2);
+      expect(failed.success && failed.data.postsRemoved).toBe(0);
+      expect(retried.success && retried.data.postsRemoved).toBe(1);
+    });
+
+    it("should check for removals when edits are disabled", async () => {
+      const bot = createBot("stub", false);
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({
+        success: true,
+        data: [{ ...post, title: "Edited title" }],
+      });
+      await bot.performSync();
+      expect(mockEditRedditPost).not.toHaveBeenCalled();
+
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [removed] });
+      await bot.performSync();
+      expect(mockMarkPostRemoved).toHaveBeenCalledTimes(1);
+    });
+
+    it("should leave messages alone when the action is none", async () => {
+      const bot = createBot("none");
+      await bot.performSync();
+
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [removed] });
+      await bot.performSync();
+
+      expect(mockMarkPostRemoved).not.toHaveBeenCalled();
+      expect(mockDeleteMessage).not.toHaveBeenCalled();
+      expect(mockEditRedditPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("comment forwarding", () => {
+    const post = createMockRedditPost({ id: "abc123", subreddit: "tasmania" });
+    const createComment = (id: string, score: number): RedditComment => ({
+      id,
+      author: `author-${id}`,
+      body: `Comment ${id}`,
+      score,
+      permalink: `https://reddit.com/r/tasmania/comments/abc123/_/${id}`,
+      created_utc: post.created_utc,
+    });
+
+    const createBot = (forum = true): RedditDiscordBot => {
+      const feed = createFeed("default", "tasmania", TASMANIA_WEBHOOK);
+      return new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          {
+            ...feed,
+            discord: {
+              ...feed.discord,
+              enableThreading: forum,
+              isForumChannel: forum,
+            },
+            comments: {
+              count: 2,
+              delay: 0,
+              minScore: 50,
+              maxAge: 24 * 60 * 60 * 1000,
+            },
+          },
+        ]),
+      );
+    };
+
+    beforeEach(() => {
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [post] });
+      mockFetchPostsByIds.mockResolvedValue({ success: true, data: [post] });
+      mockSendRedditPost.mockResolvedValue({
+        success: true,
+        data: { messageId: "message-abc123", threadId: "thread-1" },
+      });
+    });
+
+    it("should post the top comments into the thread, then append highly voted ones", async () => {
+      mockFetchTopComments.mockResolvedValue({
+        success: true,
+        data: [createComment("c1", 12), createComment("c2", 3)],
+      });
+      const bot = createBot();
+      const first = await bot.performSync();
+
+      expect(mockFetchTopComments).toHaveBeenCalledWith("abc123", 2);
+      expect(
+        mockSendComment.mock.calls.map(([threadId, comment]) => [
+          threadId,
+          comment.id,
+        ]),
+      ).toEqual([
+        ["thread-1", "c1"],
+        ["thread-1", "c2"],
+      ]);
+      expect(first.success && first.data.commentsSent).toBe(2);
+
+      mockFetchTopComments.mockResolvedValue({
+        success: true,
+        data: [
+          createComment("c3", 80),
+          createComment("c1", 60),
+          createComment("c4", 20),
+        ],
+      });
+      const second = await bot.performSync();
+
+      expect(mockFetchTopComments).toHaveBeenLastCalledWith("abc123", 4);
+      expect(mockSendComment).toHaveBeenCalledTimes(3);
+      expect(mockSendComment).toHaveBeenLastCalledWith(
+        "thread-1",
+        createComment("c3", 80),
+        post,
+      );
+      expect(second.success && second.data.commentsSent).toBe(1);
+
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      const [record] = await storage.getPostRecords();
+      expect(record.commentIds).toEqual(["c1", "c2", "c3"]);
+      expect(record.commentsCheckedAt).toEqual(expect.any(Number));
+    });
+
+    it("should retry comments that failed to post", async () => {
+      mockFetchTopComments.mockResolvedValue({
+        success: true,
+        data: [createComment("c1", 12)],
+      });
+      mockSendComment.mockResolvedValueOnce({
+        success: false,
+        error: {
+          message: "Failed to send Discord webhook after all retry attempts",
+          code: "DISCORD_WEBHOOK_FAILED",
+        },
+      });
+      const bot = createBot();
+      const failed = await bot.performSync();
+      const retried = await bot.performSync();
+
+      expect(mockSendComment).toHaveBeenCalledTimes(2);
+      expect(failed.success && failed.data.commentsSent).toBe(0);
+      expect(retried.success && retried.data.commentsSent).toBe(1);
+    });
+
+    it("should not forward comments without forum threads", async () => {
+      const bot = createBot(false);
+      await bot.performSync();
+
+      expect(mockFetchTopComments).not.toHaveBeenCalled();
+      expect(mockSendComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("backfill", () => {
+    const from = Date.UTC(2026, 9, 12);
+    const to = Date.UTC(2026, 9, 19);
+    const hourly = (id: string, hours: number) =>
+      createMockRedditPost({ id, created_utc: from / 1000 + hours * 3600 });
+
+    it("should send a time range's unseen posts oldest first", async () => {
+      const config = createConfig(storageFilePath, [
+        {
+          ...createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+          filters: { excludeKeywords: ["meme"] },
+        },
+      ]);
+      const seeded = new RedditStorage(storageFilePath);
+      await seeded.addPostId("sent1");
+      await seeded.close();
+      mockFetchPostsInRange.mockResolvedValue({
+        success: true,
+        data: [
+          hourly("new2", 30),
+          { ...hourly("meme1", 20), title: "A meme" },
+          hourly("sent1", 10),
+          hourly("new1", 5),
+        ],
+      });
+
+      const bot = new RedditDiscordBot(config);
+      const result = await bot.backfill({
+        feed: "default",
+        from,
+        to,
+        delayMs: 0,
+      });
+
+      expect(mockFetchPostsInRange).toHaveBeenCalledWith("tasmania", from, to);
+      expect(mockSendRedditPost.mock.calls.map(([, post]) => post.id)).toEqual([
+        "new1",
+        "new2",
+      ]);
+      expect(result).toBeSuccessResult();
+      expect(result.success && result.data).toMatchObject({
+        found: 4,
+        sent: 2,
+        skipped: 2,
+        failed: 0,
+        completedAt: expect.any(Number),
+      });
+      await bot.close();
+      const storage = new RedditStorage(storageFilePath);
+      expect(await storage.hasPostId("new1")).toBe(true);
+      expect(await storage.hasPostId("new2")).toBe(true);
+    });
+
+    it("should resume an unfinished backfill after its checkpoint", async () => {
+      await fs.writeFile(
+        backfillFilePath,
+        JSON.stringify({
+          feed: "default",
+          from,
+          to,
+          found: 3,
+          sent: 1,
+          failed: 0,
+          skipped: 0,
+          processedThrough: from / 1000 + 3600,
+          startedAt: from,
+          updatedAt: from,
+        }),
+      );
+      const seeded = new RedditStorage(storageFilePath);
+      await seeded.addPostId("post1");
+      await seeded.close();
+      // sameSecond was created in the second the backfill stopped at
+      mockFetchPostsInRange.mockResolvedValue({
+        success: true,
+        data: [
+          hourly("post3", 3),
+          hourly("post2", 2),
+          hourly("post1", 1),
+          hourly("sameSecond", 1),
+        ],
+      });
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+
+      const result = await bot.resumeBackfill(0);
+
+      expect(mockSendRedditPost.mock.calls.map(([, post]) => post.id)).toEqual([
+        "sameSecond",
+        "post2",
+        "post3",
+      ]);
+      expect(result.success && result.data).toMatchObject({
+        found: 3,
+        sent: 4,
+        skipped: 1,
+        startedAt: from,
+      });
+
+      const status = await bot.getBackfillStatus();
+      expect(status.running).toBe(false);
+      expect(status.progress?.completedAt).toEqual(expect.any(Number));
+      expect(await bot.resumeBackfill(0)).toBeErrorResult();
+    });
+
+    it("should skip posts a sync sends while the backfill runs", async () => {
+      const post2 = hourly("post2", 2);
+      mockFetchPostsInRange.mockResolvedValue({
+        success: true,
+        data: [hourly("post1", 1), post2],
+      });
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [post2] });
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+      // A scheduled sync forwards post2 while the backfill sends post1
+      mockSendRedditPost.mockImplementationOnce(async (_webhookUrl, post) => {
+        await bot.performSync();
+        return { success: true, data: { messageId: `message-${post.id}` } };
+      });
+
+      const result = await bot.backfill({
+        feed: "default",
+        from,
+        to,
+        delayMs: 0,
+      });
+
+      expect(mockSendRedditPost.mock.calls.map(([, post]) => post.id)).toEqual([
+        "post1",
+        "post2",
+      ]);
+      expect(result.success && result.data).toMatchObject({
+        sent: 1,
+        skipped: 1,
+      });
+    });
+
+    it("should skip a post a sync is still sending", async () => {
+      const post1 = hourly("post1", 1);
+      mockFetchPostsInRange.mockResolvedValue({ success: true, data: [post1] });
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [post1] });
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+      // The backfill reaches post1 while the sync's message is on its way
+      let backfill: Awaited<ReturnType<typeof bot.backfill>> | undefined;
+      mockSendRedditPost.mockImplementationOnce(async (_webhookUrl, post) => {
+        backfill = await bot.backfill({
+          feed: "default",
+          from,
+          to,
+          delayMs: 0,
+        });
+        return { success: true, data: { messageId: `message-${post.id}` } };
+      });
+
+      const sync = await bot.performSync();
+
+      expect(mockSendRedditPost.mock.calls.map(([, post]) => post.id)).toEqual([
+        "post1",
+      ]);
+      expect(sync.success && sync.data.postsSent).toBe(1);
+      expect(backfill?.success && backfill.data).toMatchObject({
+        sent: 0,
+        skipped: 1,
+      });
+    });
+
+    it("should not let a sync send a post the backfill is still sending", async () => {
+      const post1 = hourly("post1", 1);
+      mockFetchPostsInRange.mockResolvedValue({ success: true, data: [post1] });
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [post1] });
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+      // A scheduled sync fetches post1 while the backfill's message is on its way
+      let sync: Awaited<ReturnType<typeof bot.performSync>> | undefined;
+      mockSendRedditPost.mockImplementationOnce(async (_webhookUrl, post) => {
+        sync = await bot.performSync();
+        return { success: true, data: { messageId: `message-${post.id}` } };
+      });
+
+      const result = await bot.backfill({
+        feed: "default",
+        from,
+        to,
+        delayMs: 0,
+      });
+
+      expect(mockSendRedditPost.mock.calls.map(([, post]) => post.id)).toEqual([
+        "post1",
+      ]);
+      expect(sync?.success && sync.data.postsSent).toBe(0);
+      expect(result.success && result.data.sent).toBe(1);
+    });
+
+    it("should leave posts that fail to send in the outbox", async () => {
+      mockFetchPostsInRange.mockResolvedValue({
+        success: true,
+        data: [hourly("broken1", 1)],
+      });
+      mockSendRedditPost.mockResolvedValue({
+        success: false,
+        error: { message: "Discord is down", code: "DISCORD_SEND_ERROR" },
+      });
+      const config = createConfig(storageFilePath, [
+        createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+      ]);
+
+      const result = await new RedditDiscordBot(config).backfill({
+        feed: "default",
+        from,
+        to,
+        delayMs: 0,
+      });
+
+      expect(result.success && result.data.failed).toBe(1);
+      expect(
+        await new PostOutbox(outboxFilePath, config.outbox).has("broken1"),
+      ).toBe(true);
+    });
+
+    it("should reject unknown feeds", async () => {
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("default", "tasmania", TASMANIA_WEBHOOK),
+        ]),
+      );
+
+      const result = await bot.backfill({
+        feed: "hobart",
+        from,
+        to,
+        delayMs: 0,
+      });
+
+      expect(result).toBeErrorResult();
+      expect(!result.success && result.error.code).toBe(
+        "BACKFILL_UNKNOWN_FEED",
+      );
+      expect(mockFetchPostsInRange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getStats", () => {
+    it("should break statistics down per feed", async () => {
+      mockFetchNewPosts.mockResolvedValue({ success: true, data: [] });
+
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("tasmania", "tasmania", TASMANIA_WEBHOOK),
+          createFeed("launceston", "launceston", HOBART_WEBHOOK),
+        ]),
+      );
+
+      await bot.performSync();
+      const stats = bot.getStats();
+
+      expect(Object.keys(stats.feeds)).toEqual(["tasmania", "launceston"]);
+      expect(stats.feeds.launceston).toEqual(
+        expect.objectContaining({ subreddit: "launceston", totalSyncs: 1 }),
+      );
+    });
+  });
+
+  describe("getConfig", () => {
+    it("should mask webhook tokens for every feed", () => {
+      const bot = new RedditDiscordBot(
+        createConfig(storageFilePath, [
+          createFeed("tasmania", "tasmania", TASMANIA_WEBHOOK),
+          createFeed("hobart", "hobart", HOBART_WEBHOOK),
+        ]),
+      );
+
+      const config = bot.getConfig();
+
+      expect(config.feeds?.map((feed) => feed.discord.webhookUrl)).toEqual([
+        "https://discord.com/api/webhooks/1/***masked***",
+        "https://discord.com/api/webhooks/2/***masked***",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Fake Discord webhook server for service tests
+ * Serves canned responses per path and records every request it receives.
+ * Also stands in for image hosts by serving raw response bodies.
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * Canned response served by the fake Discord server
+ */
+export interface FakeResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Raw response body, served instead of the JSON body */
+  data?: Buffer;
+}
+
+/**
+ * File uploaded in a multipart request
+ */
+export interface ReceivedFile {
+  /** Form field name, e.g. files[0] */
+  field: string;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Request received by the fake Discord server
+ */
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  /** JSON body, or the payload_json field of multipart requests */
+  body: unknown;
+  /** Files uploaded in multipart requests */
+  files: ReceivedFile[];
+  receivedAt: number;
+}
+
+/**
+ * Parse a multipart form body into its JSON payload and files
+ *
+ * @param body - Raw request body
+ * @param contentType - Content-Type header with the boundary
+ * @returns Parsed payload and files
+ */
+const parseMultipart = (
+  body: Buffer,
+  contentType: string,
+): { payload: unknown; files: ReceivedFile[] } => {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  const delimiter = `--${boundary?.[1] ?? boundary?.[2]}`;
+  const files: ReceivedFile[] = [];
+  let payload: unknown;
+
+  // latin1 keeps one character per byte, so file sizes stay exact
+  for (const part of body.toString("latin1").split(delimiter).slice(1, -1)) {
+    const headerEnd = part.indexOf("\r\n\r\n");
+    const headers = part.slice(0, headerEnd);
+    const content = part.slice(headerEnd + 4, -2);
+    const field = /name="([^"]+)"/.exec(headers)?.[1] ?? "";
+    const filename = /filename="([^"]+)"/.exec(headers)?.[1];
+
+    if (filename) {
+      files.push({
+        field,
+        filename,
+        contentType: /Content-Type: (.+)/i.exec(headers)?.[1].trim() ?? "",
+        size: content.length,
+      });
+    } else if (field === "payload_json") {
+      payload = JSON.parse(Buffer.from(content, "latin1").toString());
+    }
+  }
+
+  return { payload, files };
+};
+
+/**
+ * Running fake Discord server
+ */
+export interface FakeDiscord {
+  /** Base URL of the server, e.g. http://127.0.0.1:1234 */
+  baseUrl: string;
+  /** Requests received since the last reset */
+  received: ReceivedRequest[];
+  /** Responses queued per path; a plain 204 is served once they run out */
+  responses: Record<string, FakeResponse[]>;
+  /** Forget received requests and queued responses */
+  reset(): void;
+  /** Stop the server */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a fake Discord server on a random local port
+ *
+ * @returns Running fake Discord server
+ */
+export const startFakeDiscord = async (): Promise<FakeDiscord> => {
+  const fake = {
+    received: [] as ReceivedRequest[],
+    responses: {} as Record<string, FakeResponse[]>,
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    const receivedAt = Date.now();
+    const chunks: Buffer[] = [];
+
+    // Fall back to a plain 204 once the queued responses run out
+    const response = fake.responses[url.pathname]?.shift() ?? { status: 204 };
+
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks);
+      const contentType = req.headers["content-type"] ?? "";
+      const { payload, files } = contentType.startsWith("multipart/form-data")
+        ? parseMultipart(raw, contentType)
+        : {
+            payload: raw.length ? JSON.parse(raw.toString()) : undefined,
+            files: [],
+          };
+      fake.received.push({
+        method: req.method ?? "",
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: payload,
+        files,
+        receivedAt,
+      });
+
+      res.writeHead(response.status, {
+        "Content-Type": "application/json",
+        ...response.headers,
+      });
+      res.end(
+        response.data ??
+          (response.body ? JSON.stringify(response.body) : undefined),
+      );
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    get received() {
+      return fake.received;
+    },
+    get responses() {
+      return fake.responses;
+    },
+    reset() {
+      fake.received = [];
+      fake.responses = {};
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
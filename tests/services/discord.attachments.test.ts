@@ -0,0 +1,135 @@
+/**
+ * Image upload tests for DiscordService
+ * Checks that embed images are downloaded and uploaded as attachments, and
+ * that images over the limit or of other types keep their link
+ */
+
+import { jest } from "@jest/globals";
+import type {
+  DiscordConfig,
+  DiscordWebhookPayload,
+  RedditPost,
+} from "../../src/types";
+import { DiscordService } from "../../src/services/discord.service";
+import { createMockRedditPost } from "../setup";
+import { FakeDiscord, startFakeDiscord } from "../fake-discord";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("DiscordService image uploads", () => {
+  const webhookPath = "/api/webhooks/42/token";
+  const imagePath = "/images/photo.png";
+  const image = Buffer.alloc(2048, 1);
+  let fakeDiscord: FakeDiscord;
+
+  beforeAll(async () => {
+    fakeDiscord = await startFakeDiscord();
+  });
+
+  afterAll(async () => {
+    await fakeDiscord.close();
+  });
+
+  beforeEach(() => {
+    fakeDiscord.reset();
+  });
+
+  const serveImage = (contentType = "image/png", data = image) => {
+    fakeDiscord.responses[imagePath] = [
+      { status: 200, headers: { "Content-Type": contentType }, data },
+    ];
+  };
+
+  const createPost = (): RedditPost =>
+    createMockRedditPost({ url: `${fakeDiscord.baseUrl}${imagePath}` });
+
+  const createService = (config: Partial<DiscordConfig> = {}) =>
+    new DiscordService({
+      webhookUrl: `${fakeDiscord.baseUrl}${webhookPath}`,
+      uploadImages: true,
+      ...config,
+    });
+
+  const getWebhookRequest = () =>
+    fakeDiscord.received.find((request) =>
+      request.path.startsWith(webhookPath),
+    )!;
+
+  it("should upload the image and reference it from the embed", async () => {
+    serveImage();
+
+    const result = await createService().sendRedditPost(createPost());
+
+    expect(result).toBeSuccessResult();
+    const request = getWebhookRequest();
+    expect(request.headers["content-type"]).toMatch(/^multipart\/form-data/);
+    expect(request.files).toEqual([
+      {
+        field: "files[0]",
+        filename: "image-0.png",
+        contentType: "image/png",
+        size: image.length,
+      },
+    ]);
+    const payload = request.body as DiscordWebhookPayload;
+    expect(payload.embeds?.[0].image).toEqual({
+      url: "attachment://image-0.png",
+    });
+    expect(payload.attachments).toEqual([{ id: 0, filename: "image-0.png" }]);
+  });
+
+  it("should link images over the upload limit", async () => {
+    serveImage();
+
+    await createService({ maxUploadBytes: 1024 }).sendRedditPost(createPost());
+
+    const request = getWebhookRequest();
+    expect(request.files).toEqual([]);
+    const payload = request.body as DiscordWebhookPayload;
+    expect(payload.embeds?.[0].image).toEqual({
+      url: `${fakeDiscord.baseUrl}${imagePath}`,
+    });
+    expect(payload.attachments).toEqual([]);
+  });
+
+  it("should link files that aren't images", async () => {
+    serveImage("text/html", Buffer.from("<html></html>"));
+
+    await createService().sendRedditPost(createPost());
+
+    const payload = getWebhookRequest().body as DiscordWebhookPayload;
+    expect(payload.embeds?.[0].image?.url).toBe(
+      `${fakeDiscord.baseUrl}${imagePath}`,
+    );
+  });
+
+  it("should replace the uploads when editing the message", async () => {
+    serveImage();
+
+    await createService().editRedditPost({ messageId: "1001" }, createPost());
+
+    const request = getWebhookRequest();
+    expect(request.method).toBe("PATCH");
+    expect(request.files).toHaveLength(1);
+    expect((request.body as DiscordWebhookPayload).attachments).toEqual([
+      { id: 0, filename: "image-0.png" },
+    ]);
+  });
+
+  it("should hotlink images when uploads are off", async () => {
+    await createService({ uploadImages: false }).sendRedditPost(createPost());
+
+    expect(fakeDiscord.received).toHaveLength(1);
+    const request = getWebhookRequest();
+    expect(request.headers["content-type"]).toMatch(/^application\/json/);
+    expect((request.body as DiscordWebhookPayload).attachments).toBeUndefined();
+  });
+});
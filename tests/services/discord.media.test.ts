@@ -0,0 +1,281 @@
+/**
+ * Media rendering tests for DiscordService
+ * Checks how gallery, video, crossposted and NSFW/spoiler posts are shown in
+ * embed and normal message formats
+ */
+
+import { jest } from "@jest/globals";
+import type {
+  DiscordConfig,
+  DiscordWebhookPayload,
+  RedditPost,
+} from "../../src/types";
+import { DiscordService } from "../../src/services/discord.service";
+import { createMockRedditPost } from "../setup";
+import { FakeDiscord, startFakeDiscord } from "../fake-discord";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("DiscordService media", () => {
+  const webhookPath = "/api/webhooks/42/token";
+  let fakeDiscord: FakeDiscord;
+
+  beforeAll(async () => {
+    fakeDiscord = await startFakeDiscord();
+  });
+
+  afterAll(async () => {
+    await fakeDiscord.close();
+  });
+
+  beforeEach(() => {
+    fakeDiscord.reset();
+  });
+
+  /**
+   * Send a post and return the payload Discord received
+   */
+  const sendPost = async (
+    post: RedditPost,
+    config: Partial<DiscordConfig> = {},
+  ): Promise<DiscordWebhookPayload> => {
+    const service = new DiscordService({
+      webhookUrl: `${fakeDiscord.baseUrl}${webhookPath}`,
+      ...config,
+    });
+
+    const result = await service.sendRedditPost(post);
+
+    expect(result).toBeSuccessResult();
+    return fakeDiscord.received[0].body as DiscordWebhookPayload;
+  };
+
+  describe("galleries", () => {
+    const gallery = Array.from({ length: 5 }, (_, index) => ({
+      url: `https://i.redd.it/image-${index + 1}.jpg`,
+      ...(index === 1 && { caption: "Cradle Mountain at dawn" }),
+    }));
+    const post = createMockRedditPost({
+      selftext: "",
+      url: "https://www.reddit.com/gallery/abc123",
+      permalink: "https://reddit.com/r/tasmania/comments/abc123/gallery/",
+      gallery,
+    });
+
+    it("should show the first four images as embeds sharing the post URL", async () => {
+      const payload = await sendPost(post);
+
+      expect(payload.embeds).toHaveLength(4);
+      expect(payload.embeds?.map((embed) => embed.image?.url)).toEqual(
+        gallery.slice(0, 4).map((item) => item.url),
+      );
+      expect(
+        payload.embeds?.every((embed) => embed.url === post.permalink),
+      ).toBe(true);
+    });
+
+    it("should describe the gallery with its captions", async () => {
+      const payload = await sendPost(post);
+
+      const description = payload.embeds?.[0].description;
+      expect(description).toContain("Gallery of 5 images");
+      expect(description).toContain("**2.** Cradle Mountain at dawn");
+      expect(description).toContain(`[+1 more on Reddit](${post.permalink})`);
+      expect(description).not.toContain("Link to external content");
+    });
+
+    it("should add the image links to normal messages", async () => {
+      const payload = await sendPost(post, { messageFormat: "normal" });
+
+      expect(payload.embeds).toBeUndefined();
+      for (const item of gallery.slice(0, 4)) {
+        expect(payload.content).toContain(item.url);
+      }
+      expect(payload.content).not.toContain(gallery[4].url);
+      expect(payload.content).toContain("**2.** Cradle Mountain at dawn");
+      expect(payload.content).not.toContain("External link");
+    });
+
+    it("should send a single embed for posts without a gallery", async () => {
+      const payload = await sendPost(createMockRedditPost());
+
+      expect(payload.embeds).toHaveLength(1);
+    });
+  });
+
+  describe("videos", () => {
+    const video = {
+      url: "https://v.redd.it/abc/DASH_720.mp4?source=fallback",
+      duration: 42,
+      isGif: false,
+      previewUrl: "https://preview.redd.it/abc.jpg",
+    };
+    const post = createMockRedditPost({
+      selftext: "",
+      url: "https://v.redd.it/abc",
+      thumbnail: "https://b.thumbs.redditmedia.com/abc.jpg",
+      is_video: true,
+      video,
+    });
+
+    it("should link the video and show its preview frame in embeds", async () => {
+      const payload = await sendPost(post);
+
+      const [embed] = payload.embeds ?? [];
+      expect(embed.description).toBe(
+        "[▶ video (0:42)](https://v.redd.it/abc/DASH_720.mp4?source=fallback)",
+      );
+      expect(embed.image?.url).toBe("https://preview.redd.it/abc.jpg");
+      expect(embed.thumbnail).toBeUndefined();
+    });
+
+    it("should add the playable link to normal messages", async () => {
+      const payload = await sendPost(post, { messageFormat: "normal" });
+
+      expect(payload.content).toContain(
+        "▶ video (0:42)\nhttps://v.redd.it/abc/DASH_720.mp4?source=fallback",
+      );
+      expect(payload.content).not.toContain("External link");
+      expect(payload.content).not.toContain("https://preview.redd.it/abc.jpg");
+    });
+
+    it("should mark GIFs and long videos", async () => {
+      const gif = await sendPost({
+        ...post,
+        video: { url: video.url, isGif: true },
+      });
+      fakeDiscord.reset();
+      const long = await sendPost({
+        ...post,
+        video: { ...video, duration: 3725 },
+      });
+
+      expect(gif.embeds?.[0].description).toContain("[▶ GIF]");
+      expect(long.embeds?.[0].description).toContain("▶ video (1:02:05)");
+    });
+  });
+
+  describe("crossposts", () => {
+    const parent = createMockRedditPost({
+      id: "news1",
+      subreddit: "news",
+      author: "reporter",
+      selftext: "",
+      url: "https://www.abc.net.au/news/tasmania-story",
+      permalink: "https://reddit.com/r/news/comments/news1/story/",
+    });
+    const post = createMockRedditPost({
+      title: "Crossposted story",
+      selftext: "",
+      url: "https://www.reddit.com/r/news/comments/news1/story/",
+      crosspost_parent: parent,
+    });
+
+    it("should credit and show the original post in embeds", async () => {
+      const payload = await sendPost(post);
+
+      const [embed] = payload.embeds ?? [];
+      expect(embed.title).toBe("Crossposted story");
+      expect(embed.description).toBe(
+        "🔀 Crossposted from [r/news](https://reddit.com/r/news/comments/news1/story/) by u/reporter\n\n" +
+          "🔗 [Link to external content](https://www.abc.net.au/news/tasmania-story)",
+      );
+    });
+
+    it("should credit and link the original post in normal messages", async () => {
+      const payload = await sendPost(post, { messageFormat: "normal" });
+
+      expect(payload.content).toContain("🔀 Crossposted from [r/news]");
+      expect(payload.content).toContain(
+        "[External link](https://www.abc.net.au/news/tasmania-story)",
+      );
+    });
+  });
+
+  describe("NSFW and spoiler posts", () => {
+    const post = createMockRedditPost({
+      title: "Season finale ending",
+      selftext: "The twist is...",
+      url: "https://i.redd.it/still.jpg",
+      thumbnail: "https://b.thumbs.redditmedia.com/still.jpg",
+      spoiler: true,
+    });
+
+    it("should hide the title and text of embeds and leave out images", async () => {
+      const payload = await sendPost(post, { spoilerPolicy: "spoiler" });
+
+      const [embed] = payload.embeds ?? [];
+      expect(embed.title).toBe("⚠️ Spoiler");
+      expect(embed.description).toBe(
+        "||Season finale ending||\n\n||The twist is...||",
+      );
+      expect(embed.image).toBeUndefined();
+      expect(embed.thumbnail).toBeUndefined();
+    });
+
+    it("should hide the title, text and links of normal messages", async () => {
+      const payload = await sendPost(post, {
+        messageFormat: "normal",
+        spoilerPolicy: "spoiler",
+      });
+
+      expect(payload.content).toContain(
+        "**⚠️ Spoiler:** ||Season finale ending||",
+      );
+      expect(payload.content).toContain("||The twist is...||");
+      expect(payload.content).toContain(
+        "||[External link](<https://i.redd.it/still.jpg>)||",
+      );
+      expect(payload.content).not.toContain("\nhttps://i.redd.it/still.jpg");
+    });
+
+    it("should leave out gallery images", async () => {
+      const payload = await sendPost(
+        {
+          ...post,
+          selftext: "",
+          gallery: [
+            { url: "https://i.redd.it/1.jpg" },
+            { url: "https://i.redd.it/2.jpg" },
+          ],
+        },
+        { spoilerPolicy: "spoiler" },
+      );
+
+      expect(payload.embeds).toHaveLength(1);
+      expect(payload.embeds?.[0].image).toBeUndefined();
+    });
+
+    it("should keep the title out of forum thread names", async () => {
+      const payload = await sendPost(
+        { ...post, over_18: true },
+        {
+          enableThreading: true,
+          isForumChannel: true,
+          nsfwPolicy: "spoiler",
+          spoilerPolicy: "allow",
+        },
+      );
+
+      expect(payload.thread_name).toBe(
+        `[${post.link_flair_text}] ⚠️ NSFW, spoiler post from r/${post.subreddit}`,
+      );
+    });
+
+    it("should forward posts normally when allowed", async () => {
+      const payload = await sendPost(post, { spoilerPolicy: "allow" });
+
+      const [embed] = payload.embeds ?? [];
+      expect(embed.title).toBe("Season finale ending");
+      expect(embed.image?.url).toBe("https://i.redd.it/still.jpg");
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Mention tests for DiscordService
+ * Checks that matching posts mention their roles and users, and that no
+ * payload lets text copied from Reddit ping anyone else
+ */
+
+import { jest } from "@jest/globals";
+import type {
+  DiscordConfig,
+  DiscordWebhookPayload,
+  RedditComment,
+} from "../../src/types";
+import { DiscordService } from "../../src/services/discord.service";
+import { createMockRedditPost } from "../setup";
+import { FakeDiscord, startFakeDiscord } from "../fake-discord";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("DiscordService mentions", () => {
+  const webhookPath = "/api/webhooks/42/token";
+  let fakeDiscord: FakeDiscord;
+
+  beforeAll(async () => {
+    fakeDiscord = await startFakeDiscord();
+  });
+
+  afterAll(async () => {
+    await fakeDiscord.close();
+  });
+
+  beforeEach(() => {
+    fakeDiscord.reset();
+  });
+
+  const createService = (config: Partial<DiscordConfig> = {}) =>
+    new DiscordService({
+      webhookUrl: `${fakeDiscord.baseUrl}${webhookPath}`,
+      mentions: [
+        { flairs: ["Announcement"], roles: ["111"] },
+        { keywords: ["bushfire"], roles: ["222"], users: ["333"] },
+      ],
+      ...config,
+    });
+
+  const getPayload = (index = 0) =>
+    fakeDiscord.received[index].body as DiscordWebhookPayload;
+
+  it("should mention the roles of a matching flair above the embed", async () => {
+    await createService().sendRedditPost(
+      createMockRedditPost({ link_flair_text: "Announcement" }),
+    );
+
+    const payload = getPayload();
+    expect(payload.content).toBe("<@&111>");
+    expect(payload.embeds).toHaveLength(1);
+    expect(payload.allowed_mentions).toEqual({ parse: [], roles: ["111"] });
+  });
+
+  it("should put the mentions before normal message content", async () => {
+    await createService({ messageFormat: "normal" }).sendRedditPost(
+      createMockRedditPost({ title: "Bushfire near St Helens" }),
+    );
+
+    const payload = getPayload();
+    expect(payload.content).toMatch(/^<@&222> <@333>\n\*\*\[Discussion\]\*\* /);
+    expect(payload.allowed_mentions).toEqual({
+      parse: [],
+      roles: ["222"],
+      users: ["333"],
+    });
+  });
+
+  it("should not let text copied from Reddit ping anyone", async () => {
+    const service = createService({ messageFormat: "normal" });
+    const post = createMockRedditPost({ selftext: "@everyone <@&999>" });
+    const comment: RedditComment = {
+      id: "c1",
+      author: "commenter",
+      body: "@here look",
+      score: 57,
+      permalink: "https://reddit.com/r/test/comments/test123/_/c1",
+      created_utc: 1640995200,
+    };
+
+    await service.sendRedditPost(post);
+    await service.editRedditPost({ messageId: "1001" }, post);
+    await service.sendComment("777", comment, post);
+    await service.markPostRemoved({ messageId: "1001" }, post, "deleted");
+    await service.testConnection();
+
+    expect(fakeDiscord.received).toHaveLength(5);
+    fakeDiscord.received.forEach((_, index) => {
+      expect(getPayload(index).allowed_mentions).toEqual({ parse: [] });
+    });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Message tracking tests for DiscordService
+ * Checks that sends report the created message and that messages can be
+ * edited, deleted and archived
+ */
+
+import { jest } from "@jest/globals";
+import type { DiscordConfig, RedditComment } from "../../src/types";
+import { DiscordService } from "../../src/services/discord.service";
+import { createMockRedditPost } from "../setup";
+import { FakeDiscord, startFakeDiscord } from "../fake-discord";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("DiscordService message tracking", () => {
+  const webhookPath = "/api/webhooks/42/token";
+  let fakeDiscord: FakeDiscord;
+
+  beforeAll(async () => {
+    fakeDiscord = await startFakeDiscord();
+  });
+
+  afterAll(async () => {
+    await fakeDiscord.close();
+  });
+
+  beforeEach(() => {
+    fakeDiscord.reset();
+  });
+
+  const createService = (config: Partial<DiscordConfig> = {}): DiscordService =>
+    new DiscordService({
+      webhookUrl: `${fakeDiscord.baseUrl}${webhookPath}`,
+      ...config,
+    });
+
+  describe("sendRedditPost", () => {
+    it("should wait for the created message and return its ID", async () => {
+      fakeDiscord.responses[webhookPath] = [
+        { status: 200, body: { id: "1001", channel_id: "500" } },
+      ];
+
+      const result = await createService().sendRedditPost(
+        createMockRedditPost(),
+      );
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data).toEqual({ messageId: "1001", threadId: undefined });
+      }
+      expect(fakeDiscord.received[0].query.get("wait")).toBe("true");
+    });
+
+    it("should return the thread created for forum posts", async () => {
+      fakeDiscord.responses[webhookPath] = [
+        { status: 200, body: { id: "1002", channel_id: "777" } },
+      ];
+
+      const result = await createService({
+        enableThreading: true,
+        isForumChannel: true,
+      }).sendRedditPost(createMockRedditPost());
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data).toEqual({ messageId: "1002", threadId: "777" });
+      }
+    });
+
+    it("should tag forum threads from the tag mapping and rules", async () => {
+      await createService({
+        enableThreading: true,
+        isForumChannel: true,
+        tagMapping: { Discussion: "100" },
+        tagRules: [
+          { tag: "200", mediaTypes: ["image"] },
+          { tag: "300", keywords: ["ferry"], minScore: 100 },
+          { tag: "400", mediaTypes: ["video"] },
+        ],
+      }).sendRedditPost(
+        createMockRedditPost({
+          title: "Spirit of Tasmania ferry delayed",
+          url: "https://i.redd.it/ferry.jpg",
+          ups: 150,
+        }),
+      );
+
+      expect(fakeDiscord.received[0].body).toMatchObject({
+        applied_tags: ["100", "200", "300"],
+      });
+    });
+
+    it("should keep the thread of webhooks that post into one", async () => {
+      const service = new DiscordService({
+        webhookUrl: `${fakeDiscord.baseUrl}${webhookPath}?thread_id=888`,
+      });
+
+      const result = await service.sendRedditPost(createMockRedditPost());
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data.threadId).toBe("888");
+      }
+      expect(fakeDiscord.received[0].query.get("thread_id")).toBe("888");
+      expect(fakeDiscord.received[0].query.get("wait")).toBe("true");
+    });
+  });
+
+  describe("editRedditPost", () => {
+    it("should patch the message with the current post", async () => {
+      const post = createMockRedditPost({ title: "Edited title", ups: 250 });
+
+      const result = await createService().editRedditPost(
+        { messageId: "1001" },
+        post,
+      );
+
+      expect(result).toBeSuccessResult();
+      const [request] = fakeDiscord.received;
+      expect(request.method).toBe("PATCH");
+      expect(request.path).toBe(`${webhookPath}/messages/1001`);
+      expect(request.body).toEqual({
+        embeds: [
+          expect.objectContaining({
+            title: "Edited title",
+            footer: expect.objectContaining({
+              text: expect.stringContaining("250 upvotes"),
+            }),
+          }),
+        ],
+        allowed_mentions: { parse: [] },
+      });
+    });
+
+    it("should edit messages inside their thread", async () => {
+      await createService().editRedditPost(
+        { messageId: "1002", threadId: "777" },
+        createMockRedditPost(),
+      );
+
+      expect(fakeDiscord.received[0].query.get("thread_id")).toBe("777");
+    });
+
+    it("should report the status when the message no longer exists", async () => {
+      fakeDiscord.responses[`${webhookPath}/messages/1003`] = [
+        { status: 404, body: { message: "Unknown Message", code: 10008 } },
+      ];
+
+      const result = await createService().editRedditPost(
+        { messageId: "1003" },
+        createMockRedditPost(),
+      );
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.context?.status).toBe(404);
+      }
+      expect(fakeDiscord.received).toHaveLength(1);
+    });
+
+    it("should refuse to edit without a message ID", async () => {
+      const result = await createService().editRedditPost(
+        {},
+        createMockRedditPost(),
+      );
+
+      expect(result).toBeErrorResult();
+      expect(fakeDiscord.received).toHaveLength(0);
+    });
+  });
+
+  describe("markPostRemoved", () => {
+    it("should replace the message with a removal notice", async () => {
+      const post = createMockRedditPost({
+        selftext: "[removed]",
+        permalink: "https://reddit.com/r/tasmania/comments/abc123/",
+      });
+
+      const result = await createService().markPostRemoved(
+        { messageId: "1001", threadId: "777" },
+        post,
+        "removed by the moderators of r/tasmania",
+      );
+
+      expect(result).toBeSuccessResult();
+      const [request] = fakeDiscord.received;
+      expect(request.method).toBe("PATCH");
+      expect(request.path).toBe(`${webhookPath}/messages/1001`);
+      expect(request.query.get("thread_id")).toBe("777");
+      expect(request.body).toEqual({
+        content: "",
+        embeds: [
+          expect.objectContaining({
+            url: post.permalink,
+            description:
+              "This post was removed by the moderators of r/tasmania.",
+          }),
+        ],
+        allowed_mentions: { parse: [] },
+      });
+    });
+  });
+
+  describe("deleteMessage", () => {
+    it("should delete the message", async () => {
+      const result = await createService().deleteMessage({
+        messageId: "1001",
+        threadId: "777",
+      });
+
+      expect(result).toBeSuccessResult();
+      const [request] = fakeDiscord.received;
+      expect(request.method).toBe("DELETE");
+      expect(request.path).toBe(`${webhookPath}/messages/1001`);
+      expect(request.query.get("thread_id")).toBe("777");
+    });
+
+    it("should refuse to delete without a message ID", async () => {
+      const result = await createService().deleteMessage({});
+
+      expect(result).toBeErrorResult();
+      expect(fakeDiscord.received).toHaveLength(0);
+    });
+  });
+
+  describe("archiveThread", () => {
+    it("should archive and lock the thread with the bot token", async () => {
+      const result = await createService({
+        botToken: "bot-token",
+      }).archiveThread("777");
+
+      expect(result).toBeSuccessResult();
+      const [request] = fakeDiscord.received;
+      expect(request.method).toBe("PATCH");
+      expect(request.path).toBe("/api/v10/channels/777");
+      expect(request.headers.authorization).toBe("Bot bot-token");
+      expect(request.body).toEqual({ archived: true, locked: true });
+    });
+
+    it("should fail without a bot token", async () => {
+      const result = await createService().archiveThread("777");
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("DISCORD_BOT_TOKEN_MISSING");
+      }
+      expect(fakeDiscord.received).toHaveLength(0);
+    });
+  });
+
+  describe("fetchForumTags", () => {
+    it("should read the tags of the webhook's channel", async () => {
+      fakeDiscord.responses[webhookPath] = [
+        { status: 200, body: { id: "42", channel_id: "555" } },
+      ];
+      fakeDiscord.responses["/api/v10/channels/555"] = [
+        {
+          status: 200,
+          body: {
+            id: "555",
+            available_tags: [
+              { id: "100", name: "News", moderated: false, emoji_name: null },
+            ],
+          },
+        },
+      ];
+
+      const result = await createService({
+        botToken: "bot-token",
+      }).fetchForumTags();
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data).toEqual([{ id: "100", name: "News" }]);
+      }
+      const [webhook, channel] = fakeDiscord.received;
+      expect(webhook.method).toBe("GET");
+      expect(channel.headers.authorization).toBe("Bot bot-token");
+    });
+
+    it("should fail for channels that aren't forums", async () => {
+      fakeDiscord.responses[webhookPath] = [
+        { status: 200, body: { id: "42", channel_id: "555" } },
+      ];
+      fakeDiscord.responses["/api/v10/channels/555"] = [
+        { status: 200, body: { id: "555" } },
+      ];
+
+      const result = await createService({
+        botToken: "bot-token",
+      }).fetchForumTags();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("DISCORD_NOT_FORUM_CHANNEL");
+      }
+    });
+
+    it("should fail without a bot token", async () => {
+      const result = await createService().fetchForumTags();
+
+      expect(result).toBeErrorResult();
+      expect(fakeDiscord.received).toHaveLength(0);
+    });
+  });
+
+  describe("sendComment", () => {
+    const comment: RedditComment = {
+      id: "c1",
+      author: "commenter",
+      body: "Great photo",
+      score: 57,
+      permalink: "https://reddit.com/r/test/comments/test123/_/c1",
+      created_utc: 1640995200,
+    };
+
+    it("should post the comment into the thread", async () => {
+      fakeDiscord.responses[webhookPath] = [
+        { status: 200, body: { id: "1003", channel_id: "777" } },
+      ];
+
+      const result = await createService().sendComment(
+        "777",
+        comment,
+        createMockRedditPost(),
+      );
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data).toEqual({ messageId: "1003", threadId: "777" });
+      }
+      const [request] = fakeDiscord.received;
+      expect(request.query.get("thread_id")).toBe("777");
+      expect(request.query.get("wait")).toBe("true");
+      expect(request.body).toMatchObject({
+        embeds: [
+          {
+            url: comment.permalink,
+            description: "Great photo",
+            author: { name: "u/commenter" },
+            footer: { text: "⬆️ 57 points" },
+          },
+        ],
+      });
+    });
+
+    it("should hide comments of spoiler posts in normal messages", async () => {
+      await createService({
+        messageFormat: "normal",
+        spoilerPolicy: "spoiler",
+      }).sendComment("777", comment, createMockRedditPost({ spoiler: true }));
+
+      const [request] = fakeDiscord.received;
+      expect(request.body).toMatchObject({
+        content: `💬 **u/commenter** • ⬆️ 57 • <${comment.permalink}>\n||Great photo||`,
+      });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Rate limit tests for DiscordService
+ * Runs real webhook requests against a local fake Discord server
+ */
+
+import { jest } from "@jest/globals";
+import { DiscordService } from "../../src/services/discord.service";
+import { DiscordRateLimiter } from "../../src/utils/rate-limiter";
+import { createMockRedditPost } from "../setup";
+import {
+  FakeDiscord,
+  FakeResponse,
+  ReceivedRequest,
+  startFakeDiscord,
+} from "../fake-discord";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("DiscordService rate limiting", () => {
+  let fakeDiscord: FakeDiscord;
+  let baseUrl: string;
+  let responses: Record<string, FakeResponse[]>;
+
+  beforeAll(async () => {
+    fakeDiscord = await startFakeDiscord();
+    baseUrl = fakeDiscord.baseUrl;
+  });
+
+  afterAll(async () => {
+    await fakeDiscord.close();
+  });
+
+  beforeEach(() => {
+    fakeDiscord.reset();
+    responses = fakeDiscord.responses;
+  });
+
+  const webhookPath = (id: string): string => `/api/webhooks/${id}/token`;
+
+  const createService = (
+    id: string,
+    rateLimiter?: DiscordRateLimiter,
+  ): DiscordService =>
+    new DiscordService(
+      { webhookUrl: `${baseUrl}${webhookPath(id)}`, messageFormat: "normal" },
+      rateLimiter,
+    );
+
+  const requestsTo = (id: string): ReceivedRequest[] =>
+    fakeDiscord.received.filter((request) => request.path === webhookPath(id));
+
+  it("should wait for retry_after and retry a 429 response", async () => {
+    responses[webhookPath("1")] = [
+      {
+        status: 429,
+        body: { message: "You are being rate limited.", retry_after: 0.2 },
+      },
+    ];
+
+    const result = await createService("1").sendRedditPost(
+      createMockRedditPost(),
+    );
+
+    expect(result).toBeSuccessResult();
+    const requests = requestsTo("1");
+    expect(requests).toHaveLength(2);
+    expect(
+      requests[1].receivedAt - requests[0].receivedAt,
+    ).toBeGreaterThanOrEqual(190);
+  });
+
+  it("should not count 429 responses as failed attempts", async () => {
+    const rateLimited: FakeResponse = {
+      status: 429,
+      body: { message: "You are being rate limited.", retry_after: 0.05 },
+    };
+    responses[webhookPath("1")] = [rateLimited, rateLimited, rateLimited];
+
+    const result = await createService("1").sendRedditPost(
+      createMockRedditPost(),
+    );
+
+    // Three 429s would use up every attempt if they counted as failures
+    expect(result).toBeSuccessResult();
+    expect(requestsTo("1")).toHaveLength(4);
+  });
+
+  it("should give up when Discord asks for an excessive wait", async () => {
+    responses[webhookPath("1")] = [
+      {
+        status: 429,
+        body: { message: "You are being rate limited.", retry_after: 3600 },
+      },
+    ];
+
+    const result = await createService("1").sendRedditPost(
+      createMockRedditPost(),
+    );
+
+    expect(result).toBeErrorResult();
+    if (!result.success) {
+      expect(result.error.code).toBe("DISCORD_WEBHOOK_FAILED");
+    }
+    expect(requestsTo("1")).toHaveLength(1);
+  });
+
+  it("should still treat other 4xx responses as fatal", async () => {
+    responses[webhookPath("1")] = [
+      { status: 400, body: { message: "Invalid Form Body" } },
+    ];
+
+    const result = await createService("1").sendRedditPost(
+      createMockRedditPost(),
+    );
+
+    expect(result).toBeErrorResult();
+    expect(requestsTo("1")).toHaveLength(1);
+  });
+
+  it("should wait for an exhausted bucket to reset before the next request", async () => {
+    responses[webhookPath("1")] = [
+      {
+        status: 204,
+        headers: {
+          "X-RateLimit-Limit": "5",
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset-After": "0.3",
+          "X-RateLimit-Bucket": "webhook-1",
+        },
+      },
+    ];
+
+    const service = createService("1");
+    await service.sendRedditPost(createMockRedditPost({ id: "first" }));
+    await service.sendRedditPost(createMockRedditPost({ id: "second" }));
+
+    const requests = requestsTo("1");
+    expect(requests).toHaveLength(2);
+    expect(
+      requests[1].receivedAt - requests[0].receivedAt,
+    ).toBeGreaterThanOrEqual(290);
+  });
+
+  it("should keep buckets separate for each webhook", async () => {
+    responses[webhookPath("1")] = [
+      {
+        status: 204,
+        headers: {
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset-After": "5",
+        },
+      },
+    ];
+
+    const rateLimiter = new DiscordRateLimiter();
+    await createService("1", rateLimiter).sendRedditPost(
+      createMockRedditPost(),
+    );
+
+    const startedAt = Date.now();
+    const result = await createService("2", rateLimiter).sendRedditPost(
+      createMockRedditPost(),
+    );
+
+    expect(result).toBeSuccessResult();
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(
+      rateLimiter.getWaitTime(`${baseUrl}${webhookPath("1")}`),
+    ).toBeGreaterThan(0);
+  });
+
+  it("should hold every webhook sharing the limiter during a global limit", async () => {
+    responses[webhookPath("1")] = [
+      {
+        status: 429,
+        headers: { "X-RateLimit-Global": "true" },
+        body: {
+          message: "You are being rate limited.",
+          retry_after: 0.3,
+          global: true,
+        },
+      },
+    ];
+
+    const rateLimiter = new DiscordRateLimiter();
+    const first = createService("1", rateLimiter).sendRedditPost(
+      createMockRedditPost({ id: "first" }),
+    );
+
+    // Let the 429 arrive before the second webhook sends
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const second = createService("2", rateLimiter).sendRedditPost(
+      createMockRedditPost({ id: "second" }),
+    );
+
+    const results = await Promise.all([first, second]);
+
+    expect(results[0]).toBeSuccessResult();
+    expect(results[1]).toBeSuccessResult();
+    expect(
+      requestsTo("2")[0].receivedAt - requestsTo("1")[0].receivedAt,
+    ).toBeGreaterThanOrEqual(290);
+  });
+});
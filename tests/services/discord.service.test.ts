@@ -92,7 +92,7 @@ describe("DiscordService", () => {
 
       // Verify webhook call
       expect(mockAxios.post).toHaveBeenCalledWith(
-        mockDiscordConfig.webhookUrl,
+        `${mockDiscordConfig.webhookUrl}?wait=true`,
         expect.objectContaining({
           username: "Test Bot",
           avatar_url: "https://example.com/avatar.png",
@@ -454,7 +454,7 @@ describe("DiscordService", () => {
       }
 
       expect(mockAxios.post).toHaveBeenCalledWith(
-        mockDiscordConfig.webhookUrl,
+        `${mockDiscordConfig.webhookUrl}?wait=true`,
         expect.objectContaining({
           username: "Test Bot",
           embeds: expect.arrayContaining([
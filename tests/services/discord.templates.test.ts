@@ -0,0 +1,113 @@
+/**
+ * Template format tests for DiscordService
+ * Checks that messages are built from user-defined templates
+ */
+
+import { jest } from "@jest/globals";
+import type {
+  DiscordWebhookPayload,
+  MessageTemplates,
+  RedditPost,
+} from "../../src/types";
+import { DiscordService } from "../../src/services/discord.service";
+import { createMockRedditPost } from "../setup";
+import { FakeDiscord, startFakeDiscord } from "../fake-discord";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("DiscordService templates", () => {
+  const webhookPath = "/api/webhooks/42/token";
+  let fakeDiscord: FakeDiscord;
+
+  beforeAll(async () => {
+    fakeDiscord = await startFakeDiscord();
+  });
+
+  afterAll(async () => {
+    await fakeDiscord.close();
+  });
+
+  beforeEach(() => {
+    fakeDiscord.reset();
+  });
+
+  /**
+   * Send a post with the template format and return the payload Discord received
+   */
+  const sendPost = async (
+    post: RedditPost,
+    templates: MessageTemplates,
+  ): Promise<DiscordWebhookPayload> => {
+    const service = new DiscordService({
+      webhookUrl: `${fakeDiscord.baseUrl}${webhookPath}`,
+      messageFormat: "template",
+      templates,
+    });
+
+    const result = await service.sendRedditPost(post);
+
+    expect(result).toBeSuccessResult();
+    return fakeDiscord.received[0].body as DiscordWebhookPayload;
+  };
+
+  it("should build the content and embed from the templates", async () => {
+    const payload = await sendPost(
+      createMockRedditPost({ ups: 2500, url: "https://i.redd.it/photo.jpg" }),
+      {
+        content: "New in r/{{subreddit}}",
+        title: "{{#if flair}}[{{flair}}] {{/if}}{{title}}",
+        description: "{{truncate text 7}}",
+        footer: "{{number score}} upvotes",
+        fields: [
+          { name: "Comments", value: "{{comments}}", inline: true },
+          { name: "Flair", value: "{{flair}}" },
+        ],
+      },
+    );
+
+    expect(payload.content).toBe("New in r/test");
+    expect(payload.embeds).toHaveLength(1);
+    expect(payload.embeds?.[0]).toMatchObject({
+      title: "[Discussion] Test Post Title",
+      description: "This is...",
+      footer: { text: "2.5K upvotes" },
+      fields: [
+        { name: "Comments", value: "5", inline: true },
+        { name: "Flair", value: "Discussion" },
+      ],
+      url: "/r/test/comments/test123/test_post_title",
+      image: { url: "https://i.redd.it/photo.jpg" },
+    });
+  });
+
+  it("should leave out the embed and empty fields when not templated", async () => {
+    const payload = await sendPost(
+      createMockRedditPost({ link_flair_text: null }),
+      {
+        content: "{{title}}",
+        fields: [{ name: "Flair", value: "{{flair}}" }],
+      },
+    );
+
+    expect(payload.content).toBe("Test Post Title");
+    expect(payload.embeds).toBeUndefined();
+  });
+
+  it("should keep the built-in embed for hidden posts", async () => {
+    const payload = await sendPost(createMockRedditPost({ spoiler: true }), {
+      content: "{{title}}",
+      title: "{{title}}",
+    });
+
+    expect(payload.content).toBeUndefined();
+    expect(payload.embeds?.[0].title).toBe("⚠️ Spoiler");
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Unit tests for RedditService listings
+ * Tests which snoowrap listing or search a feed's listing config fetches,
+ * and fetching a post's top comments and a subreddit's link flairs
+ */
+
+import { jest } from "@jest/globals";
+import type { ListingConfig, RedditConfig } from "../../src/types";
+import { RedditService } from "../../src/services/reddit.service";
+import { logger } from "../../src/utils/logger";
+
+// Mock snoowrap - every listing resolves to one submission
+const submission = {
+  id: "abc123",
+  title: "Bushfire warning",
+  author: { name: "user1" },
+  url: "https://example.com/bushfire",
+  selftext: "",
+  permalink: "/r/tasmania/comments/abc123/bushfire_warning",
+  thumbnail: "default",
+  link_flair_text: null,
+  ups: 10,
+  num_comments: 2,
+  created_utc: 1640995200,
+  subreddit: { display_name: "tasmania" },
+};
+
+type ListingFunction = jest.MockedFunction<
+  (options: Record<string, unknown>) => Promise<unknown[]>
+>;
+
+const mockSubreddit: Record<string, ListingFunction> = {
+  getNew: jest.fn(),
+  getHot: jest.fn(),
+  getRising: jest.fn(),
+  getTop: jest.fn(),
+  getControversial: jest.fn(),
+  getLinkFlairTemplates: jest.fn(),
+};
+const mockSearch = jest.fn() as ListingFunction;
+const mockGetSubreddit = jest.fn(() => mockSubreddit);
+const mockOauthRequest = jest.fn() as jest.MockedFunction<
+  (options: Record<string, unknown>) => Promise<unknown>
+>;
+
+jest.mock("snoowrap", () =>
+  jest.fn().mockImplementation(() => ({
+    getSubreddit: mockGetSubreddit,
+    search: mockSearch,
+    oauthRequest: mockOauthRequest,
+    config: jest.fn(),
+  })),
+);
+
+jest.mock("../../src/utils/oauth", () => ({
+  RedditOAuth2Manager: jest.fn().mockImplementation(() => ({
+    getValidAccessToken: async () => ({ success: true, data: "token" }),
+  })),
+}));
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("RedditService listings", () => {
+  const config: RedditConfig = {
+    clientId: "test_client_id",
+    clientSecret: "test_client_secret",
+    redirectUri: "http://localhost:8080/auth/callback",
+    userAgent: "TestBot/1.0.0 by u/test",
+    subreddit: "tasmania",
+    postLimit: 25,
+  };
+  let redditService: RedditService;
+
+  beforeEach(() => {
+    for (const listing of [...Object.values(mockSubreddit), mockSearch]) {
+      listing.mockResolvedValue([submission]);
+    }
+    redditService = new RedditService(config);
+    // Skip the delay between Reddit requests
+    jest
+      .spyOn(
+        redditService as unknown as { enforceRateLimit: () => Promise<void> },
+        "enforceRateLimit",
+      )
+      .mockResolvedValue(undefined);
+  });
+
+  const fetchListing = async (listing?: ListingConfig) => {
+    const result = await redditService.fetchNewPosts(10, "tasmania", listing);
+    expect(result).toBeSuccessResult();
+    return result;
+  };
+
+  it("should fetch new posts by default", async () => {
+    const result = await fetchListing();
+
+    expect(mockGetSubreddit).toHaveBeenCalledWith("tasmania");
+    expect(mockSubreddit.getNew).toHaveBeenCalledWith({ limit: 10 });
+    expect(result.success && result.data[0].id).toBe("abc123");
+  });
+
+  it.each(["hot", "rising"] as const)(
+    "should fetch the %s listing",
+    async (sort) => {
+      await fetchListing({ sort });
+
+      const method = sort === "hot" ? "getHot" : "getRising";
+      expect(mockSubreddit[method]).toHaveBeenCalledWith({ limit: 10 });
+      expect(mockSubreddit.getNew).not.toHaveBeenCalled();
+    },
+  );
+
+  it("should fetch top and controversial posts for a time range", async () => {
+    await fetchListing({ sort: "top", time: "week" });
+    await fetchListing({ sort: "controversial", time: "day" });
+
+    expect(mockSubreddit.getTop).toHaveBeenCalledWith({
+      limit: 10,
+      time: "week",
+    });
+    expect(mockSubreddit.getControversial).toHaveBeenCalledWith({
+      limit: 10,
+      time: "day",
+    });
+  });
+
+  it("should search the subreddit by default", async () => {
+    await fetchListing({
+      sort: "search",
+      query: "bushfire",
+      searchSort: "new",
+    });
+
+    expect(mockSearch).toHaveBeenCalledWith({
+      query: "bushfire",
+      subreddit: "tasmania",
+      restrictSr: true,
+      sort: "new",
+      time: undefined,
+      limit: 10,
+    });
+  });
+
+  it("should search all of Reddit when not restricted to the subreddit", async () => {
+    await fetchListing({
+      sort: "search",
+      query: "bushfire",
+      restrictSr: false,
+      time: "day",
+    });
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      expect.objectContaining({ restrictSr: false, time: "day" }),
+    );
+  });
+
+  it("should report the listing when fetching fails", async () => {
+    mockSubreddit.getTop.mockRejectedValue(new Error("Reddit is down"));
+
+    const result = await redditService.fetchNewPosts(10, "tasmania", {
+      sort: "top",
+    });
+
+    expect(result).toBeErrorResult();
+    if (!result.success) {
+      expect(result.error.code).toBe("REDDIT_FETCH_ERROR");
+      expect(result.error.context?.listing).toBe("top");
+    }
+  });
+
+  describe("cursor catch-up", () => {
+    const page = (ids: number[]) =>
+      ids.map((id) => ({ ...submission, id: `p${id}`, created_utc: id }));
+
+    it("should page back through new posts until it reaches the cursor", async () => {
+      mockSubreddit.getNew
+        .mockResolvedValueOnce(page([10, 9]))
+        .mockResolvedValueOnce(page([8, 7]))
+        .mockResolvedValueOnce(page([6, 5]));
+
+      const result = await redditService.fetchNewPosts(
+        2,
+        "tasmania",
+        undefined,
+        { fullname: "t3_p5", createdUtc: 5 },
+      );
+
+      expect(mockSubreddit.getNew).toHaveBeenCalledTimes(3);
+      expect(mockSubreddit.getNew).toHaveBeenNthCalledWith(2, {
+        limit: 2,
+        after: "t3_p9",
+      });
+      expect(mockSubreddit.getNew).toHaveBeenNthCalledWith(3, {
+        limit: 2,
+        after: "t3_p7",
+      });
+      expect(result.success && result.data.map((post) => post.id)).toEqual([
+        "p10",
+        "p9",
+        "p8",
+        "p7",
+        "p6",
+        "p5",
+      ]);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it("should stop at a page older than a deleted cursor post", async () => {
+      mockSubreddit.getNew
+        .mockResolvedValueOnce(page([10, 9]))
+        .mockResolvedValueOnce(page([7, 6]));
+
+      await redditService.fetchNewPosts(2, "tasmania", undefined, {
+        fullname: "t3_deleted",
+        createdUtc: 8,
+      });
+
+      expect(mockSubreddit.getNew).toHaveBeenCalledTimes(2);
+    });
+
+    it("should warn when the cursor is out of reach", async () => {
+      let next = 1000;
+      mockSubreddit.getNew.mockImplementation(async () => {
+        next -= 2;
+        return page([next + 2, next + 1]);
+      });
+
+      const result = await redditService.fetchNewPosts(
+        2,
+        "tasmania",
+        undefined,
+        { fullname: "t3_p1", createdUtc: 1 },
+      );
+
+      expect(mockSubreddit.getNew).toHaveBeenCalledTimes(10);
+      expect(result.success && result.data).toHaveLength(20);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("may have been missed"),
+        expect.objectContaining({ cursor: "t3_p1", pages: 10 }),
+      );
+    });
+
+    it("should not page other listings", async () => {
+      mockSubreddit.getTop.mockResolvedValue(page([10, 9]));
+
+      await redditService.fetchNewPosts(
+        2,
+        "tasmania",
+        { sort: "top" },
+        {
+          fullname: "t3_p1",
+          createdUtc: 1,
+        },
+      );
+
+      expect(mockSubreddit.getTop).toHaveBeenCalledTimes(1);
+      expect(mockSubreddit.getNew).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("time ranges", () => {
+    const pageOf = (first: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        ...submission,
+        id: `p${first - i}`,
+        created_utc: first - i,
+      }));
+
+    it("should page back until it passes the start of the range", async () => {
+      mockSubreddit.getNew
+        .mockResolvedValueOnce(pageOf(300, 100))
+        .mockResolvedValueOnce(pageOf(200, 100));
+
+      const result = await redditService.fetchPostsInRange(
+        "tasmania",
+        150_000,
+        250_000,
+      );
+
+      expect(mockSubreddit.getNew).toHaveBeenCalledTimes(2);
+      expect(mockSubreddit.getNew).toHaveBeenNthCalledWith(1, { limit: 100 });
+      expect(mockSubreddit.getNew).toHaveBeenNthCalledWith(2, {
+        limit: 100,
+        after: "t3_p201",
+      });
+      const ids = result.success ? result.data.map((post) => post.id) : [];
+      expect(ids).toHaveLength(101);
+      expect(ids[0]).toBe("p250");
+      expect(ids[ids.length - 1]).toBe("p150");
+    });
+
+    it("should stop at the end of the listing", async () => {
+      mockSubreddit.getNew.mockResolvedValueOnce(pageOf(300, 20));
+
+      const result = await redditService.fetchPostsInRange("tasmania", 0, 1e9);
+
+      expect(mockSubreddit.getNew).toHaveBeenCalledTimes(1);
+      expect(result.success && result.data).toHaveLength(20);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("top comments", () => {
+    const comment = (id: string, score: number, extra = {}) => ({
+      id,
+      author: { name: `author-${id}` },
+      body: `Comment ${id}`,
+      score,
+      permalink: `/r/tasmania/comments/abc123/_/${id}/`,
+      created_utc: 1640995300,
+      stickied: false,
+      ...extra,
+    });
+
+    it("should fetch top-level comments highest score first", async () => {
+      mockOauthRequest.mockResolvedValueOnce([
+        [submission],
+        [comment("c1", 5), comment("c2", 40)],
+      ]);
+
+      const result = await redditService.fetchTopComments("abc123", 3);
+
+      expect(mockOauthRequest).toHaveBeenCalledWith({
+        uri: "comments/abc123",
+        qs: { sort: "top", limit: 3, depth: 1 },
+      });
+      expect(result.success && result.data).toEqual([
+        {
+          id: "c2",
+          author: "author-c2",
+          body: "Comment c2",
+          score: 40,
+          permalink: "https://reddit.com/r/tasmania/comments/abc123/_/c2/",
+          created_utc: 1640995300,
+        },
+        expect.objectContaining({ id: "c1" }),
+      ]);
+    });
+
+    it("should leave out stickied, deleted and removed comments", async () => {
+      mockOauthRequest.mockResolvedValueOnce([
+        [submission],
+        [
+          comment("c1", 90, { stickied: true }),
+          comment("c2", 80, { body: "[removed]" }),
+          comment("c3", 70, {
+            body: "[deleted]",
+            author: { name: "[deleted]" },
+          }),
+          comment("c4", 60),
+        ],
+      ]);
+
+      const result = await redditService.fetchTopComments("abc123", 5);
+
+      expect(result.success && result.data.map(({ id }) => id)).toEqual(["c4"]);
+    });
+  });
+
+  describe("link flairs", () => {
+    it("should return each flair text once, leaving out blank flairs", async () => {
+      mockSubreddit.getLinkFlairTemplates.mockResolvedValueOnce(
+        ["News", " Question ", "", "News"].map((flair_text, index) => ({
+          flair_text,
+          flair_template_id: `template-${index}`,
+        })),
+      );
+
+      const result = await redditService.fetchLinkFlairs("hobart");
+
+      expect(mockGetSubreddit).toHaveBeenCalledWith("hobart");
+      expect(result.success && result.data).toEqual(["News", "Question"]);
+    });
+  });
+});
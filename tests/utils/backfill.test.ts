@@ -0,0 +1,111 @@
+/**
+ * Unit tests for backfill helpers
+ * Tests parsing backfill times, delays and requests, and when checkpoints resume
+ */
+
+import {
+  DEFAULT_BACKFILL_DELAY_MS,
+  canResumeBackfill,
+  parseBackfillDelay,
+  parseBackfillRequest,
+  parseBackfillTime,
+} from "../../src/utils/backfill";
+import type { BackfillProgress } from "../../src/types";
+
+describe("backfill helpers", () => {
+  const now = Date.UTC(2026, 9, 19, 12);
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  describe("parseBackfillTime", () => {
+    it("should parse ISO dates, timestamps and relative times", () => {
+      expect(parseBackfillTime("2026-10-12T00:00:00Z", now)).toBe(
+        Date.UTC(2026, 9, 12),
+      );
+      expect(parseBackfillTime("1760000000000", now)).toBe(1760000000000);
+      expect(parseBackfillTime(1760000000000, now)).toBe(1760000000000);
+      expect(parseBackfillTime("7d", now)).toBe(now - 7 * dayMs);
+      expect(parseBackfillTime("12h", now)).toBe(now - dayMs / 2);
+      expect(parseBackfillTime("2w", now)).toBe(now - 14 * dayMs);
+    });
+
+    it("should return undefined for invalid times", () => {
+      expect(parseBackfillTime("last week", now)).toBeUndefined();
+      expect(parseBackfillTime("7y", now)).toBeUndefined();
+    });
+  });
+
+  describe("parseBackfillDelay", () => {
+    it("should parse whole delays and default when not given", () => {
+      expect(parseBackfillDelay("500")).toBe(500);
+      expect(parseBackfillDelay(0)).toBe(0);
+      expect(parseBackfillDelay(undefined)).toBe(DEFAULT_BACKFILL_DELAY_MS);
+      expect(parseBackfillDelay("")).toBe(DEFAULT_BACKFILL_DELAY_MS);
+    });
+
+    it("should return undefined for invalid delays", () => {
+      expect(parseBackfillDelay("abc")).toBeUndefined();
+      expect(parseBackfillDelay("-5")).toBeUndefined();
+      expect(parseBackfillDelay(1.5)).toBeUndefined();
+    });
+  });
+
+  describe("parseBackfillRequest", () => {
+    it("should default to the given feed, now and the default delay", () => {
+      expect(parseBackfillRequest({ from: "7d" }, "default", now)).toEqual({
+        success: true,
+        data: {
+          feed: "default",
+          from: now - 7 * dayMs,
+          to: now,
+          delayMs: DEFAULT_BACKFILL_DELAY_MS,
+        },
+      });
+    });
+
+    it("should reject missing, invalid and reversed ranges", () => {
+      expect(parseBackfillRequest({}, "default", now)).toBeErrorResult();
+      expect(
+        parseBackfillRequest({ from: "soon" }, "default", now),
+      ).toBeErrorResult();
+      expect(
+        parseBackfillRequest({ from: "1d", to: "2d" }, "default", now),
+      ).toBeErrorResult();
+      expect(
+        parseBackfillRequest({ from: "1d", delayMs: "-5" }, "default", now),
+      ).toBeErrorResult();
+    });
+  });
+
+  describe("canResumeBackfill", () => {
+    const options = { feed: "default", from: 1000, to: 2000, delayMs: 0 };
+    const checkpoint: BackfillProgress = {
+      feed: "default",
+      from: 1000,
+      to: 2000,
+      found: 10,
+      sent: 4,
+      failed: 0,
+      skipped: 1,
+      processedThrough: 1,
+      startedAt: 1500,
+      updatedAt: 1600,
+    };
+
+    it("should resume an unfinished backfill of the same range", () => {
+      expect(canResumeBackfill(checkpoint, options)).toBe(true);
+    });
+
+    it("should start over for finished backfills or other ranges", () => {
+      expect(canResumeBackfill(undefined, options)).toBe(false);
+      expect(
+        canResumeBackfill({ ...checkpoint, completedAt: 1700 }, options),
+      ).toBe(false);
+      expect(canResumeBackfill(checkpoint, { ...options, to: 3000 })).toBe(
+        false,
+      );
+      expect(
+        canResumeBackfill(checkpoint, { ...options, feed: "hobart" }),
+      ).toBe(false);
+    });
+  });
+});
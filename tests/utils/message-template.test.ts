@@ -0,0 +1,89 @@
+/**
+ * Unit tests for message templates
+ * Tests placeholders, #if blocks, helpers and the errors for bad templates
+ */
+
+import {
+  MessageTemplate,
+  TemplateContext,
+  compileMessageTemplates,
+} from "../../src/utils/message-template";
+
+describe("MessageTemplate", () => {
+  const now = Date.UTC(2026, 9, 19, 12);
+  const context: TemplateContext = {
+    title: "Snow on kunanyi",
+    author: "hobartlocal",
+    subreddit: "tasmania",
+    url: "https://i.redd.it/snow.jpg",
+    permalink: "https://reddit.com/r/tasmania/comments/abc123/snow",
+    text: "The mountain is white down to the Springs this morning",
+    flair: "",
+    score: 1234,
+    comments: 56,
+    created: now / 1000 - 3 * 60 * 60,
+    nsfw: false,
+    spoiler: false,
+  };
+
+  const render = (source: string) =>
+    new MessageTemplate(source, "test").render(context, now);
+
+  it("should fill in values", () => {
+    expect(render("{{title}} by u/{{author}} in r/{{ subreddit }}")).toBe(
+      "Snow on kunanyi by u/hobartlocal in r/tasmania",
+    );
+  });
+
+  it("should render #if blocks with an optional else", () => {
+    expect(render("{{#if flair}}[{{flair}}] {{/if}}{{title}}")).toBe(
+      "Snow on kunanyi",
+    );
+    expect(render("{{#if nsfw}}NSFW{{else}}{{comments}} comments{{/if}}")).toBe(
+      "56 comments",
+    );
+  });
+
+  it("should truncate text and format numbers and times", () => {
+    expect(render("{{truncate text 18}}")).toBe("The mountain is wh...");
+    expect(render("{{truncate title 100}}")).toBe("Snow on kunanyi");
+    expect(render("{{number score}} upvotes")).toBe("1.2K upvotes");
+    expect(render("{{number comments}}")).toBe("56");
+    expect(render("posted {{relativeTime created}}")).toBe(
+      "posted 3 hours ago",
+    );
+  });
+
+  it("should point to the bad placeholder", () => {
+    expect(() => new MessageTemplate("Title:\n  {{titel}}", "title")).toThrow(
+      'Invalid template title at line 2, column 3 in {{titel}}: unknown value "titel"',
+    );
+    expect(() => new MessageTemplate("{{shout title}}", "title")).toThrow(
+      'line 1, column 1 in {{shout title}}: unknown helper "shout"',
+    );
+    expect(() => new MessageTemplate("{{truncate text}}", "title")).toThrow(
+      'helper "truncate" takes 2 arguments',
+    );
+  });
+
+  it("should reject unbalanced blocks and placeholders", () => {
+    expect(() => new MessageTemplate("{{#if flair}}x", "footer")).toThrow(
+      "Invalid template footer at line 1, column 1: {{#if}} is never closed with {{/if}}",
+    );
+    expect(() => new MessageTemplate("x{{/if}}", "footer")).toThrow(
+      "{{/if}} without an open {{#if}}",
+    );
+    expect(() => new MessageTemplate("{{title", "footer")).toThrow(
+      "placeholder is never closed with }}",
+    );
+  });
+
+  it("should name the field of a bad field template", () => {
+    expect(() =>
+      compileMessageTemplates({
+        title: "{{title}}",
+        fields: [{ name: "Score", value: "{{scor}}" }],
+      }),
+    ).toThrow("Invalid template fields[0].value");
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for duplicate content detection
+ * Tests link normalisation and which posts count as the same content
+ */
+
+import {
+  getPostContent,
+  isSameContent,
+  normalizeContentUrl,
+} from "../../src/utils/post-dedupe";
+import { createMockRedditPost } from "../setup";
+
+describe("post dedupe", () => {
+  describe("normalizeContentUrl", () => {
+    it("should treat variations of the same link as equal", () => {
+      const expected = "abc.net.au/news/story?id=1&page=2";
+
+      expect(
+        normalizeContentUrl("https://www.abc.net.au/news/story/?page=2&id=1"),
+      ).toBe(expected);
+      expect(
+        normalizeContentUrl(
+          "http://ABC.net.au/news/story?id=1&utm_source=reddit&page=2#top",
+        ),
+      ).toBe(expected);
+    });
+
+    it("should ignore links to Reddit itself and invalid links", () => {
+      expect(
+        normalizeContentUrl("https://www.reddit.com/r/tasmania/comments/abc/"),
+      ).toBeUndefined();
+      expect(
+        normalizeContentUrl("https://old.reddit.com/gallery/abc"),
+      ).toBeUndefined();
+      expect(normalizeContentUrl("not a url")).toBeUndefined();
+    });
+  });
+
+  describe("getPostContent", () => {
+    it("should use the original post of crossposts", () => {
+      const parent = createMockRedditPost({
+        id: "parent",
+        url: "https://example.com/article",
+      });
+      const post = createMockRedditPost({
+        id: "crosspost",
+        url: "https://www.reddit.com/r/news/comments/parent/",
+        crosspost_parent: parent,
+      });
+
+      expect(getPostContent(post)).toEqual({
+        sourceId: "parent",
+        url: "example.com/article",
+      });
+    });
+  });
+
+  describe("isSameContent", () => {
+    it("should match on the original post or the link", () => {
+      expect(isSameContent({ sourceId: "a" }, { sourceId: "a" })).toBe(true);
+      expect(
+        isSameContent(
+          { sourceId: "a", url: "example.com/x" },
+          { sourceId: "b", url: "example.com/x" },
+        ),
+      ).toBe(true);
+      expect(isSameContent({ sourceId: "a" }, { sourceId: "b" })).toBe(false);
+      expect(isSameContent({}, {})).toBe(false);
+    });
+  });
+});
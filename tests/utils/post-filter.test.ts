@@ -0,0 +1,190 @@
+/**
+ * Unit tests for PostFilter
+ * Tests each filter rule and the rule reported for rejected posts
+ */
+
+import { PostFilter } from "../../src/utils/post-filter";
+import { createMockRedditPost } from "../setup";
+
+describe("PostFilter", () => {
+  const now = 1_700_000_000_000;
+
+  it("should pass every post when no rules are set", () => {
+    expect(new PostFilter().evaluate(createMockRedditPost())).toBeUndefined();
+  });
+
+  describe("flairs", () => {
+    it("should only pass posts with an included flair", () => {
+      const filter = new PostFilter({ includeFlairs: ["news", "Discussion"] });
+
+      expect(
+        filter.evaluate(createMockRedditPost({ link_flair_text: "News" })),
+      ).toBeUndefined();
+      expect(
+        filter.evaluate(createMockRedditPost({ link_flair_text: "Meme" })),
+      ).toEqual({ rule: "includeFlairs", detail: 'flair "Meme"' });
+    });
+
+    it("should reject posts with an excluded flair", () => {
+      const filter = new PostFilter({ excludeFlairs: ["meme"] });
+
+      expect(
+        filter.evaluate(createMockRedditPost({ link_flair_text: "Meme" })),
+      ).toEqual({ rule: "excludeFlairs", detail: 'matched "meme"' });
+    });
+  });
+
+  describe("keywords and patterns", () => {
+    it("should match keywords in the title or text ignoring case", () => {
+      const filter = new PostFilter({
+        includeKeywords: ["ferry"],
+        excludeKeywords: ["cancelled"],
+      });
+
+      expect(
+        filter.evaluate(createMockRedditPost({ title: "Spirit of Tasmania" })),
+      ).toEqual({ rule: "includeKeywords", detail: "no matching keyword" });
+      expect(
+        filter.evaluate(
+          createMockRedditPost({ selftext: "The FERRY is late" }),
+        ),
+      ).toBeUndefined();
+      expect(
+        filter.evaluate(createMockRedditPost({ title: "Ferry Cancelled" })),
+      ).toEqual({ rule: "excludeKeywords", detail: 'matched "cancelled"' });
+    });
+
+    it("should match regular expressions against the title and text", () => {
+      const filter = new PostFilter({
+        includePatterns: ["^\\[(news|event)\\]"],
+        excludePatterns: ["\\bsold out\\b"],
+      });
+
+      expect(
+        filter.evaluate(createMockRedditPost({ title: "[Event] Dark Mofo" })),
+      ).toBeUndefined();
+      expect(
+        filter.evaluate(createMockRedditPost({ title: "Dark Mofo" })),
+      ).toEqual({ rule: "includePatterns", detail: "no matching pattern" });
+      expect(
+        filter.evaluate(
+          createMockRedditPost({
+            title: "[Event] Dark Mofo",
+            selftext: "Tickets are Sold Out",
+          }),
+        ),
+      ).toEqual({
+        rule: "excludePatterns",
+        detail: "matched /\\bsold out\\b/",
+      });
+    });
+
+    it("should throw when a pattern is not a valid regular expression", () => {
+      expect(() => new PostFilter({ excludePatterns: ["("] })).toThrow();
+    });
+  });
+
+  describe("authors", () => {
+    it("should filter by author ignoring case", () => {
+      const filter = new PostFilter({ excludeAuthors: ["AutoModerator"] });
+
+      expect(
+        filter.evaluate(createMockRedditPost({ author: "automoderator" })),
+      ).toEqual({ rule: "excludeAuthors", detail: 'matched "AutoModerator"' });
+      expect(
+        new PostFilter({ includeAuthors: ["mod"] }).evaluate(
+          createMockRedditPost(),
+        ),
+      ).toEqual({ rule: "includeAuthors", detail: "author u/testuser" });
+    });
+  });
+
+  describe("domains", () => {
+    const link = createMockRedditPost({
+      url: "https://www.news.abc.net.au/story",
+      is_self: false,
+    });
+
+    it("should match link domains and their subdomains", () => {
+      expect(
+        new PostFilter({ includeDomains: ["abc.net.au"] }).evaluate(link),
+      ).toBeUndefined();
+      expect(
+        new PostFilter({ excludeDomains: ["www.abc.net.au"] }).evaluate(link),
+      ).toEqual({ rule: "excludeDomains", detail: 'matched "www.abc.net.au"' });
+      expect(
+        new PostFilter({ includeDomains: ["bc.net.au"] }).evaluate(link),
+      ).toEqual({ rule: "includeDomains", detail: "domain news.abc.net.au" });
+    });
+
+    it("should not let text posts through an include rule", () => {
+      expect(
+        new PostFilter({ includeDomains: ["abc.net.au"] }).evaluate(
+          createMockRedditPost({ is_self: true }),
+        ),
+      ).toEqual({ rule: "includeDomains", detail: "text post" });
+    });
+  });
+
+  describe("thresholds", () => {
+    it("should reject posts below the minimum score or comments", () => {
+      const post = createMockRedditPost({ ups: 4, num_comments: 1 });
+
+      expect(new PostFilter({ minScore: 5 }).evaluate(post)).toEqual({
+        rule: "minScore",
+        detail: "score 4",
+      });
+      expect(new PostFilter({ minComments: 2 }).evaluate(post)).toEqual({
+        rule: "minComments",
+        detail: "1 comments",
+      });
+      expect(
+        new PostFilter({ minScore: 4, minComments: 1 }).evaluate(post),
+      ).toBeUndefined();
+    });
+
+    it("should reject posts older than the maximum age", () => {
+      const post = createMockRedditPost({
+        created_utc: (now - 3 * 60 * 60 * 1000) / 1000,
+      });
+
+      expect(new PostFilter({ maxAgeHours: 2 }).evaluate(post, now)).toEqual({
+        rule: "maxAgeHours",
+        detail: "3.0 hours old",
+      });
+      expect(
+        new PostFilter({ maxAgeHours: 4 }).evaluate(post, now),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("post type", () => {
+    it("should tell text posts from link posts", () => {
+      const selfPost = createMockRedditPost({ is_self: true });
+      const linkPost = createMockRedditPost({
+        url: "https://example.com",
+        is_self: false,
+      });
+
+      expect(
+        new PostFilter({ postType: "self" }).evaluate(selfPost),
+      ).toBeUndefined();
+      expect(new PostFilter({ postType: "self" }).evaluate(linkPost)).toEqual({
+        rule: "postType",
+        detail: "link post",
+      });
+    });
+
+    it("should treat posts linking to their own comments as text posts", () => {
+      const post = createMockRedditPost({
+        url: "https://www.reddit.com/r/test/comments/abc/title/",
+        permalink: "https://reddit.com/r/test/comments/abc/title/",
+      });
+
+      expect(new PostFilter({ postType: "link" }).evaluate(post)).toEqual({
+        rule: "postType",
+        detail: "self post",
+      });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for post mentions
+ * Tests which rules a post matches and how mentions are formatted and allowed
+ */
+
+import {
+  formatMentions,
+  getAllowedMentions,
+  getPostMentions,
+} from "../../src/utils/post-mentions";
+import type { MentionRule } from "../../src/types";
+import { createMockRedditPost } from "../setup";
+
+describe("post mentions", () => {
+  const rules: MentionRule[] = [
+    { flairs: ["Announcement"], roles: ["111"] },
+    { keywords: ["bushfire"], roles: ["222", "111"], users: ["333"] },
+  ];
+
+  describe("getPostMentions", () => {
+    it("should match flairs and keywords ignoring case", () => {
+      expect(
+        getPostMentions(
+          createMockRedditPost({ link_flair_text: "announcement " }),
+          rules,
+        ),
+      ).toEqual({ roles: ["111"], users: [] });
+      expect(
+        getPostMentions(
+          createMockRedditPost({ selftext: "Bushfire warning near Scamander" }),
+          rules,
+        ),
+      ).toEqual({ roles: ["222", "111"], users: ["333"] });
+    });
+
+    it("should mention each role once when several rules match", () => {
+      const post = createMockRedditPost({
+        link_flair_text: "Announcement",
+        title: "BUSHFIRE update",
+      });
+
+      expect(getPostMentions(post, rules)).toEqual({
+        roles: ["111", "222"],
+        users: ["333"],
+      });
+    });
+
+    it("should mention nobody for other posts", () => {
+      expect(getPostMentions(createMockRedditPost(), rules)).toEqual({
+        roles: [],
+        users: [],
+      });
+      expect(getPostMentions(createMockRedditPost())).toEqual({
+        roles: [],
+        users: [],
+      });
+    });
+  });
+
+  it("should format role and user mentions", () => {
+    expect(formatMentions({ roles: ["111", "222"], users: ["333"] })).toBe(
+      "<@&111> <@&222> <@333>",
+    );
+    expect(formatMentions({ roles: [], users: [] })).toBe("");
+  });
+
+  it("should allow only the given mentions", () => {
+    expect(getAllowedMentions()).toEqual({ parse: [] });
+    expect(getAllowedMentions({ roles: ["111"], users: [] })).toEqual({
+      parse: [],
+      roles: ["111"],
+    });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Unit tests for post removal detection
+ * Tests how removed and deleted Reddit posts are recognised and described
+ */
+
+import { getRemovalReason } from "../../src/utils/post-removal";
+import { createMockRedditPost } from "../setup";
+
+describe("getRemovalReason", () => {
+  it("should not report posts that are still up", () => {
+    expect(getRemovalReason(createMockRedditPost())).toBeUndefined();
+  });
+
+  it.each([
+    [
+      { removed_by_category: "moderator" },
+      "removed by the moderators of r/tasmania",
+    ],
+    [
+      { removed_by_category: "automod_filtered" },
+      "removed by the moderators of r/tasmania",
+    ],
+    [{ selftext: "[removed]" }, "removed by the moderators of r/tasmania"],
+    [{ removed_by_category: "anti_evil_ops" }, "removed by Reddit"],
+    [{ removed_by_category: "deleted" }, "deleted by its author"],
+    [{ author: "[deleted]", selftext: "[deleted]" }, "deleted by its author"],
+  ])("should describe %j as %s", (fields, reason) => {
+    const post = createMockRedditPost({ subreddit: "tasmania", ...fields });
+
+    expect(getRemovalReason(post)).toBe(reason);
+  });
+});
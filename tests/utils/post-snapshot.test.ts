@@ -0,0 +1,66 @@
+/**
+ * Unit tests for post snapshots
+ * Tests which Reddit post changes call for a Discord message edit
+ */
+
+import {
+  createPostSnapshot,
+  hasPostChanged,
+} from "../../src/utils/post-snapshot";
+import { createMockRedditPost } from "../setup";
+
+describe("post snapshots", () => {
+  const config = { changePercent: 20, minChange: 5 };
+  const snapshot = createPostSnapshot(
+    createMockRedditPost({
+      title: "Title",
+      link_flair_text: "News",
+      ups: 100,
+      num_comments: 10,
+    }),
+  );
+
+  it("should capture the fields shown in Discord", () => {
+    expect(snapshot).toEqual({
+      title: "Title",
+      flair: "News",
+      score: 100,
+      numComments: 10,
+    });
+  });
+
+  it("should not report an unchanged post", () => {
+    expect(hasPostChanged(snapshot, { ...snapshot }, config)).toBe(false);
+  });
+
+  it.each([
+    ["title", { title: "Edited" }],
+    ["flair", { flair: "Discussion" }],
+    ["removed flair", { flair: null }],
+  ])("should always report a %s change", (_name, change) => {
+    expect(hasPostChanged(snapshot, { ...snapshot, ...change }, config)).toBe(
+      true,
+    );
+  });
+
+  it("should require the score to move by the configured percentage", () => {
+    expect(hasPostChanged(snapshot, { ...snapshot, score: 119 }, config)).toBe(
+      false,
+    );
+    expect(hasPostChanged(snapshot, { ...snapshot, score: 120 }, config)).toBe(
+      true,
+    );
+    expect(hasPostChanged(snapshot, { ...snapshot, score: 80 }, config)).toBe(
+      true,
+    );
+  });
+
+  it("should require at least the minimum change for small counts", () => {
+    expect(
+      hasPostChanged(snapshot, { ...snapshot, numComments: 14 }, config),
+    ).toBe(false);
+    expect(
+      hasPostChanged(snapshot, { ...snapshot, numComments: 15 }, config),
+    ).toBe(true);
+  });
+});
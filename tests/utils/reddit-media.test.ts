@@ -0,0 +1,132 @@
+/**
+ * Unit tests for Reddit media extraction
+ * Tests reading gallery images and videos from raw submission data
+ */
+
+import { getGalleryItems, getVideo } from "../../src/utils/reddit-media";
+
+describe("getGalleryItems", () => {
+  const image = (url: string) => ({
+    status: "valid",
+    e: "Image",
+    s: { u: url },
+  });
+
+  it("should return the images in gallery order with their captions", () => {
+    const items = getGalleryItems({
+      is_gallery: true,
+      media_metadata: {
+        first: image("https://preview.redd.it/first.jpg?width=1080&amp;s=abc"),
+        second: image("https://preview.redd.it/second.jpg"),
+      },
+      gallery_data: {
+        items: [
+          { media_id: "second", caption: "Mount Wellington" },
+          { media_id: "first" },
+        ],
+      },
+    });
+
+    expect(items).toEqual([
+      {
+        url: "https://preview.redd.it/second.jpg",
+        caption: "Mount Wellington",
+      },
+      { url: "https://preview.redd.it/first.jpg?width=1080&s=abc" },
+    ]);
+  });
+
+  it("should use the GIF of animated images", () => {
+    const items = getGalleryItems({
+      is_gallery: true,
+      media_metadata: {
+        gif: {
+          status: "valid",
+          e: "AnimatedImage",
+          s: {
+            gif: "https://i.redd.it/gif.gif",
+            mp4: "https://i.redd.it/gif.mp4",
+          },
+        },
+      },
+      gallery_data: { items: [{ media_id: "gif" }] },
+    });
+
+    expect(items).toEqual([{ url: "https://i.redd.it/gif.gif" }]);
+  });
+
+  it("should skip images that are missing or failed to process", () => {
+    const items = getGalleryItems({
+      is_gallery: true,
+      media_metadata: {
+        failed: { status: "failed" },
+        ok: image("https://i.redd.it/ok.jpg"),
+      },
+      gallery_data: {
+        items: [
+          { media_id: "failed" },
+          { media_id: "deleted" },
+          { media_id: "ok" },
+        ],
+      },
+    });
+
+    expect(items).toEqual([{ url: "https://i.redd.it/ok.jpg" }]);
+  });
+
+  it("should return undefined for posts that aren't galleries", () => {
+    expect(getGalleryItems({})).toBeUndefined();
+    expect(
+      getGalleryItems({ is_gallery: true, gallery_data: null }),
+    ).toBeUndefined();
+  });
+});
+
+describe("getVideo", () => {
+  const redditVideo = {
+    fallback_url: "https://v.redd.it/abc/DASH_720.mp4?source=fallback",
+    duration: 42,
+    is_gif: false,
+  };
+
+  it("should return the playable URL, duration and preview frame", () => {
+    const video = getVideo({
+      is_video: true,
+      secure_media: { reddit_video: redditVideo },
+      preview: {
+        images: [
+          { source: { url: "https://preview.redd.it/abc.jpg?a=1&amp;b=2" } },
+        ],
+      },
+    });
+
+    expect(video).toEqual({
+      url: "https://v.redd.it/abc/DASH_720.mp4?source=fallback",
+      duration: 42,
+      isGif: false,
+      previewUrl: "https://preview.redd.it/abc.jpg?a=1&b=2",
+    });
+  });
+
+  it("should fall back to the media and preview videos", () => {
+    expect(getVideo({ media: { reddit_video: redditVideo } })?.url).toBe(
+      redditVideo.fallback_url,
+    );
+    expect(
+      getVideo({
+        preview: {
+          reddit_video_preview: { ...redditVideo, is_gif: true },
+        },
+      })?.isGif,
+    ).toBe(true);
+  });
+
+  it("should return undefined for posts without a Reddit video", () => {
+    expect(getVideo({ secure_media: null })).toBeUndefined();
+    expect(
+      getVideo({
+        preview: { images: [{ source: { url: "https://x/a.jpg" } }] },
+      }),
+    ).toBeUndefined();
+  });
+});
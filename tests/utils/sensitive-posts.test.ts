@@ -0,0 +1,65 @@
+/**
+ * Unit tests for NSFW and spoiler handling
+ * Tests which policy applies to a post and how it is labelled
+ */
+
+import {
+  getSensitiveLabel,
+  getSensitivePostPolicy,
+} from "../../src/utils/sensitive-posts";
+import { createMockRedditPost } from "../setup";
+
+describe("sensitive posts", () => {
+  describe("getSensitivePostPolicy", () => {
+    const config = { nsfwPolicy: "skip", spoilerPolicy: "spoiler" } as const;
+
+    it("should allow posts that are neither NSFW nor spoilers", () => {
+      expect(getSensitivePostPolicy(createMockRedditPost(), config)).toBe(
+        "allow",
+      );
+    });
+
+    it("should use the policy for the post's flag", () => {
+      expect(
+        getSensitivePostPolicy(createMockRedditPost({ over_18: true }), config),
+      ).toBe("skip");
+      expect(
+        getSensitivePostPolicy(createMockRedditPost({ spoiler: true }), config),
+      ).toBe("spoiler");
+    });
+
+    it("should use the stricter policy for posts with both flags", () => {
+      const post = createMockRedditPost({ over_18: true, spoiler: true });
+
+      expect(
+        getSensitivePostPolicy(post, {
+          nsfwPolicy: "allow",
+          spoilerPolicy: "spoiler",
+        }),
+      ).toBe("spoiler");
+    });
+
+    it("should hide posts behind spoilers by default", () => {
+      expect(
+        getSensitivePostPolicy(createMockRedditPost({ over_18: true }), {}),
+      ).toBe("spoiler");
+    });
+  });
+
+  describe("getSensitiveLabel", () => {
+    it("should describe the post's flags", () => {
+      expect(getSensitiveLabel(createMockRedditPost({ over_18: true }))).toBe(
+        "NSFW",
+      );
+      expect(getSensitiveLabel(createMockRedditPost({ spoiler: true }))).toBe(
+        "Spoiler",
+      );
+      expect(
+        getSensitiveLabel(
+          createMockRedditPost({ over_18: true, spoiler: true }),
+        ),
+      ).toBe("NSFW, spoiler");
+      expect(getSensitiveLabel(createMockRedditPost())).toBeUndefined();
+    });
+  });
+});
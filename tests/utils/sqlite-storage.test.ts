@@ -0,0 +1,333 @@
+/**
+ * Unit tests for SqlitePostStore
+ * Tests SQLite storage operations, sent post details, and JSON import
+ */
+
+import { jest } from "@jest/globals";
+import Database from "better-sqlite3";
+import { promises as fs } from "fs";
+import { SqlitePostStore } from "../../src/utils/sqlite-storage";
+import {
+  RedditStorage,
+  createPostStore,
+  importJsonStorage,
+} from "../../src/utils/storage";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("SqlitePostStore", () => {
+  const testFilePath = "/tmp/test-storage.db";
+  const jsonFilePath = "/tmp/test-storage-import.json";
+  let store: SqlitePostStore;
+
+  const removeFiles = async (): Promise<void> => {
+    for (const suffix of ["", "-wal", "-shm"]) {
+      await fs.rm(`${testFilePath}${suffix}`, { force: true });
+    }
+    await fs.rm(jsonFilePath, { force: true });
+    await fs.rm(`${jsonFilePath}.v1.bak`, { force: true });
+    await fs.rm(`${jsonFilePath}.bak`, { force: true });
+    await fs.rm(`${jsonFilePath}.lock`, { force: true });
+  };
+
+  beforeEach(async () => {
+    await removeFiles();
+    store = new SqlitePostStore(testFilePath);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await removeFiles();
+  });
+
+  describe("load", () => {
+    it("should create the database with empty statistics", async () => {
+      const result = await store.load();
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data).toEqual({
+          totalProcessed: 0,
+          createdAt: expect.any(Number),
+          lastUpdated: expect.any(Number),
+        });
+      }
+      await expect(fs.access(testFilePath)).resolves.toBeUndefined();
+    });
+
+    it("should add newer columns to databases created by earlier versions", async () => {
+      const db = new Database(testFilePath);
+      db.exec(`
+        CREATE TABLE posts (
+          post_id TEXT PRIMARY KEY,
+          subreddit TEXT,
+          sent_at INTEGER NOT NULL,
+          message_id TEXT,
+          destination TEXT
+        );
+        INSERT INTO posts (post_id, sent_at) VALUES ('old', 1000);
+      `);
+      db.close();
+
+      await store.addPostId("new", { messageId: "1", threadId: "2" });
+
+      expect(await store.getPostedIds()).toEqual(["old", "new"]);
+      expect((await store.getPostRecord("new"))?.threadId).toBe("2");
+    });
+
+    it("should fail when the path is not a database", async () => {
+      await fs.writeFile(testFilePath, "not a database");
+
+      const result = await store.load();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_LOAD_ERROR");
+      }
+    });
+  });
+
+  describe("addPostId and hasPostId", () => {
+    it("should record sent posts with their details", async () => {
+      await store.addPostId("abc123", {
+        subreddit: "tasmania",
+        messageId: "111",
+        destination: "default",
+      });
+
+      expect(await store.hasPostId("abc123")).toBe(true);
+      expect(await store.hasPostId("missing")).toBe(false);
+      expect(await store.getPostRecord("abc123")).toEqual({
+        postId: "abc123",
+        subreddit: "tasmania",
+        sentAt: expect.any(Number),
+        messageId: "111",
+        destination: "default",
+      });
+    });
+
+    it("should keep the first record when a post is added twice", async () => {
+      await store.addPostId("abc123", { destination: "first" });
+      await store.addPostId("abc123", { destination: "second" });
+
+      expect(await store.getPostedIds()).toEqual(["abc123"]);
+      expect((await store.getPostRecord("abc123"))?.destination).toBe("first");
+    });
+  });
+
+  describe("addPostRecords", () => {
+    it("should add records in one go and count them", async () => {
+      const result = await store.addPostRecords([
+        { postId: "a", subreddit: "tasmania", sentAt: 1000 },
+        { postId: "b", subreddit: "hobart", sentAt: 2000 },
+      ]);
+
+      expect(result).toBeSuccessResult();
+      expect(await store.getPostedIds()).toEqual(["a", "b"]);
+      expect((await store.getStats())?.totalProcessed).toBe(2);
+    });
+  });
+
+  describe("message details", () => {
+    const snapshot = {
+      title: "Title",
+      flair: null,
+      score: 10,
+      numComments: 2,
+    };
+
+    it("should return recent posts that have a Discord message", async () => {
+      await store.addPostRecords([
+        { postId: "old", sentAt: 1000, messageId: "1" },
+        { postId: "no-message", sentAt: 3000 },
+        { postId: "recent", sentAt: 4000, messageId: "2", snapshot },
+      ]);
+
+      expect(await store.getRecentPostRecords(2000)).toEqual([
+        expect.objectContaining({ postId: "recent", messageId: "2", snapshot }),
+      ]);
+    });
+
+    it("should update the details of a stored post", async () => {
+      await store.addPostId("abc123", { messageId: "1", snapshot });
+
+      const result = await store.updatePostRecord("abc123", {
+        snapshot: { ...snapshot, title: "Edited" },
+      });
+
+      expect(result).toBeSuccessResult();
+      const record = await store.getPostRecord("abc123");
+      expect(record?.snapshot?.title).toBe("Edited");
+      expect(record?.messageId).toBe("1");
+
+      await store.updatePostRecord("abc123", {
+        messageId: undefined,
+        removedAt: 5000,
+      });
+      const removed = await store.getPostRecord("abc123");
+      expect(removed?.messageId).toBeUndefined();
+      expect(removed?.removedAt).toBe(5000);
+    });
+
+    it("should store the comments posted into a post's thread", async () => {
+      await store.addPostId("abc123", { messageId: "1", threadId: "7" });
+
+      await store.updatePostRecord("abc123", {
+        commentIds: ["c1", "c2"],
+        commentsCheckedAt: 6000,
+      });
+
+      const record = await store.getPostRecord("abc123");
+      expect(record?.commentIds).toEqual(["c1", "c2"]);
+      expect(record?.commentsCheckedAt).toBe(6000);
+    });
+  });
+
+  describe("findPostRecordsByContent", () => {
+    it("should find recent posts with the same original post or link", async () => {
+      await store.addPostRecords([
+        { postId: "old", sentAt: 1000, sourceId: "abc" },
+        { postId: "crosspost", sentAt: 3000, sourceId: "abc" },
+        { postId: "link", sentAt: 4000, sourceId: "def", url: "abc.net.au/a" },
+        { postId: "other", sentAt: 5000, sourceId: "ghi" },
+      ]);
+
+      const records = await store.findPostRecordsByContent(2000, {
+        sourceId: "abc",
+        url: "abc.net.au/a",
+      });
+
+      expect(records.map((record) => record.postId)).toEqual([
+        "crosspost",
+        "link",
+      ]);
+      expect(
+        await store.findPostRecordsByContent(0, { sourceId: "missing" }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should keep posts and last check across reopening", async () => {
+      await store.addPostIds(["a", "b"]);
+      await store.updateLastCheck();
+      const lastCheck = await store.getLastCheck();
+      await store.close();
+
+      const reopened = new SqlitePostStore(testFilePath);
+      expect(await reopened.getPostedIds()).toEqual(["a", "b"]);
+      expect(await reopened.getLastCheck()).toBe(lastCheck);
+      await reopened.close();
+    });
+
+    it("should keep each feed's listing cursor across reopening", async () => {
+      const cursor = { fullname: "t3_abc", createdUtc: 1000 };
+      await store.updateCursor("default", cursor);
+      await store.close();
+
+      const reopened = new SqlitePostStore(testFilePath);
+      expect(await reopened.getCursor("default")).toEqual(cursor);
+      expect(await reopened.getCursor("weekly")).toBeUndefined();
+      await reopened.close();
+    });
+
+    it("should clear all posts", async () => {
+      await store.addPostIds(["a", "b"]);
+
+      await store.clear();
+
+      expect(await store.getPostedIds()).toEqual([]);
+      expect((await store.getStats())?.totalProcessed).toBe(0);
+    });
+  });
+
+  describe("retention", () => {
+    it("should delete posts outside the retention policy", async () => {
+      const dayMs = 24 * 60 * 60 * 1000;
+      const retained = new SqlitePostStore(testFilePath, {
+        maxAgeDays: 30,
+        maxEntries: 2,
+      });
+
+      await retained.addPostRecords([
+        { postId: "old", sentAt: Date.now() - 31 * dayMs },
+        { postId: "a", sentAt: Date.now() - 3000 },
+        { postId: "b", sentAt: Date.now() - 2000 },
+        { postId: "c", sentAt: Date.now() - 1000 },
+      ]);
+
+      expect(await retained.getPostedIds()).toEqual(["b", "c"]);
+      expect((await retained.getStats())?.totalProcessed).toBe(4);
+      await retained.close();
+    });
+
+    it("should keep the total processed across reopening", async () => {
+      const retained = new SqlitePostStore(testFilePath, { maxEntries: 2 });
+      await retained.addPostIds(["a", "b", "c"]);
+      await retained.addPostId("c");
+      await retained.close();
+
+      const reopened = new SqlitePostStore(testFilePath, { maxEntries: 2 });
+      expect((await reopened.getStats())?.totalProcessed).toBe(3);
+      await reopened.close();
+    });
+  });
+
+  describe("createPostStore", () => {
+    it("should pick the implementation for the backend", async () => {
+      const sqliteStore = createPostStore("sqlite", testFilePath);
+      expect(sqliteStore).toBeInstanceOf(SqlitePostStore);
+      expect(createPostStore("json", jsonFilePath)).toBeInstanceOf(
+        RedditStorage,
+      );
+      await sqliteStore.close();
+    });
+  });
+
+  describe("importJsonStorage", () => {
+    it("should import posted IDs from a JSON storage file", async () => {
+      await fs.writeFile(
+        jsonFilePath,
+        JSON.stringify({ postedIds: ["a", "b", "c"], version: 1 }),
+      );
+      await store.addPostId("b");
+
+      const result = await importJsonStorage(jsonFilePath, store);
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data).toEqual({ total: 3, imported: 2 });
+      }
+      expect((await store.getPostedIds()).sort()).toEqual(["a", "b", "c"]);
+    });
+
+    it("should carry over the total processed of the JSON storage", async () => {
+      const source = new RedditStorage(jsonFilePath, { maxEntries: 2 });
+      await source.addPostIds(["a", "b", "c", "d", "e"]);
+      await source.close();
+
+      const result = await importJsonStorage(jsonFilePath, store);
+
+      expect(result).toBeSuccessResult();
+      expect(await store.getPostedIds()).toHaveLength(2);
+      expect((await store.getStats())?.totalProcessed).toBe(5);
+    });
+
+    it("should fail when the JSON file does not exist", async () => {
+      const result = await importJsonStorage(jsonFilePath, store);
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_IMPORT_ERROR");
+      }
+    });
+  });
+});
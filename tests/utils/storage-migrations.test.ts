@@ -0,0 +1,230 @@
+/**
+ * Unit tests for storage migrations
+ * Tests each registered migration against fixture files and the migration runner
+ */
+
+import { jest } from "@jest/globals";
+import { promises as fs, readFileSync } from "fs";
+import path from "path";
+import type { StorageData, StorageMigration } from "../../src/types";
+import {
+  STORAGE_MIGRATIONS,
+  STORAGE_VERSION,
+  migrateStorageV1ToV2,
+  runStorageMigrations,
+} from "../../src/utils/storage-migrations";
+import { RedditStorage } from "../../src/utils/storage";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const FIXTURES_DIR = path.join(__dirname, "../fixtures/storage-files");
+
+/**
+ * Read a storage fixture file
+ */
+const loadFixture = (name: string): Record<string, unknown> =>
+  JSON.parse(readFileSync(path.join(FIXTURES_DIR, name), "utf-8"));
+
+describe("storage migrations", () => {
+  describe("registry", () => {
+    it("should have a migration for every version below the current one", () => {
+      for (let version = 1; version < STORAGE_VERSION; version++) {
+        expect(STORAGE_MIGRATIONS[version]).toEqual(
+          expect.objectContaining({
+            fromVersion: version,
+            toVersion: version + 1,
+          }),
+        );
+      }
+    });
+
+    it.each(Object.values(STORAGE_MIGRATIONS))(
+      "should upgrade the v$fromVersion fixture to v$toVersion",
+      ({ fromVersion, toVersion, migrate }) => {
+        const fixture = loadFixture(`v${fromVersion}.json`);
+
+        const migrated = migrate(fixture);
+
+        expect(migrated.version).toBe(toVersion);
+        expect(Object.keys(migrated).sort()).toEqual(
+          Object.keys(loadFixture(`v${toVersion}.json`)).sort(),
+        );
+      },
+    );
+  });
+
+  describe("migrateStorageV1ToV2", () => {
+    it("should turn post IDs into timestamped posts", () => {
+      const migrated = migrateStorageV1ToV2(
+        loadFixture("v1.json") as never,
+        1710000000000,
+      );
+
+      expect(migrated).toEqual({
+        posts: [
+          { postId: "1a2b3c", sentAt: 1710000000000 },
+          { postId: "4d5e6f", sentAt: 1710000000000 },
+          { postId: "7g8h9i", sentAt: 1710000000000 },
+        ],
+        version: 2,
+        lastCheck: 1704067200000,
+        metadata: {
+          totalProcessed: 3,
+          createdAt: 1701388800000,
+          lastUpdated: 1704067200000,
+        },
+      });
+    });
+
+    it("should handle files without metadata", () => {
+      const migrated = migrateStorageV1ToV2(
+        loadFixture("v1-minimal.json") as never,
+      );
+
+      expect(migrated).toEqual({ posts: [], version: 2 });
+    });
+  });
+
+  describe("runStorageMigrations", () => {
+    const testRegistry: Record<number, StorageMigration> = {
+      1: {
+        fromVersion: 1,
+        toVersion: 2,
+        description: "Add posts",
+        migrate: (data) => ({ ...data, posts: [], version: 2 }),
+      },
+      2: {
+        fromVersion: 2,
+        toVersion: 3,
+        description: "Add flag",
+        migrate: (data) => ({ ...data, flag: true, version: 3 }),
+      },
+    };
+
+    it("should apply migrations in order and report them", () => {
+      const result = runStorageMigrations({ version: 1 }, 3, testRegistry);
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data.data).toEqual({ posts: [], flag: true, version: 3 });
+        expect(result.data.applied).toEqual([
+          { fromVersion: 1, toVersion: 2, description: "Add posts" },
+          { fromVersion: 2, toVersion: 3, description: "Add flag" },
+        ]);
+      }
+    });
+
+    it("should do nothing for data at the target version", () => {
+      const fixture = loadFixture("v2.json");
+
+      const result = runStorageMigrations(fixture);
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data.data).toBe(fixture);
+        expect(result.data.applied).toEqual([]);
+      }
+    });
+
+    it("should fail when a migration is missing", () => {
+      const result = runStorageMigrations({ version: 1 }, 4, testRegistry);
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_MIGRATION_MISSING");
+        expect(result.error.message).toContain("version 3");
+      }
+    });
+
+    it("should fail when a migration throws", () => {
+      const result = runStorageMigrations({ version: 1 }, 2, {
+        1: {
+          ...testRegistry[1],
+          migrate: () => {
+            throw new Error("boom");
+          },
+        },
+      });
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_MIGRATION_ERROR");
+        expect(result.error.originalError?.message).toBe("boom");
+      }
+    });
+
+    it("should fail when a migration does not reach its declared version", () => {
+      const result = runStorageMigrations({ version: 1 }, 2, {
+        1: { ...testRegistry[1], migrate: (data) => data },
+      });
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_MIGRATION_ERROR");
+      }
+    });
+  });
+
+  describe("RedditStorage.load", () => {
+    const testFilePath = "/tmp/test-migration-storage.json";
+    const backupPath = `${testFilePath}.v1.bak`;
+
+    afterEach(async () => {
+      await fs.rm(testFilePath, { force: true });
+      await fs.rm(backupPath, { force: true });
+      await fs.rm(`${testFilePath}.bak`, { force: true });
+      await fs.rm(`${testFilePath}.lock`, { force: true });
+    });
+
+    it("should back up the original file and report the migrations", async () => {
+      const original = await fs.readFile(
+        path.join(FIXTURES_DIR, "v1.json"),
+        "utf-8",
+      );
+      await fs.writeFile(testFilePath, original);
+
+      const storage = new RedditStorage(testFilePath);
+      const result = await storage.load();
+
+      expect(result).toBeSuccessResult();
+      expect(await fs.readFile(backupPath, "utf-8")).toBe(original);
+      expect(storage.getAppliedMigrations()).toEqual([
+        {
+          fromVersion: 1,
+          toVersion: 2,
+          description: STORAGE_MIGRATIONS[1].description,
+        },
+      ]);
+
+      const saved = JSON.parse(
+        await fs.readFile(testFilePath, "utf-8"),
+      ) as StorageData;
+      expect(saved.version).toBe(STORAGE_VERSION);
+      expect(await storage.getPostedIds()).toEqual([
+        "1a2b3c",
+        "4d5e6f",
+        "7g8h9i",
+      ]);
+    });
+
+    it("should not migrate or back up current files", async () => {
+      await fs.copyFile(path.join(FIXTURES_DIR, "v2.json"), testFilePath);
+
+      const storage = new RedditStorage(testFilePath);
+      const result = await storage.load();
+
+      expect(result).toBeSuccessResult();
+      expect(storage.getAppliedMigrations()).toEqual([]);
+      await expect(fs.access(backupPath)).rejects.toThrow();
+      expect(await storage.hasPostId("hobart:4d5e6f")).toBe(true);
+    });
+  });
+});
@@ -5,6 +5,7 @@
 
 import { jest } from "@jest/globals";
 import { promises as fs } from "fs";
+import os from "os";
 import path from "path";
 import {
   RedditStorage,
@@ -25,6 +26,15 @@ jest.mock("../../src/utils/logger", () => ({
   },
 }));
 
+/**
+ * Remove a storage file along with its backups and lock file
+ */
+const removeStorageFiles = async (filePath: string): Promise<void> => {
+  for (const suffix of ["", ".v1.bak", ".bak", ".lock", ".corrupt"]) {
+    await fs.rm(`${filePath}${suffix}`, { force: true });
+  }
+};
+
 describe("RedditStorage", () => {
   const testFilePath = "/tmp/test-storage.json";
   let storage: RedditStorage;
@@ -35,11 +45,7 @@ describe("RedditStorage", () => {
 
   afterEach(async () => {
     // Clean up test files
-    try {
-      await fs.unlink(testFilePath);
-    } catch {
-      // Ignore cleanup errors
-    }
+    await removeStorageFiles(testFilePath);
   });
 
   describe("constructor", () => {
@@ -60,8 +66,8 @@ describe("RedditStorage", () => {
       expect(result).toBeSuccessResult();
       if (result.success) {
         expect(result.data).toEqual({
-          postedIds: [],
-          version: 1,
+          posts: [],
+          version: 2,
           metadata: expect.objectContaining({
             totalProcessed: 0,
             createdAt: expect.any(Number),
@@ -81,8 +87,12 @@ describe("RedditStorage", () => {
     it("should load existing valid storage file", async () => {
       // Create test file with valid data
       const testData = {
-        postedIds: ["post1", "post2", "post3"],
-        version: 1,
+        posts: [
+          { postId: "post1", sentAt: Date.now() - 3000 },
+          { postId: "post2", sentAt: Date.now() - 2000 },
+          { postId: "post3", sentAt: Date.now() - 1000 },
+        ],
+        version: 2,
         lastCheck: 1640995200000,
         metadata: {
           totalProcessed: 3,
@@ -102,6 +112,72 @@ describe("RedditStorage", () => {
       }
     });
 
+    it("should migrate version 1 files to timestamped posts", async () => {
+      const v1Data = {
+        postedIds: ["post1", "post2"],
+        version: 1,
+        lastCheck: 1640995200000,
+        metadata: {
+          totalProcessed: 2,
+          createdAt: 1640995000000,
+          lastUpdated: 1640995200000,
+        },
+      };
+
+      await fs.mkdir(path.dirname(testFilePath), { recursive: true });
+      await fs.writeFile(testFilePath, JSON.stringify(v1Data, null, 2));
+
+      const beforeLoad = Date.now();
+      const result = await storage.load();
+
+      expect(result).toBeSuccessResult();
+      if (result.success) {
+        expect(result.data.version).toBe(2);
+        expect(result.data.lastCheck).toBe(1640995200000);
+        expect(result.data.posts.map((post) => post.postId)).toEqual([
+          "post1",
+          "post2",
+        ]);
+        expect(result.data.posts[0].sentAt).toBeGreaterThanOrEqual(beforeLoad);
+      }
+
+      // The upgraded format is written back to disk
+      const savedData = JSON.parse(await fs.readFile(testFilePath, "utf-8"));
+      expect(savedData.version).toBe(2);
+      expect(savedData.postedIds).toBeUndefined();
+      expect(await storage.hasPostId("post2")).toBe(true);
+    });
+
+    it("should reject files from a newer storage version", async () => {
+      await fs.mkdir(path.dirname(testFilePath), { recursive: true });
+      await fs.writeFile(
+        testFilePath,
+        JSON.stringify({ posts: [], version: 99 }),
+      );
+
+      const result = await storage.load();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.message).toContain("newer than supported");
+      }
+    });
+
+    it("should validate version 2 posts", async () => {
+      await fs.mkdir(path.dirname(testFilePath), { recursive: true });
+      await fs.writeFile(
+        testFilePath,
+        JSON.stringify({ posts: [{ postId: "post1" }], version: 2 }),
+      );
+
+      const result = await storage.load();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.message).toContain("invalid posts");
+      }
+    });
+
     it("should handle corrupted JSON files", async () => {
       // Create file with invalid JSON
       await fs.mkdir(path.dirname(testFilePath), { recursive: true });
@@ -181,7 +257,9 @@ describe("RedditStorage", () => {
       // Verify file contents
       const fileContent = await fs.readFile(testFilePath, "utf-8");
       const savedData = JSON.parse(fileContent);
-      expect(savedData.postedIds).toContain("test123");
+      expect(savedData.posts).toEqual([
+        { postId: "test123", sentAt: expect.any(Number) },
+      ]);
     });
 
     it("should update lastUpdated timestamp on save", async () => {
@@ -282,6 +360,7 @@ describe("RedditStorage", () => {
 
     it("should persist data after adding", async () => {
       await storage.addPostId("persistent-post");
+      await storage.close();
 
       // Create new storage instance to test persistence
       const newStorage = new RedditStorage(testFilePath);
@@ -438,6 +517,7 @@ describe("RedditStorage", () => {
 
     it("should persist cleared state", async () => {
       await storage.clear();
+      await storage.close();
 
       // Create new storage instance
       const newStorage = new RedditStorage(testFilePath);
@@ -472,6 +552,7 @@ describe("RedditStorage", () => {
     it("should persist last check timestamp", async () => {
       await storage.updateLastCheck();
       const originalLastCheck = await storage.getLastCheck();
+      await storage.close();
 
       // Create new storage instance
       const newStorage = new RedditStorage(testFilePath);
@@ -482,6 +563,18 @@ describe("RedditStorage", () => {
     });
   });
 
+  describe("listing cursors", () => {
+    it("should keep a cursor per feed", async () => {
+      const cursor = { fullname: "t3_abc", createdUtc: 1000 };
+      expect(await storage.updateCursor("default", cursor)).toBeSuccessResult();
+      await storage.close();
+
+      const newStorage = new RedditStorage(testFilePath);
+      expect(await newStorage.getCursor("default")).toEqual(cursor);
+      expect(await newStorage.getCursor("weekly")).toBeUndefined();
+    });
+  });
+
   describe("automatic loading", () => {
     it("should automatically load data on first operation", async () => {
       // Don't manually call load()
@@ -497,6 +590,113 @@ describe("RedditStorage", () => {
     });
   });
 
+  describe("message details", () => {
+    it("should return recent posts that have a Discord message", async () => {
+      await storage.addPostRecords([
+        { postId: "old", sentAt: 1000, messageId: "1" },
+        { postId: "no-message", sentAt: 3000 },
+        { postId: "recent", sentAt: 4000, messageId: "2" },
+      ]);
+
+      expect(await storage.getRecentPostRecords(2000)).toEqual([
+        { postId: "recent", sentAt: 4000, messageId: "2" },
+      ]);
+    });
+
+    it("should update the details of a stored post and save them", async () => {
+      await storage.addPostId("abc123", { messageId: "1" });
+
+      const result = await storage.updatePostRecord("abc123", {
+        threadId: "2",
+      });
+
+      expect(result).toBeSuccessResult();
+      await storage.close();
+      const reloaded = new RedditStorage(testFilePath);
+      expect(await reloaded.getRecentPostRecords(0)).toEqual([
+        expect.objectContaining({
+          postId: "abc123",
+          messageId: "1",
+          threadId: "2",
+        }),
+      ]);
+    });
+
+    it("should find recent posts with the same original post or link", async () => {
+      await storage.addPostRecords([
+        { postId: "old", sentAt: 1000, sourceId: "abc" },
+        { postId: "crosspost", sentAt: 3000, sourceId: "abc" },
+        { postId: "link", sentAt: 4000, sourceId: "def", url: "abc.net.au/a" },
+        { postId: "other", sentAt: 5000, sourceId: "ghi" },
+      ]);
+
+      const records = await storage.findPostRecordsByContent(2000, {
+        sourceId: "abc",
+        url: "abc.net.au/a",
+      });
+
+      expect(records.map((record) => record.postId)).toEqual([
+        "crosspost",
+        "link",
+      ]);
+    });
+
+    it("should ignore updates for unknown posts", async () => {
+      const result = await storage.updatePostRecord("missing", {
+        messageId: "1",
+      });
+
+      expect(result).toBeSuccessResult();
+      expect(await storage.getPostedIds()).toEqual([]);
+    });
+  });
+
+  describe("retention", () => {
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    it("should forget posts older than the maximum age when saving", async () => {
+      const retained = new RedditStorage(testFilePath, { maxAgeDays: 30 });
+      await retained.load();
+
+      await retained.addPostId("old", { sentAt: Date.now() - 31 * dayMs });
+      await retained.addPostId("recent", { sentAt: Date.now() - 29 * dayMs });
+
+      expect(await retained.hasPostId("old")).toBe(false);
+      expect(await retained.hasPostId("recent")).toBe(true);
+
+      const savedData = JSON.parse(await fs.readFile(testFilePath, "utf-8"));
+      expect(
+        savedData.posts.map((post: { postId: string }) => post.postId),
+      ).toEqual(["recent"]);
+    });
+
+    it("should keep only the most recent posts beyond the maximum count", async () => {
+      const retained = new RedditStorage(testFilePath, { maxEntries: 3 });
+      await retained.load();
+
+      await retained.addPostIds(["post-1", "post-2", "post-3"]);
+      await retained.addPostIds(["post-4", "post-5"]);
+
+      expect(await retained.getPostedIds()).toEqual([
+        "post-3",
+        "post-4",
+        "post-5",
+      ]);
+      expect(await retained.hasPostId("post-1")).toBe(false);
+
+      // Total processed still counts every post ever sent
+      expect((await retained.getStats())?.totalProcessed).toBe(5);
+    });
+
+    it("should keep everything without a retention policy", async () => {
+      await storage.load();
+
+      await storage.addPostId("ancient", { sentAt: 0 });
+
+      expect(await storage.hasPostId("ancient")).toBe(true);
+    });
+  });
+
   describe("concurrent access", () => {
     beforeEach(async () => {
       await storage.load();
@@ -524,6 +724,177 @@ describe("RedditStorage", () => {
     });
   });
 
+  describe("crash safety", () => {
+    it("should replace the file without leaving temporary files", async () => {
+      await storage.load();
+      await storage.addPostIds(["post1", "post2"]);
+
+      const leftovers = (await fs.readdir(path.dirname(testFilePath))).filter(
+        (name) =>
+          name.startsWith(path.basename(testFilePath)) && name.endsWith(".tmp"),
+      );
+      expect(leftovers).toEqual([]);
+    });
+
+    it("should keep the previous version as a backup", async () => {
+      await storage.load();
+      await storage.addPostId("post1");
+      const previous = await fs.readFile(testFilePath, "utf-8");
+
+      await storage.addPostId("post2");
+
+      expect(await fs.readFile(`${testFilePath}.bak`, "utf-8")).toBe(previous);
+    });
+
+    it("should restore the backup when the file is truncated", async () => {
+      await storage.load();
+      await storage.addPostId("post1");
+      await storage.addPostId("post2");
+      const content = await fs.readFile(testFilePath, "utf-8");
+      await fs.writeFile(testFilePath, content.slice(0, content.length / 2));
+      await storage.close();
+
+      const restored = new RedditStorage(testFilePath);
+      const result = await restored.load();
+
+      expect(result).toBeSuccessResult();
+      expect(await restored.getPostedIds()).toEqual(["post1"]);
+      expect(await fs.readFile(`${testFilePath}.corrupt`, "utf-8")).toBe(
+        content.slice(0, content.length / 2),
+      );
+
+      // The restored file is valid again and the backup was not overwritten
+      await restored.close();
+      const reloaded = new RedditStorage(testFilePath);
+      expect(await reloaded.load()).toBeSuccessResult();
+      expect(await reloaded.getPostedIds()).toEqual(["post1"]);
+    });
+
+    it("should report the original error when there is no usable backup", async () => {
+      await fs.writeFile(testFilePath, '{"posts": [');
+
+      const result = await storage.load();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_LOAD_ERROR");
+        expect(result.error.context?.filePath).toBe(testFilePath);
+      }
+    });
+  });
+
+  describe("locking", () => {
+    const lockPath = `${testFilePath}.lock`;
+
+    const writeLock = (pid: number, hostname = os.hostname()): Promise<void> =>
+      fs.writeFile(
+        lockPath,
+        JSON.stringify({ pid, hostname, acquiredAt: Date.now() }),
+      );
+
+    it("should create a lock file holding the process ID", async () => {
+      await storage.load();
+
+      const lock = JSON.parse(await fs.readFile(lockPath, "utf-8"));
+      expect(lock.pid).toBe(process.pid);
+      expect(lock.hostname).toBe(os.hostname());
+    });
+
+    it("should refuse to load while another running process holds the lock", async () => {
+      await writeLock(process.ppid);
+
+      const result = await storage.load();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_LOCKED");
+        expect(result.error.context?.pid).toBe(process.ppid);
+      }
+    });
+
+    it("should take over a lock left by a process that has exited", async () => {
+      await writeLock(2 ** 22 + 1); // Above Linux's maximum PID
+
+      const result = await storage.load();
+
+      expect(result).toBeSuccessResult();
+      const lock = JSON.parse(await fs.readFile(lockPath, "utf-8"));
+      expect(lock.pid).toBe(process.pid);
+    });
+
+    it("should respect a recent lock from another host", async () => {
+      await writeLock(1, "another-host");
+
+      const result = await storage.load();
+
+      expect(result).toBeErrorResult();
+    });
+
+    it("should take over a lock another host stopped refreshing", async () => {
+      await writeLock(1, "another-host");
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      await fs.utimes(lockPath, twoHoursAgo, twoHoursAgo);
+
+      expect(await storage.load()).toBeSuccessResult();
+    });
+
+    it("should refuse other instances in the same process", async () => {
+      await storage.load();
+
+      const result = await new RedditStorage(testFilePath).load();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_LOCKED");
+      }
+    });
+
+    it("should refuse a lock with this process's PID and hostname but another token", async () => {
+      // A container sharing the hostname, whose node process has the same PID
+      await fs.writeFile(
+        lockPath,
+        JSON.stringify({
+          pid: process.pid,
+          hostname: os.hostname(),
+          token: "another-token",
+          acquiredAt: Date.now(),
+        }),
+      );
+
+      const result = await storage.load();
+
+      expect(result).toBeErrorResult();
+      if (!result.success) {
+        expect(result.error.code).toBe("STORAGE_LOCKED");
+      }
+    });
+
+    it("should keep a lock file another instance holds when closed", async () => {
+      await storage.load();
+      await fs.writeFile(
+        lockPath,
+        JSON.stringify({
+          pid: process.pid,
+          hostname: os.hostname(),
+          token: "another-token",
+          acquiredAt: Date.now(),
+        }),
+      );
+
+      await storage.close();
+
+      await expect(fs.access(lockPath)).resolves.toBeUndefined();
+    });
+
+    it("should remove the lock file when closed", async () => {
+      await storage.load();
+
+      await storage.close();
+
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle very long post IDs", async () => {
       await storage.load();
@@ -566,11 +937,7 @@ describe("utility functions", () => {
   const testFilePath = "/tmp/util-test-storage.json";
 
   afterEach(async () => {
-    try {
-      await fs.unlink(testFilePath);
-    } catch {
-      // Ignore cleanup errors
-    }
+    await removeStorageFiles(testFilePath);
   });
 
   describe("createStorage", () => {
@@ -585,6 +952,7 @@ describe("utility functions", () => {
       const storage = createStorage(testFilePath);
       await storage.load();
       await storage.addPostId("test-id");
+      await storage.close();
 
       const hasId = await hasPostIdInFile(testFilePath, "test-id");
       const hasNotId = await hasPostIdInFile(testFilePath, "not-exist");
@@ -614,7 +982,9 @@ describe("utility functions", () => {
 
       expect(result).toBeSuccessResult();
       if (result.success) {
-        expect(result.data.postedIds).toContain("test-data");
+        expect(result.data.posts.map((post) => post.postId)).toContain(
+          "test-data",
+        );
       }
     });
   });
@@ -629,6 +999,7 @@ describe("integration tests", () => {
 
       expect(await storage.hasPostId("integration-test")).toBe(true);
     });
+    await removeStorageFiles("/tmp/integration-test.json");
   });
 
   it("should handle complex workflow", async () => {
@@ -658,12 +1029,13 @@ describe("integration tests", () => {
       expect(stats?.totalProcessed).toBe(3);
 
       // 6. Create new instance and verify persistence
+      await storage.close();
       const newStorage = createStorage(tempFile);
       await newStorage.load();
       expect(await newStorage.getPostedIds()).toHaveLength(3);
       expect(await newStorage.hasPostId("post1")).toBe(true);
     } finally {
-      await fs.unlink(tempFile).catch(() => {});
+      await removeStorageFiles(tempFile);
     }
   });
 });
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for forum tag discovery
+ * Tests matching flairs to tags by name and finding missing configured tags
+ */
+
+import {
+  findMissingTagIds,
+  getConfiguredTagIds,
+  proposeTagMapping,
+} from "../../src/utils/tag-discovery";
+
+describe("tag discovery", () => {
+  const tags = [
+    { id: "1", name: "📰 News" },
+    { id: "2", name: "question" },
+    { id: "3", name: "Photography" },
+  ];
+
+  it("should match flairs to tags ignoring case, emoji and punctuation", () => {
+    expect(proposeTagMapping(["News", "Question!", "Bushfire"], tags)).toEqual({
+      mapping: { News: "1", "Question!": "2" },
+      unmatchedFlairs: ["Bushfire"],
+      unusedTags: [{ id: "3", name: "Photography" }],
+    });
+  });
+
+  it("should collect tag IDs from the mapping and rules", () => {
+    expect(
+      getConfiguredTagIds({
+        tagMapping: { News: "1", Local: "4" },
+        tagRules: [
+          { tag: "4", keywords: ["hobart"] },
+          { tag: "5", mediaTypes: ["video"] },
+        ],
+      }),
+    ).toEqual(["1", "4", "5"]);
+    expect(getConfiguredTagIds({})).toEqual([]);
+  });
+
+  it("should find configured tags the channel no longer has", () => {
+    expect(
+      findMissingTagIds(
+        {
+          tagMapping: { News: "1" },
+          tagRules: [{ tag: "9", minScore: 100 }],
+        },
+        tags,
+      ),
+    ).toEqual(["9"]);
+  });
+});
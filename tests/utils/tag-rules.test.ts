@@ -0,0 +1,70 @@
+/**
+ * Unit tests for forum tag rules
+ * Tests each condition, combined conditions and the five tag limit
+ */
+
+import { TagRules, tagMappingToRules } from "../../src/utils/tag-rules";
+import { createMockRedditPost } from "../setup";
+
+describe("TagRules", () => {
+  const post = createMockRedditPost({
+    title: "Bushfire smoke over Hobart",
+    link_flair_text: "News - Local",
+    ups: 250,
+  });
+
+  it("should match flairs ignoring case and flair patterns", () => {
+    const rules = new TagRules([
+      { tag: "1", flairs: ["news - local"] },
+      { tag: "2", flairPattern: "^news\\b" },
+      { tag: "3", flairs: ["News"] },
+      { tag: "4", flairPattern: "question" },
+    ]);
+
+    expect(rules.getTags(post, "image")).toEqual(["1", "2"]);
+    expect(
+      rules.getTags(createMockRedditPost({ link_flair_text: null }), "text"),
+    ).toEqual([]);
+  });
+
+  it("should match keywords in the title, media types and score bands", () => {
+    const rules = new TagRules([
+      { tag: "1", keywords: ["BUSHFIRE", "flood"] },
+      { tag: "2", keywords: ["test post"] },
+      { tag: "3", mediaTypes: ["image", "video"] },
+      { tag: "4", mediaTypes: ["text"] },
+      { tag: "5", minScore: 100, maxScore: 499 },
+      { tag: "6", minScore: 500 },
+    ]);
+
+    expect(rules.getTags(post, "image")).toEqual(["1", "3", "5"]);
+  });
+
+  it("should need every condition of a rule to match", () => {
+    const rules = new TagRules([
+      { tag: "1", keywords: ["bushfire"], mediaTypes: ["video"] },
+      { tag: "2", keywords: ["bushfire"], mediaTypes: ["image"] },
+    ]);
+
+    expect(rules.getTags(post, "image")).toEqual(["2"]);
+  });
+
+  it("should apply each tag once and at most five tags", () => {
+    const rules = new TagRules(
+      ["1", "1", "2", "3", "4", "5", "6"].map((tag) => ({
+        tag,
+        minScore: 0,
+      })),
+    );
+
+    expect(rules.getTags(post, "link")).toEqual(["1", "2", "3", "4", "5"]);
+  });
+
+  it("should turn a flair mapping into flair rules", () => {
+    expect(tagMappingToRules({ News: "1", Question: "2" })).toEqual([
+      { tag: "1", flairs: ["News"] },
+      { tag: "2", flairs: ["Question"] },
+    ]);
+    expect(tagMappingToRules()).toEqual([]);
+  });
+});